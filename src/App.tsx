@@ -3,7 +3,11 @@ import { ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 
 import { AuthProvider } from './context/AuthContext';
+import { CourseProvider } from './context/CourseContext';
+import { NotificationProvider } from './context/NotificationContext';
 import Layout from './components/Layout';
+import RoleRoute from './components/RoleRoute';
+import CourseRoute from './components/CourseRoute';
 
 // Auth Pages
 import Login from './pages/auth/Login';
@@ -14,61 +18,113 @@ import ForgotPassword from './pages/auth/ForgotPassword';
 import Dashboard from './pages/Dashboard';
 import Profile from './pages/Profile';
 import Feedback from './pages/Feedback';
+import Search from './pages/Search';
+import Notifications from './pages/Notifications';
 
 // Notes Pages
 import Notes from './pages/notes/Notes';
 import NoteForm from './pages/notes/NoteForm';
 import NoteDetail from './pages/notes/NoteDetail';
+import SharedNote from './pages/notes/SharedNote';
 
 // Assignments Pages
 import Assignments from './pages/assignments/Assignments';
 import AssignmentDetail from './pages/assignments/AssignmentDetail';
+import AssignmentForm from './pages/assignments/AssignmentForm';
+import GradingQueue from './pages/assignments/GradingQueue';
 
 // Announcements Pages
 import Announcements from './pages/announcements/Announcements';
 import AnnouncementForm from './pages/announcements/AnnouncementForm';
 import AnnouncementDetail from './pages/announcements/AnnouncementDetail';
 
+// Courses Pages
+import Courses from './pages/courses/Courses';
+import CourseRoster from './pages/courses/CourseRoster';
+
+// Admin Pages
+import Users from './pages/admin/Users';
+
 function App() {
   return (
     <Router>
       <AuthProvider>
-        <ToastContainer position="top-right" autoClose={3000} />
-        <Routes>
-          {/* Auth Routes */}
-          <Route path="/login" element={<Login />} />
-          <Route path="/register" element={<Register />} />
-          <Route path="/forgot-password" element={<ForgotPassword />} />
-          
-          {/* Protected Routes */}
-          <Route path="/" element={<Layout />}>
-            <Route index element={<Navigate to="/dashboard" replace />} />
-            <Route path="dashboard" element={<Dashboard />} />
-            <Route path="profile" element={<Profile />} />
-            
-            {/* Notes Routes */}
-            <Route path="notes" element={<Notes />} />
-            <Route path="notes/new" element={<NoteForm />} />
-            <Route path="notes/:id" element={<NoteDetail />} />
-            <Route path="notes/:id/edit" element={<NoteForm />} />
+        <CourseProvider>
+          <NotificationProvider>
+            <ToastContainer position="top-right" autoClose={3000} />
+            <Routes>
+              {/* Auth Routes */}
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
             
-            {/* Assignments Routes */}
-            <Route path="assignments" element={<Assignments />} />
-            <Route path="assignments/:id" element={<AssignmentDetail />} />
+              {/* Public Routes */}
+              <Route path="/s/:token" element={<SharedNote />} />
             
-            {/* Announcements Routes */}
-            <Route path="announcements" element={<Announcements />} />
-            <Route path="announcements/new" element={<AnnouncementForm />} />
-            <Route path="announcements/:id" element={<AnnouncementDetail />} />
-            <Route path="announcements/:id/edit" element={<AnnouncementForm />} />
+              {/* Protected Routes */}
+              <Route path="/" element={<Layout />}>
+                <Route index element={<Navigate to="/dashboard" replace />} />
+                <Route path="dashboard" element={<Dashboard />} />
+                <Route path="profile" element={<Profile />} />
+                <Route path="search" element={<Search />} />
+                <Route path="notifications" element={<Notifications />} />
+              
+                {/* Notes Routes */}
+                <Route path="notes" element={<Notes />} />
+                <Route path="notes/new" element={<NoteForm />} />
+                <Route path="notes/:id" element={<NoteDetail />} />
+                <Route path="notes/:id/edit" element={<NoteForm />} />
+              
+                {/* Assignments Routes */}
+                <Route path="assignments" element={<Assignments />} />
+                <Route
+                  path="assignments/new"
+                  element={
+                    <CourseRoute>
+                      <AssignmentForm />
+                    </CourseRoute>
+                  }
+                />
+                <Route path="assignments/:id" element={<AssignmentDetail />} />
+                <Route path="assignments/:id/submissions" element={<GradingQueue />} />
+                <Route path="assignments/:id/edit" element={<AssignmentForm />} />
+              
+                {/* Announcements Routes */}
+                <Route path="announcements" element={<Announcements />} />
+                <Route
+                  path="announcements/new"
+                  element={
+                    <CourseRoute>
+                      <AnnouncementForm />
+                    </CourseRoute>
+                  }
+                />
+                <Route path="announcements/:id" element={<AnnouncementDetail />} />
+                <Route path="announcements/:id/edit" element={<AnnouncementForm />} />
+              
+                {/* Courses Routes */}
+                <Route path="courses" element={<Courses />} />
+                <Route path="courses/:id" element={<CourseRoster />} />
+              
+                {/* Feedback Route */}
+                <Route path="feedback" element={<Feedback />} />
+              
+                {/* Admin Routes */}
+                <Route
+                  path="admin/users"
+                  element={
+                    <RoleRoute roles={['admin']}>
+                      <Users />
+                    </RoleRoute>
+                  }
+                />
+              </Route>
             
-            {/* Feedback Route */}
-            <Route path="feedback" element={<Feedback />} />
-          </Route>
-          
-          {/* Catch all */}
-          <Route path="*" element={<Navigate to="/dashboard" replace />} />
-        </Routes>
+              {/* Catch all */}
+              <Route path="*" element={<Navigate to="/dashboard" replace />} />
+            </Routes>
+          </NotificationProvider>
+        </CourseProvider>
       </AuthProvider>
     </Router>
   );
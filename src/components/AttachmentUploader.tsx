@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Pause, Play, RotateCw, Upload, X } from 'lucide-react';
+import FileTypeIcon from './FileTypeIcon';
+import { formatFileSize } from '../lib/attachments';
+import type { FileInfo } from '../lib/attachments';
+import type { UploadProgress } from '../hooks/useAttachmentUploads';
+
+interface AttachmentUploaderProps {
+  files: FileInfo[];
+  uploads: UploadProgress[];
+  maxSize: number;
+  onUpload: (files: FileList | File[] | null) => void;
+  onRemove: (file: FileInfo) => void;
+  onPause: (uploadId: string) => void;
+  onResume: (uploadId: string) => void;
+  onCancel: (uploadId: string) => void;
+  label?: string;
+}
+
+const AttachmentUploader: React.FC<AttachmentUploaderProps> = ({
+  files,
+  uploads,
+  maxSize,
+  onUpload,
+  onRemove,
+  onPause,
+  onResume,
+  onCancel,
+  label = 'Attachments (Optional)',
+}) => {
+  const [dragActive, setDragActive] = useState(false);
+
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+    onUpload(event.dataTransfer.files);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {label}
+      </label>
+
+      <div className="flex items-center justify-center w-full">
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragActive(true);
+          }}
+          onDragLeave={() => setDragActive(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer ${
+            dragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
+          }`}
+        >
+          <div className="flex flex-col items-center justify-center pt-5 pb-6">
+            <Upload className="w-8 h-8 mb-2 text-gray-500" />
+            <p className="mb-2 text-sm text-gray-500">
+              <span className="font-semibold">Click to upload</span> or drag and drop
+            </p>
+            <p className="text-xs text-gray-500">
+              Select one or more files (Images, Videos, Audio, PDFs, Documents, etc.) - Max {formatFileSize(maxSize)} each
+            </p>
+          </div>
+          <input
+            type="file"
+            className="hidden"
+            onChange={(e) => {
+              onUpload(e.target.files);
+              e.target.value = '';
+            }}
+            accept="*/*"
+            multiple
+          />
+        </label>
+      </div>
+
+      {files.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {files.map((file) => (
+            <li key={file.path} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-300">
+              <div className="flex items-center space-x-3 min-w-0">
+                <div className="text-blue-600">
+                  <FileTypeIcon type={file.type} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {file.name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(file.size)}
+                  </p>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onRemove(file)}
+                className="ml-4 text-red-600 hover:text-red-800"
+                title="Remove file"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {uploads.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {uploads.map((upload) => (
+            <li
+              key={upload.id}
+              className={`p-3 rounded-lg border ${
+                upload.status === 'failed' ? 'border-red-200 bg-red-50' : 'border-blue-200 bg-blue-50'
+              }`}
+            >
+              <div className="flex items-center justify-between text-sm">
+                <span className={`truncate ${upload.status === 'failed' ? 'text-red-700' : 'text-blue-700'}`}>
+                  {upload.name}
+                </span>
+                <div className="ml-4 flex items-center space-x-2">
+                  <span className="text-xs font-medium text-gray-600">
+                    {upload.status === 'paused' && 'Paused · '}
+                    {upload.status === 'failed' && 'Failed · '}
+                    {upload.progress}%
+                  </span>
+                  {upload.status === 'uploading' && (
+                    <button
+                      type="button"
+                      onClick={() => onPause(upload.id)}
+                      className="text-gray-500 hover:text-gray-700"
+                      title="Pause upload"
+                    >
+                      <Pause className="h-4 w-4" />
+                    </button>
+                  )}
+                  {upload.status === 'paused' && (
+                    <button
+                      type="button"
+                      onClick={() => onResume(upload.id)}
+                      className="text-gray-500 hover:text-gray-700"
+                      title="Resume upload"
+                    >
+                      <Play className="h-4 w-4" />
+                    </button>
+                  )}
+                  {upload.status === 'failed' && (
+                    <button
+                      type="button"
+                      onClick={() => onResume(upload.id)}
+                      className="text-gray-500 hover:text-gray-700"
+                      title="Retry upload"
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onCancel(upload.id)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Cancel upload"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="mt-2 h-1.5 w-full rounded-full bg-white overflow-hidden">
+                <div
+                  className={`h-full transition-all ${
+                    upload.status === 'failed' ? 'bg-red-500' : upload.status === 'paused' ? 'bg-gray-400' : 'bg-blue-600'
+                  }`}
+                  style={{ width: `${upload.progress}%` }}
+                ></div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentUploader;
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Download, ExternalLink } from 'lucide-react';
+import FileTypeIcon from './FileTypeIcon';
+import { canPreviewInBrowser, createSignedUrls, formatFileSize, getDownloadUrl, sortAttachments } from '../lib/attachments';
+import { getAttachmentAnchor } from '../lib/search';
+import type { Attachment } from '../lib/supabase';
+
+type ViewableAttachment = Pick<Attachment, 'id' | 'file_path' | 'file_name' | 'file_type' | 'file_size' | 'inline' | 'created_at'>;
+
+interface AttachmentViewerProps {
+  attachments: ViewableAttachment[] | undefined;
+  title?: string;
+  showPreview?: boolean;
+}
+
+const AttachmentViewer: React.FC<AttachmentViewerProps> = ({
+  attachments,
+  title = 'Attachments',
+  showPreview = true,
+}) => {
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
+  const [signing, setSigning] = useState(true);
+  const { hash } = useLocation();
+  // Inline images are shown inside the document instead
+  const listed = (attachments || []).filter((attachment) => !attachment.inline);
+  const pathsKey = listed.map((attachment) => attachment.file_path).join('\n');
+
+  useEffect(() => {
+    const fetchSignedUrls = async () => {
+      try {
+        setSigning(true);
+        setSignedUrls(await createSignedUrls(pathsKey ? pathsKey.split('\n') : []));
+      } catch (error) {
+        console.error('Error creating attachment links:', error);
+      } finally {
+        setSigning(false);
+      }
+    };
+
+    fetchSignedUrls();
+  }, [pathsKey]);
+
+  // Search results link straight to the file that matched
+  useEffect(() => {
+    if (signing || !hash) return;
+    document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [signing, hash]);
+
+  if (listed.length === 0) return null;
+
+  return (
+    <div className="mt-6 border-t pt-6">
+      <h3 className="text-sm font-medium text-gray-900 mb-3">{title}</h3>
+      <div className="space-y-4">
+        {sortAttachments(listed).map((attachment) => {
+          const url = signedUrls[attachment.file_path];
+          const anchor = getAttachmentAnchor(attachment.id);
+
+          return (
+            <div
+              key={attachment.id}
+              id={anchor}
+              className={`bg-gray-50 rounded-lg border overflow-hidden scroll-mt-6 ${
+                hash === `#${anchor}` ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-300'
+              }`}
+            >
+              <div className="p-4 flex items-center justify-between">
+                <div className="flex items-center space-x-3 flex-1 min-w-0">
+                  <div className="text-blue-600 flex-shrink-0">
+                    <FileTypeIcon type={attachment.file_type} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {attachment.file_name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatFileSize(attachment.file_size)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  {!url ? (
+                    <span className="text-xs text-gray-500">{signing ? 'Loading...' : 'Unavailable'}</span>
+                  ) : canPreviewInBrowser(attachment.file_type) ? (
+                    <a
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                      <ExternalLink className="h-4 w-4 mr-1" />
+                      Open
+                    </a>
+                  ) : (
+                    <a
+                      href={getDownloadUrl(url, attachment.file_name)}
+                      className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Download
+                    </a>
+                  )}
+                </div>
+              </div>
+
+              {/* Preview Section for Images, Videos, Audio, and PDFs */}
+              {showPreview && url && attachment.file_type && (
+                <>
+                  {attachment.file_type.startsWith('image/') && (
+                    <div className="border-t border-gray-200 p-4 bg-white">
+                      <img
+                        src={url}
+                        alt={attachment.file_name}
+                        className="max-w-full h-auto rounded-lg shadow-sm"
+                      />
+                    </div>
+                  )}
+
+                  {attachment.file_type.startsWith('video/') && (
+                    <div className="border-t border-gray-200 p-4 bg-black">
+                      <video
+                        controls
+                        className="max-w-full h-auto rounded-lg"
+                        preload="metadata"
+                      >
+                        <source src={url} type={attachment.file_type} />
+                        Your browser does not support the video tag.
+                      </video>
+                    </div>
+                  )}
+
+                  {attachment.file_type.startsWith('audio/') && (
+                    <div className="border-t border-gray-200 p-4 bg-white">
+                      <audio controls className="w-full">
+                        <source src={url} type={attachment.file_type} />
+                        Your browser does not support the audio tag.
+                      </audio>
+                    </div>
+                  )}
+
+                  {attachment.file_type === 'application/pdf' && (
+                    <div className="border-t border-gray-200 p-4 bg-gray-100">
+                      <iframe
+                        src={url}
+                        className="w-full h-[600px] rounded-lg border-0"
+                        title={attachment.file_name}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentViewer;
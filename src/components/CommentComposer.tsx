@@ -0,0 +1,238 @@
+import React, { useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Send } from 'lucide-react';
+import {
+  MAX_MENTION_SUGGESTIONS,
+  decodeMentions,
+  encodeMentions,
+  getMentionName,
+  getMentionQuery,
+} from '../lib/comments';
+import type { Profile } from '../lib/supabase';
+
+interface CommentComposerProps {
+  // Course members that can be mentioned
+  members: Profile[];
+  initialContent?: string;
+  placeholder?: string;
+  submitLabel?: string;
+  submittingLabel?: string;
+  rows?: number;
+  autoFocus?: boolean;
+  // Resolves to whether the comment was saved, so the text is only cleared once it is
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+  onTyping?: () => void;
+  // Shown next to the buttons, e.g. who else is typing
+  status?: React.ReactNode;
+}
+
+type CommentFormData = {
+  content: string;
+};
+
+const CommentComposer: React.FC<CommentComposerProps> = ({
+  members,
+  initialContent = '',
+  placeholder = 'Add a comment...',
+  submitLabel = 'Post Comment',
+  submittingLabel = 'Posting...',
+  rows = 3,
+  autoFocus = false,
+  onSubmit,
+  onCancel,
+  onTyping,
+  status,
+}) => {
+  const [initial] = useState(() => decodeMentions(initialContent));
+  // Names picked from the suggestions, with the users they stand for
+  const mentionsRef = useRef(initial.mentions);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const updateMentionQuery = (textarea: HTMLTextAreaElement) => {
+    setMentionQuery(getMentionQuery(textarea.value, textarea.selectionStart));
+    setHighlighted(0);
+  };
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    formState: { errors, isSubmitting },
+  } = useForm<CommentFormData>({ defaultValues: { content: initial.text } });
+
+  const { ref: contentRef, ...contentField } = register('content', {
+    validate: (value) => value.trim().length > 0 || 'Comment cannot be empty',
+    onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      updateMentionQuery(e.target);
+      onTyping?.();
+    },
+  });
+
+  // Members with a first or last name starting with what was typed after the @
+  const suggestions = mentionQuery
+    ? members
+        .filter((member) =>
+          getMentionName(member)
+            .toLowerCase()
+            .split(/\s+/)
+            .some((part) => part.startsWith(mentionQuery.query.toLowerCase()))
+        )
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
+  const insertMention = (member: Profile) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !mentionQuery) return;
+
+    const name = getMentionName(member);
+    const caret = textarea.selectionStart;
+    const before = textarea.value.slice(0, mentionQuery.start);
+    const after = textarea.value.slice(caret);
+    const inserted = `@${name} `;
+
+    mentionsRef.current.set(name, member.id);
+    setValue('content', before + inserted + after, { shouldValidate: Boolean(errors.content) });
+    setMentionQuery(null);
+
+    // Put the caret after the mention once the new value has rendered
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(before.length + inserted.length, before.length + inserted.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setMentionQuery(null);
+    }
+  };
+
+  const submit = async (data: CommentFormData) => {
+    const saved = await onSubmit(encodeMentions(data.content.trim(), mentionsRef.current));
+    if (saved) {
+      mentionsRef.current = new Map();
+      reset({ content: '' });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)}>
+      <div className="relative">
+        <textarea
+          {...contentField}
+          ref={(element) => {
+            contentRef(element);
+            textareaRef.current = element;
+          }}
+          rows={rows}
+          autoFocus={autoFocus}
+          placeholder={placeholder}
+          aria-label={placeholder}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateMentionQuery(e.currentTarget)}
+          onBlur={(e) => {
+            contentField.onBlur(e);
+            setMentionQuery(null);
+          }}
+          className={`block w-full rounded-md shadow-sm sm:text-sm ${
+            errors.content ? 'border-red-300' : 'border-gray-300'
+          } focus:border-blue-500 focus:ring-blue-500`}
+        ></textarea>
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-64 overflow-hidden rounded-md border border-gray-200 bg-white py-1 shadow-lg">
+            {suggestions.map((member, index) => (
+              <li key={member.id}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(member)}
+                  className={`flex w-full items-center px-3 py-1.5 text-left text-sm ${
+                    index === highlighted ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <img
+                    src={member.avatar_url || `https://ui-avatars.com/api/?name=${member.first_name}+${member.last_name}&background=random`}
+                    alt=""
+                    className="h-5 w-5 rounded-full mr-2"
+                  />
+                  <span className="truncate">{getMentionName(member)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {errors.content && (
+        <p className="mt-1 text-sm text-red-600">{errors.content.message}</p>
+      )}
+      <div className="mt-2 flex items-center justify-between">
+        {status}
+        <div className="ml-auto flex space-x-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isSubmitting ? (
+              <span className="flex items-center">
+                <svg
+                  className="animate-spin -ml-1 mr-2 h-4 w-4 text-white"
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                >
+                  <circle
+                    className="opacity-25"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  ></circle>
+                  <path
+                    className="opacity-75"
+                    fill="currentColor"
+                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                  ></path>
+                </svg>
+                {submittingLabel}
+              </span>
+            ) : (
+              <>
+                <Send className="h-4 w-4 mr-2" />
+                {submitLabel}
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default CommentComposer;
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { REACTION_EMOJIS, summarizeReactions } from '../lib/comments';
+import type { CommentReaction } from '../lib/supabase';
+
+interface CommentReactionsProps {
+  reactions: CommentReaction[] | undefined;
+  userId: string | undefined;
+  onToggle: (emoji: string) => void;
+}
+
+const CommentReactions: React.FC<CommentReactionsProps> = ({ reactions, userId, onToggle }) => {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const summaries = summarizeReactions(reactions, userId);
+
+  useEffect(() => {
+    if (!pickerOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setPickerOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [pickerOpen]);
+
+  const pick = (emoji: string) => {
+    setPickerOpen(false);
+    onToggle(emoji);
+  };
+
+  return (
+    <div ref={containerRef} className="relative flex flex-wrap items-center gap-1">
+      {summaries.map((summary) => (
+        <button
+          key={summary.emoji}
+          type="button"
+          onClick={() => onToggle(summary.emoji)}
+          aria-pressed={summary.reacted}
+          className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs ${
+            summary.reacted
+              ? 'border-blue-300 bg-blue-50 text-blue-700'
+              : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          <span className="mr-1">{summary.emoji}</span>
+          {summary.count}
+        </button>
+      ))}
+      <button
+        type="button"
+        onClick={() => setPickerOpen(!pickerOpen)}
+        className="inline-flex items-center rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+        aria-label="Add reaction"
+        title="Add reaction"
+      >
+        <SmilePlus className="h-4 w-4" />
+      </button>
+      {pickerOpen && (
+        <div className="absolute bottom-full left-0 z-10 mb-1 flex rounded-full border border-gray-200 bg-white px-1 py-0.5 shadow-lg">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => pick(emoji)}
+              className="rounded-full px-1.5 py-1 text-lg leading-none hover:bg-gray-100"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentReactions;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ChevronDown, ChevronRight, Pencil, Reply, Trash2 } from 'lucide-react';
+import CommentComposer from './CommentComposer';
+import CommentReactions from './CommentReactions';
+import { MAX_THREAD_DEPTH, countReplies, splitMentions } from '../lib/comments';
+import type { CommentWithUser } from '../lib/comments';
+import type { Profile } from '../lib/supabase';
+
+interface CommentThreadProps {
+  comment: CommentWithUser;
+  // Replies of every comment on the announcement or note, by the comment they answer
+  replies: Map<string | null, CommentWithUser[]>;
+  members: Profile[];
+  userId: string | undefined;
+  canModerate: boolean;
+  // Whether the user may post replies
+  canReply?: boolean;
+  depth?: number;
+  onReply: (parent: CommentWithUser, content: string) => Promise<boolean>;
+  onEdit: (comment: CommentWithUser, content: string) => Promise<boolean>;
+  onDelete: (comment: CommentWithUser) => void;
+  onToggleReaction: (comment: CommentWithUser, emoji: string) => void;
+  onTyping?: () => void;
+}
+
+const CommentThread: React.FC<CommentThreadProps> = ({
+  comment,
+  replies,
+  members,
+  userId,
+  canModerate,
+  canReply = true,
+  depth = 0,
+  onReply,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  onTyping,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [replying, setReplying] = useState(false);
+  const [collapsed, setCollapsed] = useState(false);
+  const commentReplies = replies.get(comment.id) || [];
+  const replyCount = countReplies(replies, comment.id);
+  const isAuthor = userId === comment.user_id;
+
+  const handleEdit = async (content: string) => {
+    const saved = await onEdit(comment, content);
+    if (saved) setEditing(false);
+    return saved;
+  };
+
+  const handleReply = async (content: string) => {
+    const saved = await onReply(comment, content);
+    if (saved) {
+      setReplying(false);
+      setCollapsed(false);
+    }
+    return saved;
+  };
+
+  return (
+    <li>
+      <div className="bg-gray-50 rounded-lg p-4">
+        <div className="flex justify-between">
+          <div className="flex items-center flex-wrap">
+            <img
+              src={comment.user.avatar_url || `https://ui-avatars.com/api/?name=${comment.user.first_name}+${comment.user.last_name}&background=random`}
+              alt={`${comment.user.first_name} ${comment.user.last_name}`}
+              className="h-6 w-6 rounded-full mr-2"
+            />
+            <span className="text-sm font-medium text-gray-900">
+              {comment.user.first_name} {comment.user.last_name}
+            </span>
+            <span className="ml-2 text-xs text-gray-500">
+              {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+            </span>
+            {comment.edited_at && (
+              <span
+                className="ml-2 text-xs text-gray-400 italic"
+                title={`Edited ${format(new Date(comment.edited_at), 'PPp')}`}
+              >
+                (edited)
+              </span>
+            )}
+          </div>
+          {!editing && (isAuthor || canModerate) && (
+            <div className="flex items-center space-x-2">
+              {isAuthor && (
+                <button
+                  onClick={() => setEditing(true)}
+                  className="text-gray-400 hover:text-blue-500"
+                  aria-label="Edit comment"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+              )}
+              <button
+                onClick={() => onDelete(comment)}
+                className="text-gray-400 hover:text-red-500"
+                aria-label="Delete comment"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {editing ? (
+          <div className="mt-2">
+            <CommentComposer
+              members={members}
+              initialContent={comment.content}
+              placeholder="Edit your comment..."
+              submitLabel="Save"
+              submittingLabel="Saving..."
+              rows={2}
+              autoFocus
+              onSubmit={handleEdit}
+              onCancel={() => setEditing(false)}
+            />
+          </div>
+        ) : (
+          <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">
+            {splitMentions(comment.content).map((part, index) =>
+              part.type === 'mention' ? (
+                <span
+                  key={index}
+                  className={`font-medium rounded px-0.5 ${
+                    part.userId === userId ? 'bg-yellow-100 text-yellow-800' : 'text-blue-600'
+                  }`}
+                >
+                  @{part.name}
+                </span>
+              ) : (
+                <React.Fragment key={index}>{part.text}</React.Fragment>
+              )
+            )}
+          </p>
+        )}
+
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <CommentReactions
+            reactions={comment.reactions}
+            userId={userId}
+            onToggle={(emoji) => onToggleReaction(comment, emoji)}
+          />
+          {canReply && (
+            <button
+              onClick={() => setReplying(!replying)}
+              className="inline-flex items-center text-xs font-medium text-gray-500 hover:text-blue-600"
+            >
+              <Reply className="h-3.5 w-3.5 mr-1" />
+              Reply
+            </button>
+          )}
+          {replyCount > 0 && (
+            <button
+              onClick={() => setCollapsed(!collapsed)}
+              className="inline-flex items-center text-xs font-medium text-gray-500 hover:text-blue-600"
+            >
+              {collapsed ? <ChevronRight className="h-3.5 w-3.5 mr-1" /> : <ChevronDown className="h-3.5 w-3.5 mr-1" />}
+              {collapsed ? 'Show' : 'Hide'} {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+            </button>
+          )}
+        </div>
+
+        {replying && (
+          <div className="mt-3">
+            <CommentComposer
+              members={members}
+              placeholder={`Reply to ${comment.user.first_name || 'this comment'}...`}
+              submitLabel="Reply"
+              rows={2}
+              autoFocus
+              onSubmit={handleReply}
+              onCancel={() => setReplying(false)}
+              onTyping={onTyping}
+            />
+          </div>
+        )}
+      </div>
+
+      {!collapsed && commentReplies.length > 0 && (
+        <ul className={`mt-3 space-y-3 ${depth < MAX_THREAD_DEPTH ? 'ml-6 pl-4 border-l-2 border-gray-100' : ''}`}>
+          {commentReplies.map((reply) => (
+            <CommentThread
+              key={reply.id}
+              comment={reply}
+              replies={replies}
+              members={members}
+              userId={userId}
+              canModerate={canModerate}
+              canReply={canReply}
+              depth={depth + 1}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onToggleReaction={onToggleReaction}
+              onTyping={onTyping}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export default CommentThread;
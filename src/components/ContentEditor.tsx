@@ -0,0 +1,104 @@
+import React from 'react';
+import type { UseFormRegisterReturn } from 'react-hook-form';
+import MarkdownContent from './MarkdownContent';
+import type { ContentFormat } from '../lib/supabase';
+
+interface ContentEditorProps {
+  id: string;
+  label: string;
+  value: string;
+  format: ContentFormat;
+  onFormatChange: (format: ContentFormat) => void;
+  registration: UseFormRegisterReturn;
+  error?: string;
+  rows?: number;
+  formats?: ContentFormat[];
+  // Shown instead of the textarea when the 'rich' format is selected
+  richEditor?: React.ReactNode;
+}
+
+const formatLabels: Record<ContentFormat, string> = {
+  rich: 'Rich text',
+  markdown: 'Markdown',
+  plain: 'Plain text',
+};
+
+const ContentEditor: React.FC<ContentEditorProps> = ({
+  id,
+  label,
+  value,
+  format,
+  onFormatChange,
+  registration,
+  error,
+  rows = 10,
+  formats = ['markdown', 'plain'],
+  richEditor,
+}) => {
+  const textarea = (
+    <textarea
+      id={id}
+      rows={format === 'markdown' ? Math.max(rows, 16) : rows}
+      {...registration}
+      className={`block w-full rounded-md shadow-sm ${
+        error ? 'border-red-300' : 'border-gray-300'
+      } focus:border-blue-500 focus:ring-blue-500 ${format === 'markdown' ? 'font-mono text-sm' : ''}`}
+    ></textarea>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+          {label}
+        </label>
+        <div className="inline-flex rounded-md shadow-sm">
+          {formats.map((option, index) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onFormatChange(option)}
+              className={`px-3 py-1 text-xs font-medium border ${
+                index === 0 ? 'rounded-l-md' : '-ml-px'
+              } ${index === formats.length - 1 ? 'rounded-r-md' : ''} ${
+                format === option
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {formatLabels[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {format === 'rich' ? (
+        richEditor
+      ) : format === 'markdown' ? (
+        <>
+          <div className="mt-1 grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {textarea}
+            <div className="rounded-md border border-gray-300 bg-gray-50 p-4 overflow-auto max-h-[32rem]">
+              {value.trim() ? (
+                <MarkdownContent content={value} format="markdown" />
+              ) : (
+                <p className="text-sm text-gray-400">Preview will appear here</p>
+              )}
+            </div>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            Supports headings, lists, tables, fenced code blocks and math ($inline$ or $$block$$).
+          </p>
+        </>
+      ) : (
+        <div className="mt-1">{textarea}</div>
+      )}
+
+      {error && (
+        <p className="mt-1 text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default ContentEditor;
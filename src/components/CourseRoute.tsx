@@ -0,0 +1,29 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useCourse } from '../context/CourseContext';
+
+interface CourseRouteProps {
+  children: React.ReactNode;
+}
+
+// Limits a page that adds to the active course to that course's instructors (and admins). Pages about
+// an existing record check the record's own course instead.
+const CourseRoute: React.FC<CourseRouteProps> = ({ children }) => {
+  const { activeCourse, canManageCourse, loading } = useCourse();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!activeCourse || !canManageCourse()) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default CourseRoute;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { GraduationCap, Plus } from 'lucide-react';
+import { useCourse } from '../context/CourseContext';
+import { getCourseLabel } from '../lib/courses';
+
+interface CourseSwitcherProps {
+  onSwitch?: (courseId: string) => void;
+}
+
+const CourseSwitcher: React.FC<CourseSwitcherProps> = ({ onSwitch }) => {
+  const { courses, activeCourse, setActiveCourseId, loading } = useCourse();
+
+  if (loading) return null;
+
+  if (courses.length === 0) {
+    return (
+      <Link
+        to="/courses"
+        className="flex items-center justify-center w-full px-3 py-2 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 hover:border-blue-400 hover:text-blue-600"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Join a course
+      </Link>
+    );
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setActiveCourseId(e.target.value);
+    onSwitch?.(e.target.value);
+  };
+
+  return (
+    <div className="relative">
+      <label htmlFor="course-switcher" className="sr-only">
+        Course
+      </label>
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+        <GraduationCap className="h-4 w-4 text-gray-400" />
+      </div>
+      <select
+        id="course-switcher"
+        value={activeCourse?.id ?? ''}
+        onChange={handleChange}
+        className="block w-full pl-9 pr-8 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+      >
+        {courses.map((course) => (
+          <option key={course.id} value={course.id}>
+            {getCourseLabel(course)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default CourseSwitcher;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import type { EmailDigestFrequency } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import { emailDigestOptions, emailedNotificationTypes, notificationTypes } from '../lib/notifications';
+import { toast } from 'react-toastify';
+
+type EmailSettings = {
+  email_notifications?: boolean;
+  email_digest?: EmailDigestFrequency;
+};
+
+const emailedLabels = notificationTypes
+  .filter((notificationType) => emailedNotificationTypes.includes(notificationType.value))
+  .map((notificationType) => notificationType.label.toLowerCase())
+  .join(', ');
+
+const EmailPreferences: React.FC = () => {
+  const { user, profile, refreshProfile } = useAuth();
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = async (settings: EmailSettings) => {
+    try {
+      setSaving(true);
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          ...settings,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', user?.id);
+
+      if (error) throw error;
+
+      await refreshProfile();
+    } catch (error) {
+      console.error('Error updating email preferences:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update email preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!profile) return null;
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-medium text-gray-900">Email</h2>
+        <p className="mt-1 text-sm text-gray-500">Choose what is sent to {profile.email}</p>
+      </div>
+
+      <div className="divide-y divide-gray-200">
+        <div className="px-6 py-4 flex items-start">
+          <input
+            id="email-notifications"
+            type="checkbox"
+            checked={profile.email_notifications}
+            disabled={saving}
+            onChange={(e) => handleChange({ email_notifications: e.target.checked })}
+            className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <label htmlFor="email-notifications" className="ml-3">
+            <span className="block text-sm font-medium text-gray-700">Email me as things happen</span>
+            <span className="block text-sm text-gray-500">
+              Sends {emailedLabels} by email too. Types you turned off above are not emailed either.
+            </span>
+          </label>
+        </div>
+
+        <fieldset className="px-6 py-4">
+          <legend className="text-sm font-medium text-gray-700">Digest</legend>
+          <div className="mt-3 space-y-3">
+            {emailDigestOptions.map((option) => (
+              <div key={option.value} className="flex items-start">
+                <input
+                  id={`email-digest-${option.value}`}
+                  type="radio"
+                  name="email-digest"
+                  checked={profile.email_digest === option.value}
+                  disabled={saving}
+                  onChange={() => handleChange({ email_digest: option.value })}
+                  className="mt-1 h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <label htmlFor={`email-digest-${option.value}`} className="ml-3">
+                  <span className="block text-sm font-medium text-gray-700">{option.label}</span>
+                  <span className="block text-sm text-gray-500">{option.description}</span>
+                </label>
+              </div>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+    </div>
+  );
+};
+
+export default EmailPreferences;
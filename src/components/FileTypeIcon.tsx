@@ -0,0 +1,19 @@
+import React from 'react';
+import { FileText, File as FileIcon, Image as ImageIcon, Video as VideoIcon, Music, FileArchive } from 'lucide-react';
+
+interface FileTypeIconProps {
+  type: string | null;
+  className?: string;
+}
+
+const FileTypeIcon: React.FC<FileTypeIconProps> = ({ type, className = 'h-5 w-5' }) => {
+  if (!type) return <FileIcon className={className} />;
+  if (type.startsWith('image/')) return <ImageIcon className={className} />;
+  if (type.startsWith('video/')) return <VideoIcon className={className} />;
+  if (type.startsWith('audio/')) return <Music className={className} />;
+  if (type === 'application/pdf') return <FileText className={className} />;
+  if (type.includes('zip') || type.includes('rar') || type.includes('7z')) return <FileArchive className={className} />;
+  return <FileIcon className={className} />;
+};
+
+export default FileTypeIcon;
@@ -1,6 +1,7 @@
 import React from 'react';
-import { Outlet, Link, useLocation, Navigate } from 'react-router-dom';
+import { Outlet, Link, useLocation, useNavigate, Navigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { useCourse } from '../context/CourseContext';
 import {
   BookOpen,
   FileText,
@@ -11,14 +12,33 @@ import {
   X,
   Home,
   MessageSquare,
+  Shield,
+  Search,
+  GraduationCap,
 } from 'lucide-react';
+import CourseSwitcher from './CourseSwitcher';
+import NotificationBell from './NotificationBell';
+import type { UserRole } from '../lib/supabase';
+
+// Detail pages belong to one course, so switching courses leaves them for their list
+const courseScopedSections = ['assignments', 'announcements'];
+
+type NavItem = {
+  path: string;
+  icon: React.ReactNode;
+  label: string;
+  roles?: UserRole[];
+};
 
 const Layout: React.FC = () => {
-  const { user, signOut, loading } = useAuth();
+  const { user, role, hasRole, signOut, loading } = useAuth();
+  const { loading: coursesLoading } = useCourse();
   const location = useLocation();
+  const navigate = useNavigate();
   const [isMenuOpen, setIsMenuOpen] = React.useState(false);
+  const [searchTerm, setSearchTerm] = React.useState('');
 
-  if (loading) {
+  if (loading || (user && coursesLoading)) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
@@ -38,7 +58,22 @@ const Layout: React.FC = () => {
     setIsMenuOpen(false);
   };
 
-  const navItems = [
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchTerm.trim()) return;
+
+    navigate(`/search?q=${encodeURIComponent(searchTerm.trim())}`);
+    setSearchTerm('');
+  };
+
+  const handleCourseSwitch = () => {
+    const [, section, detail] = location.pathname.split('/');
+    if (detail && courseScopedSections.includes(section)) {
+      navigate(`/${section}`);
+    }
+  };
+
+  const allNavItems: NavItem[] = [
     { path: '/dashboard', icon: <Home size={20} />, label: 'Dashboard' },
     { path: '/notes', icon: <BookOpen size={20} />, label: 'Notes' },
     {
@@ -51,10 +86,19 @@ const Layout: React.FC = () => {
       icon: <Bell size={20} />,
       label: 'Announcements',
     },
+    { path: '/courses', icon: <GraduationCap size={20} />, label: 'Courses' },
     { path: '/feedback', icon: <MessageSquare size={20} />, label: 'Feedback' },
     { path: '/profile', icon: <User size={20} />, label: 'Profile' },
+    {
+      path: '/admin/users',
+      icon: <Shield size={20} />,
+      label: 'Users',
+      roles: ['admin'],
+    },
   ];
 
+  const navItems = allNavItems.filter((item) => !item.roles || hasRole(...item.roles));
+
   return (
     <div className="flex flex-col min-h-screen bg-gray-50">
       {/* Mobile Header */}
@@ -74,6 +118,15 @@ const Layout: React.FC = () => {
             <Link to="/dashboard" className="text-2xl font-bold text-blue-600">
               Academic content sharing web app
             </Link>
+            {role && role !== 'student' && (
+              <span className="mt-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
+                <Shield className="h-3 w-3 mr-1" />
+                {role}
+              </span>
+            )}
+          </div>
+          <div className="px-4 pb-2">
+            <CourseSwitcher onSwitch={handleCourseSwitch} />
           </div>
           <nav className="flex-1 px-4 py-2">
             <ul className="space-y-2">
@@ -121,6 +174,14 @@ const Layout: React.FC = () => {
               </button>
             </div>
             <nav className="p-6">
+              <div className="mb-4">
+                <CourseSwitcher
+                  onSwitch={() => {
+                    closeMenu();
+                    handleCourseSwitch();
+                  }}
+                />
+              </div>
               <ul className="space-y-4">
                 {navItems.map((item) => (
                   <li key={item.path}>
@@ -155,10 +216,29 @@ const Layout: React.FC = () => {
           </div>
         )}
 
-        {/* Main Content */}
-        <main className="flex-1 p-6 overflow-auto">
-          <Outlet />
-        </main>
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Search Header */}
+          <header className="bg-white border-b border-gray-200 px-6 py-3 flex items-center justify-between space-x-4">
+            <form onSubmit={handleSearch} className="relative flex-1 max-w-lg">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="search"
+                placeholder="Search notes, announcements, assignments..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </form>
+            <NotificationBell />
+          </header>
+
+          {/* Main Content */}
+          <main className="flex-1 p-6 overflow-auto">
+            <Outlet />
+          </main>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface ListFooterProps {
+  sentinelRef: (element: HTMLElement | null) => void;
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMoreFailed: boolean;
+  onRetry: () => void;
+}
+
+// End of a paginated list; the next page loads when it scrolls into view
+const ListFooter: React.FC<ListFooterProps> = ({ sentinelRef, hasMore, loadingMore, loadMoreFailed, onRetry }) => {
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      {loadMoreFailed ? (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          Couldn't load more. Try again
+        </button>
+      ) : loadingMore ? (
+        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+      ) : null}
+    </div>
+  );
+};
+
+export default ListFooter;
@@ -0,0 +1,47 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+import { markdownSanitizeSchema } from '../lib/markdown';
+import type { ContentFormat } from '../lib/supabase';
+
+interface MarkdownContentProps {
+  content: string;
+  format: ContentFormat;
+}
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, format }) => {
+  if (format !== 'markdown') {
+    return (
+      <div className="prose max-w-none">
+        <p className="whitespace-pre-wrap">{content}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="prose max-w-none">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        // Sanitize first; KaTeX and highlight.js output is generated by us and trusted
+        rehypePlugins={[[rehypeSanitize, markdownSanitizeSchema], rehypeKatex, rehypeHighlight]}
+        components={{
+          a: ({ href, children }) => (
+            <a href={href} target="_blank" rel="noopener noreferrer">
+              {children}
+            </a>
+          ),
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
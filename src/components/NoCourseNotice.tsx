@@ -0,0 +1,26 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { GraduationCap } from 'lucide-react';
+
+interface NoCourseNoticeProps {
+  // What the page would list, e.g. "assignments"
+  content: string;
+}
+
+const NoCourseNotice: React.FC<NoCourseNoticeProps> = ({ content }) => (
+  <div className="text-center py-12 bg-white shadow rounded-lg">
+    <GraduationCap className="mx-auto h-12 w-12 text-gray-400" />
+    <h3 className="mt-2 text-sm font-medium text-gray-900">You are not enrolled in a course</h3>
+    <p className="mt-1 text-sm text-gray-500">Join a course to see its {content}.</p>
+    <div className="mt-6">
+      <Link
+        to="/courses"
+        className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+      >
+        Join a course
+      </Link>
+    </div>
+  </div>
+);
+
+export default NoCourseNotice;
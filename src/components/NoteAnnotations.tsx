@@ -0,0 +1,414 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Highlighter, X } from 'lucide-react';
+import CommentComposer from './CommentComposer';
+import CommentThread from './CommentThread';
+import {
+  ACTIVE_ANNOTATION_HIGHLIGHT,
+  ANNOTATION_HIGHLIGHT,
+  createTextRange,
+  findAnchorOffsets,
+  getCommentAnchor,
+  getSelectionAnchor,
+  setHighlight,
+} from '../lib/annotations';
+import type { CommentAnchor } from '../lib/annotations';
+import { countReplies, stripMentions } from '../lib/comments';
+import type { CommentWithUser } from '../lib/comments';
+import type { Profile } from '../lib/supabase';
+
+interface NoteAnnotationsProps {
+  // Top-level comments anchored to the note's text
+  annotations: CommentWithUser[];
+  replies: Map<string | null, CommentWithUser[]>;
+  members: Profile[];
+  userId: string | undefined;
+  canModerate: boolean;
+  // Left out for readers who may not comment, who can read annotations but not add them
+  onAnnotate?: (anchor: CommentAnchor, content: string) => Promise<boolean>;
+  onReply: (parent: CommentWithUser, content: string) => Promise<boolean>;
+  onEdit: (comment: CommentWithUser, content: string) => Promise<boolean>;
+  onDelete: (comment: CommentWithUser) => void;
+  onToggleReaction: (comment: CommentWithUser, emoji: string) => void;
+  // The rendered note
+  children: React.ReactNode;
+}
+
+// Space between cards stacked in the margin
+const CARD_GAP = 12;
+const PENDING_KEY = 'pending';
+
+type SelectionState = {
+  anchor: CommentAnchor;
+  // Offsets from the top left of the note
+  top: number;
+  bottom: number;
+  left: number;
+};
+
+type MarginLayout = {
+  tops: Record<string, number>;
+  height: number;
+};
+
+// Wraps a rendered note so readers can annotate passages of it. Annotated passages are
+// highlighted and their threads sit in the margin next to them, or below the note on
+// narrow screens.
+const NoteAnnotations: React.FC<NoteAnnotationsProps> = ({
+  annotations,
+  replies,
+  members,
+  userId,
+  canModerate,
+  onAnnotate,
+  onReply,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  children,
+}) => {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef(new Map<string, HTMLElement>());
+  const [selection, setSelection] = useState<SelectionState | null>(null);
+  const [pending, setPending] = useState<SelectionState | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  // Offset of each annotation's text from the top of the note, or null once the text is gone
+  const [placements, setPlacements] = useState<Record<string, number | null>>({});
+  const [ranges, setRanges] = useState(new Map<string, Range>());
+  const [layout, setLayout] = useState<MarginLayout>({ tops: {}, height: 0 });
+
+  const measure = useCallback(() => {
+    const content = contentRef.current;
+    if (!content) return;
+
+    const text = content.textContent || '';
+    const contentTop = content.getBoundingClientRect().top;
+    const nextRanges = new Map<string, Range>();
+    const next: Record<string, number | null> = {};
+
+    annotations.forEach((annotation) => {
+      const anchor = getCommentAnchor(annotation);
+      const offsets = anchor && findAnchorOffsets(text, anchor);
+      const range = offsets && createTextRange(content, offsets.start, offsets.end);
+      if (range) {
+        nextRanges.set(annotation.id, range);
+        next[annotation.id] = range.getBoundingClientRect().top - contentTop;
+      } else {
+        next[annotation.id] = null;
+      }
+    });
+
+    setRanges(nextRanges);
+    setPlacements((current) => {
+      const unchanged =
+        Object.keys(current).length === annotations.length &&
+        annotations.every((annotation) => current[annotation.id] === next[annotation.id]);
+      return unchanged ? current : next;
+    });
+  }, [annotations]);
+
+  // Find the passages again whenever the note changes or reflows, e.g. after a version is
+  // restored, as images load or when the window is resized
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+
+    measure();
+    const resizeObserver = new ResizeObserver(() => measure());
+    resizeObserver.observe(content);
+    const mutationObserver = new MutationObserver(() => measure());
+    mutationObserver.observe(content, { childList: true, subtree: true, characterData: true });
+
+    return () => {
+      resizeObserver.disconnect();
+      mutationObserver.disconnect();
+    };
+  }, [measure]);
+
+  useEffect(() => {
+    const content = contentRef.current;
+    const pendingRange = pending && content && createTextRange(content, pending.anchor.start, pending.anchor.end);
+    const activeRange = pendingRange || (activeId ? ranges.get(activeId) : undefined);
+
+    setHighlight(
+      ANNOTATION_HIGHLIGHT,
+      Array.from(ranges.entries())
+        .filter(([id]) => pendingRange || id !== activeId)
+        .map(([, range]) => range)
+    );
+    setHighlight(ACTIVE_ANNOTATION_HIGHLIGHT, activeRange ? [activeRange] : []);
+  }, [ranges, activeId, pending]);
+
+  // Hide the annotate button once the selection is cleared, wherever that happens
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) setSelection(null);
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, []);
+
+  useEffect(() => () => {
+    setHighlight(ANNOTATION_HIGHLIGHT, []);
+    setHighlight(ACTIVE_ANNOTATION_HIGHLIGHT, []);
+  }, []);
+
+  // Margin cards sit next to their passage, pushed down where they would overlap the one above
+  const cards = useMemo(
+    () =>
+      [
+        ...(pending ? [{ key: PENDING_KEY, top: pending.top }] : []),
+        ...annotations.map((annotation) => ({ key: annotation.id, top: placements[annotation.id] ?? Infinity })),
+      ].sort((a, b) => a.top - b.top),
+    [pending, annotations, placements]
+  );
+
+  const stackCards = useCallback(() => {
+    const tops: Record<string, number> = {};
+    let bottom = 0;
+
+    cards.forEach((card) => {
+      const top = Number.isFinite(card.top) ? Math.max(card.top, bottom) : bottom;
+      tops[card.key] = top;
+      bottom = top + (cardRefs.current.get(card.key)?.offsetHeight ?? 0) + CARD_GAP;
+    });
+
+    setLayout((current) =>
+      bottom === current.height && cards.every((card) => tops[card.key] === current.tops[card.key])
+        ? current
+        : { tops, height: bottom }
+    );
+  }, [cards]);
+
+  // Cards also grow and shrink as threads are opened, replied to and edited
+  useLayoutEffect(() => {
+    stackCards();
+    const observer = new ResizeObserver(() => stackCards());
+    cardRefs.current.forEach((element) => observer.observe(element));
+
+    return () => observer.disconnect();
+  }, [stackCards]);
+
+  const setCardRef = (key: string) => (element: HTMLElement | null) => {
+    if (element) {
+      cardRefs.current.set(key, element);
+    } else {
+      cardRefs.current.delete(key);
+    }
+  };
+
+  const handleSelectionEnd = () => {
+    if (!onAnnotate) return;
+
+    const content = contentRef.current;
+    const current = window.getSelection();
+    if (!content || !current || current.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+
+    const range = current.getRangeAt(0);
+    const anchor = getSelectionAnchor(content, range);
+    if (!anchor) {
+      setSelection(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    const contentRect = content.getBoundingClientRect();
+    setSelection({
+      anchor,
+      top: rect.top - contentRect.top,
+      bottom: rect.bottom - contentRect.top,
+      left: Math.max(0, rect.left - contentRect.left),
+    });
+  };
+
+  // Clicking a highlighted passage opens its thread
+  const handleContentClick = (e: React.MouseEvent) => {
+    if (!window.getSelection()?.isCollapsed) return;
+
+    for (const [id, range] of ranges) {
+      const hit = Array.from(range.getClientRects()).some(
+        (rect) => e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom
+      );
+      if (hit) {
+        setActiveId(id);
+        return;
+      }
+    }
+  };
+
+  const startAnnotation = () => {
+    setPending(selection);
+    setSelection(null);
+    setActiveId(null);
+  };
+
+  const handleAnnotate = async (content: string) => {
+    if (!pending || !onAnnotate) return false;
+
+    const saved = await onAnnotate(pending.anchor, content);
+    if (saved) {
+      setPending(null);
+      window.getSelection()?.removeAllRanges();
+    }
+    return saved;
+  };
+
+  const showMargin = annotations.length > 0 || pending !== null;
+
+  return (
+    <div className="lg:flex lg:items-start lg:space-x-6">
+      <div
+        ref={contentRef}
+        className="relative flex-1 min-w-0"
+        onMouseUp={handleSelectionEnd}
+        onKeyUp={handleSelectionEnd}
+        onClick={handleContentClick}
+      >
+        {children}
+        {selection && (
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={startAnnotation}
+            style={{ top: selection.bottom + 4, left: selection.left }}
+            className="absolute z-10 inline-flex items-center px-2.5 py-1 rounded-md shadow-lg text-xs font-medium text-white bg-gray-900 hover:bg-gray-700"
+          >
+            <Highlighter className="h-3.5 w-3.5 mr-1" />
+            Annotate
+          </button>
+        )}
+      </div>
+
+      {showMargin && (
+        <aside
+          aria-label="Annotations"
+          className="mt-6 space-y-3 lg:mt-0 lg:space-y-0 lg:w-72 lg:flex-shrink-0 lg:relative"
+          style={{ minHeight: layout.height }}
+        >
+          {cards.map(({ key }) => {
+            const top = layout.tops[key] ?? 0;
+
+            if (key === PENDING_KEY && pending) {
+              return (
+                <div
+                  key={key}
+                  ref={setCardRef(key)}
+                  style={{ top }}
+                  className="lg:absolute lg:inset-x-0 rounded-lg border border-blue-300 bg-white p-3 shadow-md"
+                >
+                  <p className="text-xs italic text-gray-500 line-clamp-3 border-l-2 border-yellow-400 pl-2">
+                    {pending.anchor.text}
+                  </p>
+                  <div className="mt-2">
+                    <CommentComposer
+                      members={members}
+                      placeholder="Add an annotation..."
+                      submitLabel="Annotate"
+                      submittingLabel="Saving..."
+                      rows={2}
+                      autoFocus
+                      onSubmit={handleAnnotate}
+                      onCancel={() => setPending(null)}
+                    />
+                  </div>
+                </div>
+              );
+            }
+
+            const annotation = annotations.find((other) => other.id === key);
+            if (!annotation) return null;
+
+            const active = annotation.id === activeId;
+            const missing = placements[annotation.id] === null;
+            const replyCount = countReplies(replies, annotation.id);
+
+            return (
+              <div
+                key={key}
+                ref={setCardRef(key)}
+                style={{ top }}
+                className={`lg:absolute lg:inset-x-0 rounded-lg border bg-white shadow-sm ${
+                  active ? 'border-yellow-400 shadow-md' : 'border-gray-200 hover:border-yellow-300'
+                }`}
+              >
+                {active ? (
+                  <div className="p-3">
+                    <div className="flex items-start justify-between">
+                      <p className="text-xs italic text-gray-500 line-clamp-3 border-l-2 border-yellow-400 pl-2">
+                        {annotation.anchor_text}
+                      </p>
+                      <button
+                        type="button"
+                        onClick={() => setActiveId(null)}
+                        className="ml-2 text-gray-400 hover:text-gray-600"
+                        aria-label="Close annotation"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                    {missing && (
+                      <p className="mt-1 text-xs text-yellow-700">The annotated text has since been changed.</p>
+                    )}
+                    <ul className="mt-2">
+                      <CommentThread
+                        comment={annotation}
+                        replies={replies}
+                        members={members}
+                        userId={userId}
+                        canModerate={canModerate}
+                        canReply={onAnnotate !== undefined}
+                        depth={1}
+                        onReply={onReply}
+                        onEdit={onEdit}
+                        onDelete={onDelete}
+                        onToggleReaction={onToggleReaction}
+                      />
+                    </ul>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setActiveId(annotation.id)}
+                    className="w-full p-3 text-left"
+                  >
+                    <span className="block text-xs italic text-gray-500 line-clamp-2 border-l-2 border-yellow-300 pl-2">
+                      {annotation.anchor_text}
+                    </span>
+                    {missing && (
+                      <span className="mt-1 block text-xs text-yellow-700">The annotated text has since been changed.</span>
+                    )}
+                    <span className="mt-2 flex items-center text-xs text-gray-500">
+                      <img
+                        src={annotation.user.avatar_url || `https://ui-avatars.com/api/?name=${annotation.user.first_name}+${annotation.user.last_name}&background=random`}
+                        alt=""
+                        className="h-4 w-4 rounded-full mr-1.5"
+                      />
+                      <span className="font-medium text-gray-700 truncate">
+                        {annotation.user.first_name} {annotation.user.last_name}
+                      </span>
+                      <span className="ml-1.5 flex-shrink-0">
+                        {formatDistanceToNow(new Date(annotation.created_at), { addSuffix: true })}
+                      </span>
+                    </span>
+                    <span className="mt-1 block text-sm text-gray-700 line-clamp-2">{stripMentions(annotation.content)}</span>
+                    {replyCount > 0 && (
+                      <span className="mt-1 block text-xs font-medium text-blue-600">
+                        {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+                      </span>
+                    )}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </aside>
+      )}
+    </div>
+  );
+};
+
+export default NoteAnnotations;
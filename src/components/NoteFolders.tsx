@@ -0,0 +1,414 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import { toast } from 'react-toastify';
+import { ChevronDown, ChevronRight, Folder, FolderPlus, Inbox, Layers, Pencil, Tag, Trash2 } from 'lucide-react';
+import {
+  buildCategoryTree,
+  categoryColors,
+  DEFAULT_CATEGORY_COLOR,
+  getDescendantIds,
+  UNFILED,
+} from '../lib/categories';
+import type { CategoryNode } from '../lib/categories';
+import type { Category } from '../lib/supabase';
+
+// Drag data types of the notes and folders that can be dropped on a folder
+export const NOTE_DRAG_TYPE = 'application/x-note-id';
+const FOLDER_DRAG_TYPE = 'application/x-category-id';
+
+interface NoteFoldersProps {
+  categories: Category[];
+  // Selected folder id, UNFILED, or '' for all notes
+  selected: string;
+  onSelect: (selected: string) => void;
+  onCategoriesChange: (categories: Category[]) => void;
+  onCategoriesDeleted: (ids: string[]) => void;
+  onMoveNote: (noteId: string, categoryId: string | null) => void;
+}
+
+type FolderEditor = {
+  // Null while creating a folder
+  id: string | null;
+  parentId: string | null;
+  name: string;
+  color: string;
+};
+
+type DropOptions = {
+  notes?: boolean;
+  folders?: boolean;
+};
+
+const getFolderErrorMessage = (error: unknown, fallback: string) => {
+  if ((error as { code?: string }).code === '23505') {
+    return 'A folder with that name already exists there';
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+const NoteFolders: React.FC<NoteFoldersProps> = ({
+  categories,
+  selected,
+  onSelect,
+  onCategoriesChange,
+  onCategoriesDeleted,
+  onMoveNote,
+}) => {
+  const { user } = useAuth();
+  const [editor, setEditor] = useState<FolderEditor | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const sharedCategories = categories
+    .filter((category) => !category.user_id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const folderTree = buildCategoryTree(categories.filter((category) => category.user_id));
+
+  const startCreate = (parentId: string | null) => {
+    if (parentId) setCollapsed({ ...collapsed, [parentId]: false });
+    setEditor({ id: null, parentId, name: '', color: DEFAULT_CATEGORY_COLOR });
+  };
+
+  const startRename = (category: Category) => {
+    setEditor({
+      id: category.id,
+      parentId: category.parent_id,
+      name: category.name,
+      color: category.color || DEFAULT_CATEGORY_COLOR,
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editor || !editor.name.trim()) return;
+
+    try {
+      setSaving(true);
+
+      if (editor.id) {
+        const { data, error } = await supabase
+          .from('categories')
+          .update({
+            name: editor.name.trim(),
+            color: editor.color,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', editor.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        onCategoriesChange(categories.map((category) => (category.id === data.id ? data : category)));
+      } else {
+        const { data, error } = await supabase
+          .from('categories')
+          .insert({
+            name: editor.name.trim(),
+            color: editor.color,
+            type: 'note',
+            user_id: user?.id,
+            parent_id: editor.parentId,
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        onCategoriesChange([...categories, data]);
+      }
+
+      setEditor(null);
+    } catch (error) {
+      console.error('Error saving folder:', error);
+      toast.error(getFolderErrorMessage(error, 'Failed to save folder'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    const ids = getDescendantIds(categories, category.id);
+    const nested = ids.length - 1;
+    const message = nested > 0
+      ? `Delete "${category.name}" and the ${nested} folder${nested === 1 ? '' : 's'} inside it? Their notes are kept but become uncategorized.`
+      : `Delete "${category.name}"? Its notes are kept but become uncategorized.`;
+
+    if (!window.confirm(message)) return;
+
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .delete()
+        .eq('id', category.id);
+
+      if (error) throw error;
+
+      onCategoriesChange(categories.filter((item) => !ids.includes(item.id)));
+      onCategoriesDeleted(ids);
+      toast.success('Folder deleted');
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+      toast.error(getFolderErrorMessage(error, 'Failed to delete folder'));
+    }
+  };
+
+  const handleMoveFolder = async (id: string, parentId: string | null) => {
+    const category = categories.find((item) => item.id === id);
+    if (!category || category.parent_id === parentId) return;
+
+    if (parentId && getDescendantIds(categories, id).includes(parentId)) {
+      toast.error('A folder cannot be moved inside itself');
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .update({ parent_id: parentId, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (parentId) setCollapsed({ ...collapsed, [parentId]: false });
+      onCategoriesChange(categories.map((item) => (item.id === data.id ? data : item)));
+    } catch (error) {
+      console.error('Error moving folder:', error);
+      toast.error(getFolderErrorMessage(error, 'Failed to move folder'));
+    }
+  };
+
+  const dropProps = (key: string, categoryId: string | null, options: DropOptions) => {
+    const accepts = (e: React.DragEvent) =>
+      (options.notes && e.dataTransfer.types.includes(NOTE_DRAG_TYPE)) ||
+      (options.folders && e.dataTransfer.types.includes(FOLDER_DRAG_TYPE));
+
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!accepts(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDropTarget(key);
+      },
+      onDragLeave: () => setDropTarget((current) => (current === key ? null : current)),
+      onDrop: (e: React.DragEvent) => {
+        if (!accepts(e)) return;
+        e.preventDefault();
+        setDropTarget(null);
+
+        const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+        const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+        if (noteId && options.notes) {
+          onMoveNote(noteId, categoryId);
+        } else if (folderId && options.folders) {
+          handleMoveFolder(folderId, categoryId);
+        }
+      },
+    };
+  };
+
+  const rowClassName = (key: string) =>
+    `group flex items-center rounded-md text-sm ${
+      selected === key ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+    } ${dropTarget === key ? 'ring-2 ring-blue-400' : ''}`;
+
+  const renderEditor = (depth: number) => editor && (
+    <form
+      onSubmit={handleSave}
+      className="my-1 space-y-2 rounded-md border border-gray-200 bg-gray-50 p-2"
+      style={{ marginLeft: `${depth * 12}px` }}
+    >
+      <input
+        type="text"
+        autoFocus
+        value={editor.name}
+        onChange={(e) => setEditor({ ...editor, name: e.target.value })}
+        onKeyDown={(e) => e.key === 'Escape' && setEditor(null)}
+        placeholder="Folder name"
+        maxLength={60}
+        className="block w-full rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+      />
+      <div className="flex flex-wrap gap-1">
+        {categoryColors.map((color) => (
+          <button
+            key={color}
+            type="button"
+            onClick={() => setEditor({ ...editor, color })}
+            className={`h-5 w-5 rounded-full border-2 ${editor.color === color ? 'border-gray-900' : 'border-transparent'}`}
+            style={{ backgroundColor: color }}
+            aria-label={`Use color ${color}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={() => setEditor(null)}
+          className="text-xs font-medium text-gray-600 hover:text-gray-900"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || !editor.name.trim()}
+          className="text-xs font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderFolder = (node: CategoryNode, depth: number): React.ReactNode => {
+    const creatingChild = editor && !editor.id && editor.parentId === node.id;
+    const expandable = node.children.length > 0 || creatingChild;
+    const expanded = expandable && !collapsed[node.id];
+
+    return (
+      <li key={node.id}>
+        {editor?.id === node.id ? (
+          renderEditor(depth)
+        ) : (
+          <div
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(FOLDER_DRAG_TYPE, node.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            {...dropProps(node.id, node.id, { notes: true, folders: true })}
+            className={rowClassName(node.id)}
+            style={{ paddingLeft: `${depth * 12}px` }}
+          >
+            <button
+              type="button"
+              onClick={() => setCollapsed({ ...collapsed, [node.id]: !collapsed[node.id] })}
+              className={`p-1 text-gray-400 hover:text-gray-600 ${expandable ? '' : 'invisible'}`}
+              aria-label={expanded ? 'Collapse folder' : 'Expand folder'}
+            >
+              {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            </button>
+            <button
+              type="button"
+              onClick={() => onSelect(node.id)}
+              className="flex flex-1 items-center min-w-0 py-1.5 text-left"
+            >
+              <Folder className="h-4 w-4 mr-2 flex-shrink-0" style={{ color: node.color || DEFAULT_CATEGORY_COLOR }} />
+              <span className="truncate">{node.name}</span>
+            </button>
+            <div className="hidden group-hover:flex items-center pr-1 space-x-1">
+              <button
+                type="button"
+                onClick={() => startCreate(node.id)}
+                className="p-0.5 text-gray-400 hover:text-blue-600"
+                title="New folder inside"
+              >
+                <FolderPlus className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => startRename(node)}
+                className="p-0.5 text-gray-400 hover:text-blue-600"
+                title="Rename or recolor"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(node)}
+                className="p-0.5 text-gray-400 hover:text-red-600"
+                title="Delete folder"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        )}
+        {expanded && (
+          <ul>
+            {creatingChild && <li>{renderEditor(depth + 1)}</li>}
+            {node.children.map((child) => renderFolder(child, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4 space-y-4">
+      <ul className="space-y-0.5">
+        <li>
+          <button
+            type="button"
+            onClick={() => onSelect('')}
+            className={`${rowClassName('')} w-full px-2 py-1.5`}
+          >
+            <Layers className="h-4 w-4 mr-2 text-gray-400" />
+            All notes
+          </button>
+        </li>
+        <li>
+          <button
+            type="button"
+            onClick={() => onSelect(UNFILED)}
+            {...dropProps(UNFILED, null, { notes: true })}
+            className={`${rowClassName(UNFILED)} w-full px-2 py-1.5`}
+          >
+            <Inbox className="h-4 w-4 mr-2 text-gray-400" />
+            Uncategorized
+          </button>
+        </li>
+      </ul>
+
+      <div>
+        <div
+          {...dropProps('root', null, { folders: true })}
+          className={`flex items-center justify-between mb-1 rounded-md px-2 ${dropTarget === 'root' ? 'ring-2 ring-blue-400' : ''}`}
+        >
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">My folders</h3>
+          <button
+            type="button"
+            onClick={() => startCreate(null)}
+            className="p-0.5 text-gray-400 hover:text-blue-600"
+            title="New folder"
+          >
+            <FolderPlus className="h-4 w-4" />
+          </button>
+        </div>
+        <ul className="space-y-0.5">
+          {editor && !editor.id && !editor.parentId && <li>{renderEditor(0)}</li>}
+          {folderTree.map((node) => renderFolder(node, 0))}
+        </ul>
+        {folderTree.length === 0 && !editor && (
+          <p className="px-2 text-xs text-gray-500">Create folders to organize your notes, then drag notes onto them.</p>
+        )}
+      </div>
+
+      {sharedCategories.length > 0 && (
+        <div>
+          <h3 className="mb-1 px-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Shared categories</h3>
+          <ul className="space-y-0.5">
+            {sharedCategories.map((category) => (
+              <li key={category.id}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(category.id)}
+                  {...dropProps(category.id, category.id, { notes: true })}
+                  className={`${rowClassName(category.id)} w-full px-2 py-1.5`}
+                >
+                  <Tag className="h-4 w-4 mr-2 flex-shrink-0" style={{ color: category.color || DEFAULT_CATEGORY_COLOR }} />
+                  <span className="truncate">{category.name}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoteFolders;
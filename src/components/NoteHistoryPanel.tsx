@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { toast } from 'react-toastify';
+import { History, RotateCcw, GitCompare } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import RevisionDiff from './RevisionDiff';
+import type { DiffMode } from './RevisionDiff';
+import type { Note, NoteRevision } from '../lib/supabase';
+
+interface NoteHistoryPanelProps {
+  noteId: string;
+  canRestore: boolean;
+  onRestore: (note: Note) => void;
+}
+
+const diffModes: { value: DiffMode; label: string }[] = [
+  { value: 'inline', label: 'Inline' },
+  { value: 'split', label: 'Side by side' },
+];
+
+const getAuthorName = (revision: NoteRevision) =>
+  revision.author ? `${revision.author.first_name} ${revision.author.last_name}`.trim() : 'Unknown';
+
+const NoteHistoryPanel: React.FC<NoteHistoryPanelProps> = ({ noteId, canRestore, onRestore }) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState(false);
+  const [baseId, setBaseId] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const [diffMode, setDiffMode] = useState<DiffMode>('inline');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchRevisions = async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('note_revisions')
+        .select('*, author:profiles(*)')
+        .eq('note_id', noteId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setRevisions(data || []);
+      // Compare the latest save with the one before it
+      setTargetId(data?.[0]?.id || '');
+      setBaseId(data?.[1]?.id || data?.[0]?.id || '');
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+      toast.error('Failed to load version history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRevisions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [noteId]);
+
+  const handleCompare = (revision: NoteRevision) => {
+    const index = revisions.findIndex((item) => item.id === revision.id);
+    setTargetId(revision.id);
+    setBaseId(revisions[index + 1]?.id || revision.id);
+  };
+
+  const handleRestore = async (revision: NoteRevision) => {
+    if (!window.confirm(`Restore the version saved ${format(new Date(revision.created_at), 'PPp')}? The current content is kept in the history.`)) {
+      return;
+    }
+
+    try {
+      setRestoringId(revision.id);
+
+      const { data, error } = await supabase
+        .from('notes')
+        .update({
+          title: revision.title,
+          content: revision.content,
+          content_format: revision.content_format,
+          content_doc: revision.content_doc,
+          // Collaborative editing starts over from the restored content
+          content_state: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', noteId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      onRestore(data);
+      await fetchRevisions();
+      toast.success('Version restored');
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      const message = error instanceof Error ? error.message : 'Failed to restore version';
+      toast.error(message);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const base = revisions.find((revision) => revision.id === baseId);
+  const target = revisions.find((revision) => revision.id === targetId);
+
+  const revisionLabel = (revision: NoteRevision, index: number) =>
+    `${index === 0 ? 'Current · ' : ''}${format(new Date(revision.created_at), 'PPp')} · ${getAuthorName(revision)}`;
+
+  return (
+    <div className="mt-6 border-t pt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-900 flex items-center">
+          <History className="h-4 w-4 mr-1 text-gray-400" />
+          Version History
+          {!loading && <span className="ml-1 text-gray-500">({revisions.length})</span>}
+        </h3>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          {expanded ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {expanded && (
+        loading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved versions yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <ul className="divide-y divide-gray-200 bg-gray-50 rounded-lg border border-gray-300 max-h-72 overflow-y-auto">
+              {revisions.map((revision, index) => (
+                <li
+                  key={revision.id}
+                  className={`p-3 flex items-center justify-between ${revision.id === targetId ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-gray-900 truncate">
+                      {revision.title}
+                      {index === 0 && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          Current
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500" title={format(new Date(revision.created_at), 'PPpp')}>
+                      {getAuthorName(revision)} · {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center ml-4 space-x-3">
+                    {index < revisions.length - 1 && (
+                      <button
+                        onClick={() => handleCompare(revision)}
+                        className="inline-flex items-center text-xs font-medium text-gray-600 hover:text-blue-600"
+                        title="Show changes made in this version"
+                      >
+                        <GitCompare className="h-4 w-4 mr-1" />
+                        Changes
+                      </button>
+                    )}
+                    {canRestore && index > 0 && (
+                      <button
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                        className="inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        title="Restore this version"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <div className="rounded-lg border border-gray-300 p-4">
+              <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-2 mb-4">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-xs text-gray-600">
+                  <span>Compare</span>
+                  <select
+                    value={baseId}
+                    onChange={(e) => setBaseId(e.target.value)}
+                    className="block rounded-md border-gray-300 py-1 text-xs shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    {revisions.map((revision, index) => (
+                      <option key={revision.id} value={revision.id}>
+                        {revisionLabel(revision, index)}
+                      </option>
+                    ))}
+                  </select>
+                  <span>with</span>
+                  <select
+                    value={targetId}
+                    onChange={(e) => setTargetId(e.target.value)}
+                    className="block rounded-md border-gray-300 py-1 text-xs shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    {revisions.map((revision, index) => (
+                      <option key={revision.id} value={revision.id}>
+                        {revisionLabel(revision, index)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="inline-flex rounded-md shadow-sm">
+                  {diffModes.map((mode, index) => (
+                    <button
+                      key={mode.value}
+                      type="button"
+                      onClick={() => setDiffMode(mode.value)}
+                      className={`px-3 py-1 text-xs font-medium border ${
+                        index === 0 ? 'rounded-l-md' : '-ml-px rounded-r-md'
+                      } ${
+                        diffMode === mode.value
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {base && target && (
+                <div className="space-y-4">
+                  {base.title !== target.title && (
+                    <div>
+                      <p className="text-xs font-medium text-gray-500 mb-1">Title</p>
+                      <RevisionDiff oldText={base.title} newText={target.title} mode="inline" />
+                    </div>
+                  )}
+                  {base.content_format !== target.content_format && (
+                    <p className="text-xs text-gray-500">
+                      Format changed from {base.content_format} to {target.content_format}
+                    </p>
+                  )}
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 mb-1">Content</p>
+                    <RevisionDiff oldText={base.content} newText={target.content} mode={diffMode} />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default NoteHistoryPanel;
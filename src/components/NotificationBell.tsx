@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useNotifications } from '../context/NotificationContext';
+import NotificationItem from './NotificationItem';
+import type { UserNotification } from '../lib/supabase';
+
+// Larger counts are shown as 99+
+const MAX_BADGE_COUNT = 99;
+
+const NotificationBell: React.FC = () => {
+  const { recent, unreadCount, loading, markAsRead, markAllAsRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const handleOpen = async (notification: UserNotification) => {
+    setOpen(false);
+    if (notification.link) navigate(notification.link);
+
+    try {
+      await markAsRead([notification.id]);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await markAllAsRead();
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-[10px] font-bold text-white">
+            {unreadCount > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-40 mt-2 w-80 sm:w-96 bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-900">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={handleMarkAllAsRead}
+                className="inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800"
+              >
+                <CheckCheck className="h-4 w-4 mr-1" />
+                Mark all as read
+              </button>
+            )}
+          </div>
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : recent.length > 0 ? (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {recent.map((notification) => (
+                <li key={notification.id}>
+                  <NotificationItem notification={notification} onOpen={handleOpen} />
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">You're all caught up</p>
+          )}
+          <Link
+            to="/notifications"
+            onClick={() => setOpen(false)}
+            className="block px-4 py-2 border-t border-gray-200 text-center text-sm font-medium text-blue-600 hover:bg-gray-50"
+          >
+            View all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
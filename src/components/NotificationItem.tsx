@@ -0,0 +1,45 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AtSign, Award, Bell, Clock, FileText, MessageCircle, MessageSquare } from 'lucide-react';
+import type { NotificationType, UserNotification } from '../lib/supabase';
+
+interface NotificationItemProps {
+  notification: UserNotification;
+  onOpen: (notification: UserNotification) => void;
+}
+
+const notificationIcons: Record<NotificationType, React.ReactNode> = {
+  announcement: <Bell className="h-4 w-4 text-blue-500" />,
+  comment: <MessageCircle className="h-4 w-4 text-indigo-500" />,
+  mention: <AtSign className="h-4 w-4 text-pink-500" />,
+  assignment: <FileText className="h-4 w-4 text-green-500" />,
+  due_soon: <Clock className="h-4 w-4 text-yellow-500" />,
+  grade: <Award className="h-4 w-4 text-purple-500" />,
+  feedback: <MessageSquare className="h-4 w-4 text-gray-500" />,
+};
+
+const NotificationItem: React.FC<NotificationItemProps> = ({ notification, onOpen }) => (
+  <button
+    type="button"
+    onClick={() => onOpen(notification)}
+    className={`w-full flex items-start px-4 py-3 text-left hover:bg-gray-50 ${notification.read_at ? '' : 'bg-blue-50/50'}`}
+  >
+    <span className="mt-0.5 flex-shrink-0">{notificationIcons[notification.type]}</span>
+    <span className="ml-3 flex-1 min-w-0">
+      <span className={`block text-sm ${notification.read_at ? 'text-gray-700' : 'font-medium text-gray-900'}`}>
+        {notification.title}
+      </span>
+      {notification.body && (
+        <span className="mt-0.5 block text-sm text-gray-500 line-clamp-2">{notification.body}</span>
+      )}
+      <span className="mt-1 block text-xs text-gray-400">
+        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+      </span>
+    </span>
+    {!notification.read_at && (
+      <span className="ml-2 mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-blue-600" aria-label="Unread" />
+    )}
+  </button>
+);
+
+export default NotificationItem;
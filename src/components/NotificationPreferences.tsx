@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import type { NotificationPreference, NotificationType } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import { notificationTypes } from '../lib/notifications';
+import { toast } from 'react-toastify';
+
+const NotificationPreferences: React.FC = () => {
+  const { user } = useAuth();
+  // Types without a stored preference are enabled
+  const [disabled, setDisabled] = useState<Set<NotificationType>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<NotificationType | null>(null);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('notification_preferences')
+          .select('*')
+          .eq('user_id', user?.id);
+
+        if (error) throw error;
+
+        setDisabled(new Set(
+          ((data || []) as NotificationPreference[])
+            .filter((preference) => !preference.enabled)
+            .map((preference) => preference.type)
+        ));
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error);
+        toast.error('Failed to load notification preferences');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (user) fetchPreferences();
+  }, [user]);
+
+  const handleToggle = async (type: NotificationType, enabled: boolean) => {
+    try {
+      setSaving(type);
+
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: user?.id,
+          type,
+          enabled,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (error) throw error;
+
+      setDisabled((current) => {
+        const next = new Set(current);
+        if (enabled) next.delete(type);
+        else next.add(type);
+        return next;
+      });
+    } catch (error) {
+      console.error('Error updating notification preference:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update notification preference');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-medium text-gray-900">Notifications</h2>
+        <p className="mt-1 text-sm text-gray-500">Choose what you are notified about</p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {notificationTypes.map((notificationType) => (
+            <li key={notificationType.value} className="px-6 py-4 flex items-start">
+              <input
+                id={`notify-${notificationType.value}`}
+                type="checkbox"
+                checked={!disabled.has(notificationType.value)}
+                disabled={saving === notificationType.value}
+                onChange={(e) => handleToggle(notificationType.value, e.target.checked)}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor={`notify-${notificationType.value}`} className="ml-3">
+                <span className="block text-sm font-medium text-gray-700">{notificationType.label}</span>
+                <span className="block text-sm text-gray-500">{notificationType.description}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NotificationPreferences;
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import { toast } from 'react-toastify';
+import { Link2, Copy, Ban, Plus } from 'lucide-react';
+import { addDays, format, formatDistanceToNow, isPast } from 'date-fns';
+import type { NoteLink } from '../lib/supabase';
+
+interface PublicLinkPanelProps {
+  noteId: string;
+}
+
+const expiryOptions = [
+  { value: '1', label: 'Expires in 1 day' },
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' },
+  { value: 'never', label: 'Never expires' },
+];
+
+const PublicLinkPanel: React.FC<PublicLinkPanelProps> = ({ noteId }) => {
+  const { user } = useAuth();
+  const [links, setLinks] = useState<NoteLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [expiry, setExpiry] = useState('7');
+
+  useEffect(() => {
+    const fetchLinks = async () => {
+      try {
+        setLoading(true);
+
+        const { data, error } = await supabase
+          .from('note_links')
+          .select('*')
+          .eq('note_id', noteId)
+          .is('revoked_at', null)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        setLinks(data || []);
+      } catch (error) {
+        console.error('Error fetching public links:', error);
+        toast.error('Failed to load public links');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLinks();
+  }, [noteId]);
+
+  const getLinkUrl = (token: string) => `${window.location.origin}/s/${token}`;
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true);
+
+      const { data, error } = await supabase
+        .from('note_links')
+        .insert({
+          note_id: noteId,
+          created_by: user?.id,
+          expires_at: expiry === 'never' ? null : addDays(new Date(), Number(expiry)).toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setLinks([data, ...links]);
+      await navigator.clipboard?.writeText(getLinkUrl(data.token));
+      toast.success('Public link created and copied to clipboard');
+    } catch (error) {
+      console.error('Error creating public link:', error);
+      const message = error instanceof Error ? error.message : 'Failed to create public link';
+      toast.error(message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getLinkUrl(token));
+      toast.success('Link copied to clipboard');
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    if (!window.confirm('Revoke this link? Anyone using it will lose access.')) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('note_links')
+        .update({
+          revoked_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', linkId);
+
+      if (error) throw error;
+
+      setLinks(links.filter((link) => link.id !== linkId));
+      toast.success('Link revoked');
+    } catch (error) {
+      console.error('Error revoking link:', error);
+      const message = error instanceof Error ? error.message : 'Failed to revoke link';
+      toast.error(message);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t pt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-900 flex items-center">
+          <Link2 className="h-4 w-4 mr-1 text-gray-400" />
+          Public Links
+        </h3>
+        <div className="mt-2 sm:mt-0 flex items-center space-x-2">
+          <select
+            value={expiry}
+            onChange={(e) => setExpiry(e.target.value)}
+            className="block rounded-md border-gray-300 py-1 text-xs shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {expiryOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={creating}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {creating ? 'Creating...' : 'Create Link'}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : links.length > 0 ? (
+        <ul className="divide-y divide-gray-200 bg-gray-50 rounded-lg border border-gray-300">
+          {links.map((link) => {
+            const expired = link.expires_at ? isPast(new Date(link.expires_at)) : false;
+
+            return (
+              <li key={link.id} className="p-3 flex items-center justify-between">
+                <div className="min-w-0 flex-1">
+                  <p className={`text-sm font-mono truncate ${expired ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                    {getLinkUrl(link.token)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Created {formatDistanceToNow(new Date(link.created_at), { addSuffix: true })}
+                    {' · '}
+                    {link.expires_at
+                      ? `${expired ? 'Expired' : 'Expires'} ${format(new Date(link.expires_at), 'PPP')}`
+                      : 'Never expires'}
+                  </p>
+                </div>
+                <div className="flex items-center ml-4 space-x-2">
+                  {!expired && (
+                    <button
+                      onClick={() => handleCopy(link.token)}
+                      className="text-gray-400 hover:text-blue-600"
+                      title="Copy link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRevoke(link.id)}
+                    className="inline-flex items-center text-xs font-medium text-red-600 hover:text-red-800"
+                    title="Revoke link"
+                  >
+                    <Ban className="h-4 w-4 mr-1" />
+                    Revoke
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No active public links. Create one to share a read-only copy with anyone.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PublicLinkPanel;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { diffLines, diffWords } from 'diff';
+
+export type DiffMode = 'inline' | 'split';
+
+interface RevisionDiffProps {
+  oldText: string;
+  newText: string;
+  mode: DiffMode;
+}
+
+type SplitRow = {
+  left: string | null;
+  right: string | null;
+  changed: boolean;
+};
+
+const toLines = (value: string) => value.replace(/\n$/, '').split('\n');
+
+// Pair removed lines with the added lines that replaced them so both columns line up
+const buildSplitRows = (oldText: string, newText: string) => {
+  const rows: SplitRow[] = [];
+  let removed: string[] = [];
+
+  diffLines(oldText, newText).forEach((part) => {
+    const lines = toLines(part.value);
+
+    if (part.removed) {
+      removed = lines;
+      return;
+    }
+
+    if (part.added) {
+      const count = Math.max(removed.length, lines.length);
+      for (let i = 0; i < count; i++) {
+        rows.push({ left: removed[i] ?? null, right: lines[i] ?? null, changed: true });
+      }
+      removed = [];
+      return;
+    }
+
+    removed.forEach((line) => rows.push({ left: line, right: null, changed: true }));
+    removed = [];
+    lines.forEach((line) => rows.push({ left: line, right: line, changed: false }));
+  });
+
+  removed.forEach((line) => rows.push({ left: line, right: null, changed: true }));
+  return rows;
+};
+
+const RevisionDiff: React.FC<RevisionDiffProps> = ({ oldText, newText, mode }) => {
+  if (oldText === newText) {
+    return <p className="text-sm text-gray-500">No changes.</p>;
+  }
+
+  if (mode === 'inline') {
+    return (
+      <div className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+        {diffWords(oldText, newText).map((part, index) =>
+          part.added ? (
+            <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.value}</ins>
+          ) : part.removed ? (
+            <del key={index} className="bg-red-100 text-red-900">{part.value}</del>
+          ) : (
+            <span key={index}>{part.value}</span>
+          )
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 text-sm font-mono border border-gray-200 rounded-md overflow-hidden">
+      {buildSplitRows(oldText, newText).map((row, index) => (
+        <React.Fragment key={index}>
+          <div
+            className={`px-2 py-0.5 whitespace-pre-wrap break-words border-r border-gray-200 ${
+              row.changed && row.left !== null ? 'bg-red-50 text-red-900' : row.left === null ? 'bg-gray-50' : ''
+            }`}
+          >
+            {row.left}
+          </div>
+          <div
+            className={`px-2 py-0.5 whitespace-pre-wrap break-words ${
+              row.changed && row.right !== null ? 'bg-green-50 text-green-900' : row.right === null ? 'bg-gray-50' : ''
+            }`}
+          >
+            {row.right}
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default RevisionDiff;
@@ -0,0 +1,43 @@
+import React, { useEffect } from 'react';
+import { EditorContent, useEditor } from '@tiptap/react';
+import { resolveDocumentImages, richTextExtensions } from '../lib/richText';
+import type { RichTextDocument } from '../lib/supabase';
+
+interface RichTextContentProps {
+  content: RichTextDocument;
+}
+
+const RichTextContent: React.FC<RichTextContentProps> = ({ content }) => {
+  const editor = useEditor({
+    extensions: richTextExtensions,
+    content,
+    editable: false,
+    editorProps: {
+      attributes: {
+        class: 'prose max-w-none',
+      },
+    },
+  });
+
+  // Stored documents only reference images by path
+  useEffect(() => {
+    if (!editor) return;
+
+    const showImages = async () => {
+      try {
+        const resolved = await resolveDocumentImages(content);
+        if (!editor.isDestroyed) {
+          editor.commands.setContent(resolved);
+        }
+      } catch (error) {
+        console.error('Error loading images:', error);
+      }
+    };
+
+    showImages();
+  }, [editor, content]);
+
+  return <EditorContent editor={editor} />;
+};
+
+export default RichTextContent;
@@ -0,0 +1,226 @@
+import React, { useEffect, useRef } from 'react';
+import { EditorContent, useEditor } from '@tiptap/react';
+import type { Editor } from '@tiptap/react';
+import type { EditorView } from '@tiptap/pm/view';
+import Placeholder from '@tiptap/extension-placeholder';
+import StarterKit from '@tiptap/starter-kit';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCursor from '@tiptap/extension-collaboration-cursor';
+import {
+  Bold,
+  Code,
+  FileCode,
+  Heading1,
+  Heading2,
+  Heading3,
+  ImagePlus,
+  Italic,
+  List,
+  ListOrdered,
+  Minus,
+  Quote,
+  Redo2,
+  Strikethrough,
+  Undo2,
+} from 'lucide-react';
+import { createSignedUrls } from '../lib/attachments';
+import { getDocumentImagePaths, NoteImage, richTextExtensions } from '../lib/richText';
+import { COLLABORATION_FIELD } from '../lib/collaboration';
+import type { InlineImage } from '../hooks/useInlineImages';
+import type { CollaborationSession } from '../hooks/useNoteCollaboration';
+import type { RichTextDocument } from '../lib/supabase';
+
+interface RichTextEditorProps {
+  content: RichTextDocument | null;
+  onChange: (doc: RichTextDocument, text: string) => void;
+  onImageUpload: (file: File) => Promise<InlineImage | null>;
+  uploading?: boolean;
+  error?: boolean;
+  // Edit a shared document instead of `content`
+  collaboration?: CollaborationSession | null;
+}
+
+type ToolbarButton = {
+  title: string;
+  icon: React.ElementType;
+  run: (editor: Editor) => void;
+  isActive?: (editor: Editor) => boolean;
+};
+
+const toolbarGroups: ToolbarButton[][] = [
+  [
+    { title: 'Bold', icon: Bold, run: (e) => e.chain().focus().toggleBold().run(), isActive: (e) => e.isActive('bold') },
+    { title: 'Italic', icon: Italic, run: (e) => e.chain().focus().toggleItalic().run(), isActive: (e) => e.isActive('italic') },
+    { title: 'Strikethrough', icon: Strikethrough, run: (e) => e.chain().focus().toggleStrike().run(), isActive: (e) => e.isActive('strike') },
+    { title: 'Inline code', icon: Code, run: (e) => e.chain().focus().toggleCode().run(), isActive: (e) => e.isActive('code') },
+  ],
+  [
+    { title: 'Heading 1', icon: Heading1, run: (e) => e.chain().focus().toggleHeading({ level: 1 }).run(), isActive: (e) => e.isActive('heading', { level: 1 }) },
+    { title: 'Heading 2', icon: Heading2, run: (e) => e.chain().focus().toggleHeading({ level: 2 }).run(), isActive: (e) => e.isActive('heading', { level: 2 }) },
+    { title: 'Heading 3', icon: Heading3, run: (e) => e.chain().focus().toggleHeading({ level: 3 }).run(), isActive: (e) => e.isActive('heading', { level: 3 }) },
+  ],
+  [
+    { title: 'Bulleted list', icon: List, run: (e) => e.chain().focus().toggleBulletList().run(), isActive: (e) => e.isActive('bulletList') },
+    { title: 'Numbered list', icon: ListOrdered, run: (e) => e.chain().focus().toggleOrderedList().run(), isActive: (e) => e.isActive('orderedList') },
+    { title: 'Quote', icon: Quote, run: (e) => e.chain().focus().toggleBlockquote().run(), isActive: (e) => e.isActive('blockquote') },
+    { title: 'Code block', icon: FileCode, run: (e) => e.chain().focus().toggleCodeBlock().run(), isActive: (e) => e.isActive('codeBlock') },
+    { title: 'Divider', icon: Minus, run: (e) => e.chain().focus().setHorizontalRule().run() },
+  ],
+  [
+    { title: 'Undo', icon: Undo2, run: (e) => e.chain().focus().undo().run() },
+    { title: 'Redo', icon: Redo2, run: (e) => e.chain().focus().redo().run() },
+  ],
+];
+
+const RichTextEditor: React.FC<RichTextEditorProps> = ({
+  content,
+  onChange,
+  onImageUpload,
+  uploading = false,
+  error = false,
+  collaboration,
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  // Editor props are bound once, so read the latest upload handler through a ref
+  const uploadRef = useRef(onImageUpload);
+  uploadRef.current = onImageUpload;
+
+  // Upload each image and insert it where the cursor (or drop position) was
+  const insertImages = (view: EditorView, files: File[], position?: number) => {
+    files.forEach(async (file) => {
+      const image = await uploadRef.current(file);
+      if (!image || view.isDestroyed) return;
+
+      const node = view.state.schema.nodes.image.create({ src: image.url, path: image.path, alt: image.name });
+      const transaction = position === undefined
+        ? view.state.tr.replaceSelectionWith(node)
+        : view.state.tr.insert(Math.min(position, view.state.doc.content.size), node);
+      view.dispatch(transaction);
+    });
+  };
+
+  const emitChange = (editor: Editor) => {
+    onChange(editor.getJSON() as RichTextDocument, editor.getText({ blockSeparator: '\n' }));
+  };
+
+  const getImageFiles = (files: FileList | null | undefined) =>
+    Array.from(files || []).filter((file) => file.type.startsWith('image/'));
+
+  const editor = useEditor({
+    extensions: [
+      ...(collaboration
+        ? [
+            // Undo history comes from the shared document so only our own changes are undone
+            StarterKit.configure({ history: false }),
+            NoteImage,
+            Collaboration.configure({ document: collaboration.doc, field: COLLABORATION_FIELD }),
+            CollaborationCursor.configure({ provider: { awareness: collaboration.awareness }, user: collaboration.user }),
+          ]
+        : richTextExtensions),
+      Placeholder.configure({ placeholder: 'Start writing, or paste an image...' }),
+    ],
+    content: collaboration ? undefined : content,
+    editorProps: {
+      attributes: {
+        class: 'prose max-w-none min-h-[20rem] px-4 py-3 focus:outline-none',
+      },
+      handlePaste: (view, event) => {
+        const images = getImageFiles(event.clipboardData?.files);
+        if (images.length === 0) return false;
+
+        insertImages(view, images);
+        return true;
+      },
+      handleDrop: (view, event) => {
+        const images = getImageFiles(event.dataTransfer?.files);
+        if (images.length === 0) return false;
+
+        event.preventDefault();
+        const position = view.posAtCoords({ left: event.clientX, top: event.clientY });
+        insertImages(view, images, position?.pos);
+        return true;
+      },
+    },
+    // A shared document may differ from the note's saved content, so report it right away
+    onCreate: ({ editor }) => {
+      if (collaboration) emitChange(editor);
+    },
+    onUpdate: ({ editor }) => emitChange(editor),
+  });
+
+  // Image links in a shared document may have expired, so sign them again on open
+  useEffect(() => {
+    if (!editor || !collaboration) return;
+
+    const refreshImages = async () => {
+      try {
+        const urls = await createSignedUrls(getDocumentImagePaths(editor.getJSON() as RichTextDocument));
+        if (editor.isDestroyed || Object.keys(urls).length === 0) return;
+
+        const { tr } = editor.state;
+        editor.state.doc.descendants((node, position) => {
+          const url = node.type.name === 'image' ? urls[node.attrs.path] : undefined;
+          if (url) tr.setNodeMarkup(position, undefined, { ...node.attrs, src: url });
+        });
+        editor.view.dispatch(tr.setMeta('addToHistory', false));
+      } catch (error) {
+        console.error('Error loading images:', error);
+      }
+    };
+
+    refreshImages();
+  }, [editor, collaboration]);
+
+  if (!editor) return null;
+
+  return (
+    <div className={`mt-1 rounded-md border shadow-sm ${error ? 'border-red-300' : 'border-gray-300'}`}>
+      <div className="flex flex-wrap items-center gap-1 border-b border-gray-200 bg-gray-50 px-2 py-1.5 rounded-t-md">
+        {toolbarGroups.map((group, index) => (
+          <div key={index} className={`flex items-center ${index > 0 ? 'pl-1 border-l border-gray-200' : ''}`}>
+            {group.map(({ title, icon: Icon, run, isActive }) => (
+              <button
+                key={title}
+                type="button"
+                onClick={() => run(editor)}
+                className={`p-1.5 rounded ${
+                  isActive?.(editor) ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-200'
+                }`}
+                title={title}
+              >
+                <Icon className="h-4 w-4" />
+              </button>
+            ))}
+          </div>
+        ))}
+        <div className="flex items-center pl-1 border-l border-gray-200">
+          <button
+            type="button"
+            onClick={() => fileInput.current?.click()}
+            className="p-1.5 rounded text-gray-600 hover:bg-gray-200"
+            title="Insert image"
+          >
+            <ImagePlus className="h-4 w-4" />
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            className="hidden"
+            accept="image/*"
+            multiple
+            onChange={(e) => {
+              insertImages(editor.view, getImageFiles(e.target.files));
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {uploading && (
+          <span className="ml-auto text-xs text-gray-500">Uploading image...</span>
+        )}
+      </div>
+      <EditorContent editor={editor} />
+    </div>
+  );
+};
+
+export default RichTextEditor;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import type { UserRole } from '../lib/supabase';
+
+interface RoleRouteProps {
+  roles: UserRole[];
+  children: React.ReactNode;
+}
+
+const RoleRoute: React.FC<RoleRouteProps> = ({ roles, children }) => {
+  const { hasRole, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!hasRole(...roles)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RoleRoute;
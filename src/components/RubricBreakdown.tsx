@@ -0,0 +1,81 @@
+import React from 'react';
+import { CheckCircle } from 'lucide-react';
+import { getCriterionMaxPoints, getRubricMaxPoints, getRubricScoreTotal } from '../lib/rubric';
+import type { RubricCriterion, RubricScore } from '../lib/supabase';
+
+interface RubricBreakdownProps {
+  rubric: RubricCriterion[];
+  scores?: Record<string, RubricScore> | null;
+}
+
+const RubricBreakdown: React.FC<RubricBreakdownProps> = ({ rubric, scores }) => {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded-lg text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Criterion</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Levels</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Points</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 bg-white">
+          {rubric.map((criterion) => {
+            const score = scores?.[criterion.id];
+
+            return (
+              <tr key={criterion.id} className="align-top">
+                <td className="px-4 py-3 w-1/4">
+                  <p className="font-medium text-gray-900">{criterion.title}</p>
+                  {criterion.description && (
+                    <p className="text-xs text-gray-500">{criterion.description}</p>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex flex-wrap gap-2">
+                    {criterion.levels.map((level) => {
+                      const selected = score?.level_id === level.id;
+
+                      return (
+                        <div
+                          key={level.id}
+                          className={`rounded-md border px-2 py-1 text-xs max-w-[12rem] ${
+                            selected ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-gray-200 text-gray-600'
+                          }`}
+                        >
+                          <span className="flex items-center font-medium">
+                            {selected && <CheckCircle className="h-3 w-3 mr-1" />}
+                            {level.title} · {level.points}
+                          </span>
+                          {level.description && <span className="block mt-0.5">{level.description}</span>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {score?.comment && (
+                    <p className="mt-2 text-xs text-gray-700 italic">“{score.comment}”</p>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-right whitespace-nowrap text-gray-900">
+                  {scores ? `${score?.points ?? 0} / ` : ''}
+                  {getCriterionMaxPoints(criterion)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot className="bg-gray-50">
+          <tr>
+            <td colSpan={2} className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Total</td>
+            <td className="px-4 py-2 text-right font-medium text-gray-900 whitespace-nowrap">
+              {scores ? `${getRubricScoreTotal(scores)} / ` : ''}
+              {getRubricMaxPoints(rubric)}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default RubricBreakdown;
@@ -0,0 +1,162 @@
+import React from 'react';
+import { Plus, Trash2, ListChecks } from 'lucide-react';
+import { createRubricCriterion, createRubricLevel, getCriterionMaxPoints, getRubricMaxPoints } from '../lib/rubric';
+import type { RubricCriterion, RubricLevel } from '../lib/supabase';
+
+interface RubricEditorProps {
+  value: RubricCriterion[];
+  onChange: (rubric: RubricCriterion[]) => void;
+}
+
+const RubricEditor: React.FC<RubricEditorProps> = ({ value, onChange }) => {
+  const updateCriterion = (criterionId: string, changes: Partial<RubricCriterion>) => {
+    onChange(value.map((criterion) => (criterion.id === criterionId ? { ...criterion, ...changes } : criterion)));
+  };
+
+  const removeCriterion = (criterionId: string) => {
+    onChange(value.filter((criterion) => criterion.id !== criterionId));
+  };
+
+  const updateLevel = (criterion: RubricCriterion, levelId: string, changes: Partial<RubricLevel>) => {
+    updateCriterion(criterion.id, {
+      levels: criterion.levels.map((level) => (level.id === levelId ? { ...level, ...changes } : level)),
+    });
+  };
+
+  const addLevel = (criterion: RubricCriterion) => {
+    updateCriterion(criterion.id, {
+      levels: [...criterion.levels, createRubricLevel()],
+    });
+  };
+
+  const removeLevel = (criterion: RubricCriterion, levelId: string) => {
+    updateCriterion(criterion.id, {
+      levels: criterion.levels.filter((level) => level.id !== levelId),
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Rubric (Optional)
+        </label>
+        {value.length > 0 && (
+          <span className="text-xs text-gray-500">
+            Total: {getRubricMaxPoints(value)} points
+          </span>
+        )}
+      </div>
+
+      {value.length === 0 && (
+        <div className="text-center py-6 border-2 border-gray-300 border-dashed rounded-lg bg-gray-50">
+          <ListChecks className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">
+            Add criteria to grade this assignment with a rubric.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {value.map((criterion, index) => (
+          <div key={criterion.id} className="border border-gray-300 rounded-lg overflow-hidden">
+            <div className="p-4 bg-gray-50 flex items-start space-x-3">
+              <span className="mt-2 text-sm font-medium text-gray-500">{index + 1}.</span>
+              <div className="flex-1 space-y-2">
+                <input
+                  type="text"
+                  placeholder="Criterion (e.g. Clarity of argument)"
+                  value={criterion.title}
+                  onChange={(e) => updateCriterion(criterion.id, { title: e.target.value })}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+                <input
+                  type="text"
+                  placeholder="Description (optional)"
+                  value={criterion.description}
+                  onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div className="flex flex-col items-end">
+                <button
+                  type="button"
+                  onClick={() => removeCriterion(criterion.id)}
+                  className="text-gray-400 hover:text-red-500"
+                  title="Remove criterion"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+                <span className="mt-2 text-xs text-gray-500 whitespace-nowrap">
+                  {getCriterionMaxPoints(criterion)} pts
+                </span>
+              </div>
+            </div>
+
+            <div className="p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+              {criterion.levels.map((level) => (
+                <div key={level.id} className="border border-gray-200 rounded-md p-3 space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      placeholder="Level"
+                      value={level.title}
+                      onChange={(e) => updateLevel(criterion, level.id, { title: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeLevel(criterion, level.id)}
+                      disabled={criterion.levels.length <= 1}
+                      className="text-gray-400 hover:text-red-500 disabled:opacity-30"
+                      title="Remove level"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="flex items-center">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={level.points}
+                      onChange={(e) => updateLevel(criterion, level.id, { points: Number(e.target.value) })}
+                      className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                    />
+                    <span className="ml-2 text-xs text-gray-500">points</span>
+                  </div>
+                  <textarea
+                    rows={2}
+                    placeholder="What this level looks like"
+                    value={level.description}
+                    onChange={(e) => updateLevel(criterion, level.id, { description: e.target.value })}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs"
+                  ></textarea>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => addLevel(criterion)}
+                className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-md p-3 text-sm text-gray-500 hover:bg-gray-50"
+              >
+                <Plus className="h-5 w-5 mb-1" />
+                Add level
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onChange([...value, createRubricCriterion()])}
+        className="mt-3 inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Criterion
+      </button>
+    </div>
+  );
+};
+
+export default RubricEditor;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { getCriterionMaxPoints, getRubricMaxPoints, getRubricScoreTotal } from '../lib/rubric';
+import type { RubricCriterion, RubricLevel, RubricScore } from '../lib/supabase';
+
+interface RubricScoringPanelProps {
+  rubric: RubricCriterion[];
+  value: Record<string, RubricScore>;
+  onChange: (scores: Record<string, RubricScore>) => void;
+}
+
+const RubricScoringPanel: React.FC<RubricScoringPanelProps> = ({ rubric, value, onChange }) => {
+  const selectLevel = (criterion: RubricCriterion, level: RubricLevel) => {
+    onChange({
+      ...value,
+      [criterion.id]: {
+        ...value[criterion.id],
+        level_id: level.id,
+        points: Number(level.points) || 0,
+      },
+    });
+  };
+
+  const updateComment = (criterion: RubricCriterion, comment: string) => {
+    onChange({
+      ...value,
+      [criterion.id]: {
+        level_id: value[criterion.id]?.level_id ?? null,
+        points: value[criterion.id]?.points ?? 0,
+        comment,
+      },
+    });
+  };
+
+  const scoredCount = rubric.filter((criterion) => value[criterion.id]?.level_id).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-700">Rubric</h3>
+        <span className="text-xs text-gray-500">
+          {scoredCount} of {rubric.length} criteria scored · {getRubricScoreTotal(value)} / {getRubricMaxPoints(rubric)} points
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {rubric.map((criterion) => {
+          const score = value[criterion.id];
+
+          return (
+            <div key={criterion.id} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{criterion.title || 'Untitled criterion'}</p>
+                  {criterion.description && (
+                    <p className="text-xs text-gray-500">{criterion.description}</p>
+                  )}
+                </div>
+                <span className="ml-2 text-xs font-medium text-gray-600 whitespace-nowrap">
+                  {score?.points ?? 0} / {getCriterionMaxPoints(criterion)}
+                </span>
+              </div>
+
+              <div className="mt-2 grid grid-cols-2 lg:grid-cols-4 gap-2">
+                {criterion.levels.map((level) => (
+                  <button
+                    key={level.id}
+                    type="button"
+                    onClick={() => selectLevel(criterion, level)}
+                    className={`text-left rounded-md border p-2 text-xs transition-colors ${
+                      score?.level_id === level.id
+                        ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="flex justify-between font-medium text-gray-900">
+                      <span>{level.title || 'Level'}</span>
+                      <span>{level.points}</span>
+                    </span>
+                    {level.description && (
+                      <span className="mt-1 block text-gray-500">{level.description}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+
+              <input
+                type="text"
+                placeholder="Comment on this criterion (optional)"
+                value={score?.comment ?? ''}
+                onChange={(e) => updateComment(criterion, e.target.value)}
+                className="mt-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-xs"
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RubricScoringPanel;
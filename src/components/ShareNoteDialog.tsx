@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { supabase } from '../lib/supabase';
+import { findProfileByEmail } from '../lib/profiles';
+import { useAuth } from '../context/AuthContext';
+import { toast } from 'react-toastify';
+import { Share2, Trash2, UserPlus, X } from 'lucide-react';
+import type { NotePermission, NoteShare } from '../lib/supabase';
+
+interface ShareNoteDialogProps {
+  noteId: string;
+  // Notes in a course can only be shared with its members
+  courseId?: string | null;
+  onClose: () => void;
+}
+
+type ShareFormData = {
+  email: string;
+  permission: NotePermission;
+};
+
+const permissionLabels: Record<NotePermission, string> = {
+  view: 'Can view',
+  comment: 'Can comment',
+  edit: 'Can edit',
+};
+
+const ShareNoteDialog: React.FC<ShareNoteDialogProps> = ({ noteId, courseId, onClose }) => {
+  const { user } = useAuth();
+  const [shares, setShares] = useState<NoteShare[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ShareFormData>({
+    defaultValues: {
+      permission: 'view',
+    },
+  });
+
+  useEffect(() => {
+    const fetchShares = async () => {
+      try {
+        setLoading(true);
+
+        const { data, error } = await supabase
+          .from('note_shares')
+          .select(`
+            *,
+            recipient:profiles!note_shares_shared_with_fkey(*)
+          `)
+          .eq('note_id', noteId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        setShares(data || []);
+      } catch (error) {
+        console.error('Error fetching shares:', error);
+        toast.error('Failed to load sharing settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchShares();
+  }, [noteId]);
+
+  const onSubmit = async (data: ShareFormData) => {
+    try {
+      setSubmitting(true);
+
+      const recipient = await findProfileByEmail(data.email);
+
+      if (!recipient) {
+        toast.error('No classmate found with that email');
+        return;
+      }
+
+      if (recipient.id === user?.id) {
+        toast.error('You already own this note');
+        return;
+      }
+
+      if (shares.some((share) => share.shared_with === recipient.id)) {
+        toast.error('This note is already shared with that classmate');
+        return;
+      }
+
+      if (courseId) {
+        const { data: isMember, error: memberError } = await supabase.rpc('is_classmate', {
+          course_id: courseId,
+          member_id: recipient.id,
+        });
+
+        if (memberError) throw memberError;
+
+        if (!isMember) {
+          toast.error("That classmate isn't enrolled in this note's course");
+          return;
+        }
+      }
+
+      const { data: newShare, error } = await supabase
+        .from('note_shares')
+        .insert({
+          note_id: noteId,
+          shared_with: recipient.id,
+          shared_by: user?.id,
+          permission: data.permission,
+        })
+        .select(`
+          *,
+          recipient:profiles!note_shares_shared_with_fkey(*)
+        `)
+        .single();
+
+      if (error) throw error;
+
+      setShares([...shares, newShare]);
+      reset({ email: '', permission: data.permission });
+      toast.success(`Note shared with ${recipient.first_name || recipient.email}`);
+    } catch (error) {
+      console.error('Error sharing note:', error);
+      const message = error instanceof Error ? error.message : 'Failed to share note';
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePermissionChange = async (shareId: string, permission: NotePermission) => {
+    try {
+      const { error } = await supabase
+        .from('note_shares')
+        .update({
+          permission,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', shareId);
+
+      if (error) throw error;
+
+      setShares(shares.map((share) => (share.id === shareId ? { ...share, permission } : share)));
+      toast.success('Permission updated');
+    } catch (error) {
+      console.error('Error updating share:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update permission';
+      toast.error(message);
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    try {
+      const { error } = await supabase
+        .from('note_shares')
+        .delete()
+        .eq('id', shareId);
+
+      if (error) throw error;
+
+      setShares(shares.filter((share) => share.id !== shareId));
+      toast.success('Access removed');
+    } catch (error) {
+      console.error('Error revoking share:', error);
+      const message = error instanceof Error ? error.message : 'Failed to remove access';
+      toast.error(message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex justify-between items-center">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <Share2 className="h-5 w-5 mr-2 text-blue-600" />
+            Share Note
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4">
+          <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col sm:flex-row sm:items-start gap-2">
+            <div className="flex-1">
+              <label htmlFor="share-email" className="sr-only">
+                Classmate email
+              </label>
+              <input
+                id="share-email"
+                type="email"
+                placeholder="classmate@example.com"
+                {...register('email', { required: 'Email is required' })}
+                className={`block w-full rounded-md shadow-sm sm:text-sm ${
+                  errors.email ? 'border-red-300' : 'border-gray-300'
+                } focus:border-blue-500 focus:ring-blue-500`}
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+              )}
+            </div>
+            <select
+              {...register('permission')}
+              className="block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {Object.entries(permissionLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              <UserPlus className="h-4 w-4 mr-1" />
+              {submitting ? 'Sharing...' : 'Share'}
+            </button>
+          </form>
+          {courseId && (
+            <p className="mt-2 text-xs text-gray-500">This note is filed under a course, so it can only be shared with the course's members.</p>
+          )}
+
+          <div className="mt-6">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">People with access</h3>
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+              </div>
+            ) : shares.length > 0 ? (
+              <ul className="divide-y divide-gray-200">
+                {shares.map((share) => (
+                  <li key={share.id} className="py-3 flex items-center justify-between">
+                    <div className="flex items-center min-w-0">
+                      <img
+                        src={share.recipient?.avatar_url || `https://ui-avatars.com/api/?name=${share.recipient?.first_name}+${share.recipient?.last_name}&background=random`}
+                        alt={`${share.recipient?.first_name} ${share.recipient?.last_name}`}
+                        className="h-8 w-8 rounded-full mr-3"
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {share.recipient?.first_name} {share.recipient?.last_name}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">{share.recipient?.email}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center ml-4 space-x-2">
+                      <select
+                        value={share.permission}
+                        onChange={(e) => handlePermissionChange(share.id, e.target.value as NotePermission)}
+                        className="block rounded-md border-gray-300 py-1 text-xs shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      >
+                        {Object.entries(permissionLabels).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleRevoke(share.id)}
+                        className="text-gray-400 hover:text-red-500"
+                        title="Remove access"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">This note is only visible to you.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareNoteDialog;
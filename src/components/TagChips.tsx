@@ -0,0 +1,43 @@
+import React from 'react';
+import { Hash } from 'lucide-react';
+
+interface TagChipsProps {
+  names: string[];
+  // Highlighted as active filters
+  selected?: string[];
+  onSelect?: (name: string) => void;
+}
+
+const TagChips: React.FC<TagChipsProps> = ({ names, selected = [], onSelect }) => {
+  if (names.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {names.map((name) => {
+        const className = `inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
+          selected.includes(name) ? 'bg-blue-600 text-white' : 'bg-blue-50 text-blue-700'
+        }`;
+
+        return onSelect ? (
+          <button
+            key={name}
+            type="button"
+            onClick={() => onSelect(name)}
+            className={`${className} hover:bg-blue-100 hover:text-blue-800`}
+            title={`Show items tagged ${name}`}
+          >
+            <Hash className="h-3 w-3 mr-0.5" />
+            {name}
+          </button>
+        ) : (
+          <span key={name} className={className}>
+            <Hash className="h-3 w-3 mr-0.5" />
+            {name}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TagChips;
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { Hash } from 'lucide-react';
+import type { TagCount } from '../lib/supabase';
+
+const TAG_CLOUD_LIMIT = 40;
+
+// Text sizes from the least to the most used tags
+const tagSizes = ['text-xs', 'text-sm', 'text-base', 'text-lg', 'text-xl'];
+
+const getTotal = (tag: TagCount) => tag.note_count + tag.announcement_count;
+
+// Tags link to the list they are used on most
+const getTagPath = (tag: TagCount) =>
+  `${tag.note_count >= tag.announcement_count ? '/notes' : '/announcements'}?tag=${encodeURIComponent(tag.name)}`;
+
+const TagCloud: React.FC = () => {
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_tag_cloud', { result_limit: TAG_CLOUD_LIMIT });
+
+        if (error) throw error;
+
+        setTags(data || []);
+      } catch (error) {
+        console.error('Error fetching tag cloud:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  const totals = tags.map(getTotal);
+  const min = Math.min(...totals);
+  const max = Math.max(...totals);
+
+  const getSize = (tag: TagCount) => {
+    if (max === min) return tagSizes[1];
+    const step = Math.round(((getTotal(tag) - min) / (max - min)) * (tagSizes.length - 1));
+    return tagSizes[step];
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-medium text-gray-900">Tags</h3>
+      </div>
+      <div className="px-6 py-4">
+        {loading ? (
+          <div className="flex justify-center py-2">
+            <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : tags.length > 0 ? (
+          <div className="flex flex-wrap items-baseline gap-x-4 gap-y-2">
+            {[...tags].sort((a, b) => a.name.localeCompare(b.name)).map((tag) => (
+              <Link
+                key={tag.id}
+                to={getTagPath(tag)}
+                className={`inline-flex items-center font-medium text-blue-600 hover:text-blue-800 ${getSize(tag)}`}
+                title={`${tag.note_count} notes · ${tag.announcement_count} announcements`}
+              >
+                <Hash className="h-3 w-3 text-blue-300" />
+                {tag.name}
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 text-center">Tag notes and announcements to see them here</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagCloud;
@@ -0,0 +1,46 @@
+import React from 'react';
+import TagInput from './TagInput';
+import type { TagMatch } from '../lib/tags';
+
+interface TagFilterProps {
+  value: string[];
+  onChange: (names: string[]) => void;
+  match: TagMatch;
+  onMatchChange: (match: TagMatch) => void;
+}
+
+const tagMatches: { value: TagMatch; label: string; title: string }[] = [
+  { value: 'all', label: 'All', title: 'Show items with every selected tag' },
+  { value: 'any', label: 'Any', title: 'Show items with at least one selected tag' },
+];
+
+const TagFilter: React.FC<TagFilterProps> = ({ value, onChange, match, onMatchChange }) => (
+  <div className="flex items-center gap-2">
+    <div className="flex-1">
+      <TagInput value={value} onChange={onChange} placeholder="Filter by tags..." allowCreate={false} />
+    </div>
+    {value.length > 1 && (
+      <div className="inline-flex rounded-md shadow-sm">
+        {tagMatches.map((option, index) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onMatchChange(option.value)}
+            title={option.title}
+            className={`px-3 py-1.5 text-xs font-medium border ${
+              index === 0 ? 'rounded-l-md' : '-ml-px rounded-r-md'
+            } ${
+              match === option.value
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default TagFilter;
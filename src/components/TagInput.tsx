@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Hash, X } from 'lucide-react';
+import useDebouncedValue from '../hooks/useDebouncedValue';
+import { MAX_TAGS, normalizeTagName, searchTags } from '../lib/tags';
+import type { Tag } from '../lib/supabase';
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (names: string[]) => void;
+  placeholder?: string;
+  // Off for filters, which can only use tags that exist
+  allowCreate?: boolean;
+  maxTags?: number;
+}
+
+const TagInput: React.FC<TagInputProps> = ({
+  id,
+  value,
+  onChange,
+  placeholder = 'Add tags...',
+  allowCreate = true,
+  maxTags = MAX_TAGS,
+}) => {
+  const [input, setInput] = useState('');
+  const [suggestions, setSuggestions] = useState<Tag[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const query = useDebouncedValue(normalizeTagName(input), 200);
+  const full = value.length >= maxTags;
+
+  useEffect(() => {
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchSuggestions = async () => {
+      try {
+        const tags = await searchTags(query);
+        if (!cancelled) {
+          setSuggestions(tags.filter((tag) => !value.includes(tag.name)));
+          setHighlighted(0);
+        }
+      } catch (error) {
+        console.error('Error fetching tags:', error);
+      }
+    };
+
+    fetchSuggestions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, value]);
+
+  const addTag = (name: string) => {
+    const normalized = normalizeTagName(name);
+    setInput('');
+    setSuggestions([]);
+    if (!normalized || value.includes(normalized) || full) return;
+    onChange([...value, normalized]);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter((tag) => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      const suggestion = suggestions[highlighted];
+      if (suggestion) {
+        addTag(suggestion.name);
+      } else if (allowCreate) {
+        addTag(input);
+      }
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 rounded-md border border-gray-300 bg-white px-2 py-1.5 shadow-sm focus-within:border-blue-500 focus-within:ring-1 focus-within:ring-blue-500">
+        {value.map((name) => (
+          <span
+            key={name}
+            className="inline-flex items-center rounded-full bg-blue-50 px-2 py-0.5 text-xs font-medium text-blue-700"
+          >
+            <Hash className="h-3 w-3 mr-0.5" />
+            {name}
+            <button
+              type="button"
+              onClick={() => removeTag(name)}
+              className="ml-1 text-blue-400 hover:text-blue-700"
+              aria-label={`Remove tag ${name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          disabled={full}
+          placeholder={full ? `Up to ${maxTags} tags` : value.length === 0 ? placeholder : ''}
+          className="flex-1 min-w-[8rem] border-0 p-0.5 text-sm focus:ring-0 disabled:bg-white"
+        />
+      </div>
+      {focused && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full overflow-hidden rounded-md border border-gray-200 bg-white py-1 shadow-lg">
+          {suggestions.map((tag, index) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag.name)}
+                className={`flex w-full items-center px-3 py-1.5 text-left text-sm ${
+                  index === highlighted ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <Hash className="h-3.5 w-3.5 mr-1 text-gray-400" />
+                {tag.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
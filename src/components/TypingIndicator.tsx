@@ -0,0 +1,29 @@
+import React from 'react';
+import type { TypingUser } from '../hooks/useCommentTyping';
+
+interface TypingIndicatorProps {
+  typingUsers: TypingUser[];
+}
+
+const describeTypingUsers = (typingUsers: TypingUser[]) => {
+  if (typingUsers.length === 1) return `${typingUsers[0].name} is typing...`;
+  if (typingUsers.length === 2) return `${typingUsers[0].name} and ${typingUsers[1].name} are typing...`;
+  return `${typingUsers.length} people are typing...`;
+};
+
+const TypingIndicator: React.FC<TypingIndicatorProps> = ({ typingUsers }) => {
+  if (typingUsers.length === 0) return null;
+
+  return (
+    <p className="flex items-center text-xs text-gray-500" aria-live="polite">
+      <span className="flex space-x-0.5 mr-2">
+        <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce"></span>
+        <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce [animation-delay:150ms]"></span>
+        <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce [animation-delay:300ms]"></span>
+      </span>
+      {describeTypingUsers(typingUsers)}
+    </p>
+  );
+};
+
+export default TypingIndicator;
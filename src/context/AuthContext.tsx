@@ -1,6 +1,7 @@
 /* eslint-disable react-refresh/only-export-components */
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import type { Profile, UserRole } from '../lib/supabase';
 import type { User, Session } from '@supabase/supabase-js';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'react-toastify';
@@ -8,7 +9,11 @@ import { toast } from 'react-toastify';
 type AuthContextType = {
   user: User | null;
   session: Session | null;
+  profile: Profile | null;
+  role: UserRole | null;
   loading: boolean;
+  hasRole: (...roles: UserRole[]) => boolean;
+  refreshProfile: () => Promise<void>;
   signUp: (email: string, password: string, firstName: string, lastName: string) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
@@ -20,9 +25,37 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  // Id of the user the current profile was loaded for
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
   const navigate = useNavigate();
 
+  const fetchProfile = async (userId: string | undefined) => {
+    if (!userId) {
+      setProfile(null);
+      setProfileUserId(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setProfile(data);
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+      setProfile(null);
+    } finally {
+      setProfileUserId(userId);
+    }
+  };
+
   useEffect(() => {
     const setData = async () => {
       const { data: { session }, error } = await supabase.auth.getSession();
@@ -50,6 +83,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  useEffect(() => {
+    if (loading) return;
+    fetchProfile(user?.id);
+  }, [user?.id, loading]);
+
+  const refreshProfile = async () => {
+    await fetchProfile(user?.id);
+  };
+
+  const role = profile?.role ?? null;
+
+  const hasRole = (...roles: UserRole[]) => role !== null && roles.includes(role);
+
   const signUp = async (email: string, password: string, firstName: string, lastName: string) => {
     try {
       setLoading(true);
@@ -156,7 +202,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signUp, signIn, signOut, resetPassword }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        profile,
+        role,
+        loading: loading || (user !== null && profileUserId !== user.id),
+        hasRole,
+        refreshProfile,
+        signUp,
+        signIn,
+        signOut,
+        resetPassword,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,105 @@
+/* eslint-disable react-refresh/only-export-components */
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Course, CourseRole, EnrolledCourse } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+type CourseContextType = {
+  courses: EnrolledCourse[];
+  activeCourse: EnrolledCourse | null;
+  loading: boolean;
+  setActiveCourseId: (courseId: string) => void;
+  // Whether the current user teaches a course, the active one by default
+  canManageCourse: (courseId?: string | null) => boolean;
+  refreshCourses: () => Promise<void>;
+};
+
+const ACTIVE_COURSE_KEY = 'activeCourseId';
+
+const CourseContext = createContext<CourseContextType | undefined>(undefined);
+
+export const CourseProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, hasRole } = useAuth();
+  const [courses, setCourses] = useState<EnrolledCourse[]>([]);
+  const [activeCourseId, setActiveCourseIdState] = useState<string | null>(() =>
+    localStorage.getItem(ACTIVE_COURSE_KEY)
+  );
+  const [loading, setLoading] = useState(true);
+  // Id of the user the current courses were loaded for
+  const [coursesUserId, setCoursesUserId] = useState<string | null>(null);
+
+  const fetchCourses = async (userId: string | undefined) => {
+    if (!userId) {
+      setCourses([]);
+      setCoursesUserId(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('course_members')
+        .select('role, course:courses(*)')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      const enrolled = ((data || []) as unknown as { role: CourseRole; course: Course | null }[])
+        .filter((membership) => membership.course)
+        .map((membership) => ({ ...(membership.course as Course), member_role: membership.role }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      setCourses(enrolled);
+    } catch (error) {
+      console.error('Error fetching courses:', error);
+      setCourses([]);
+    } finally {
+      setCoursesUserId(userId);
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCourses(user?.id);
+  }, [user?.id]);
+
+  const refreshCourses = async () => {
+    await fetchCourses(user?.id);
+  };
+
+  const setActiveCourseId = useCallback((courseId: string) => {
+    localStorage.setItem(ACTIVE_COURSE_KEY, courseId);
+    setActiveCourseIdState(courseId);
+  }, []);
+
+  // Fall back to the first course when the stored one was left or deleted
+  const activeCourse = courses.find((course) => course.id === activeCourseId) ?? courses[0] ?? null;
+
+  const canManageCourse = (courseId: string | null = activeCourse?.id ?? null) => {
+    if (hasRole('admin')) return true;
+    return courses.some((course) => course.id === courseId && course.member_role === 'instructor');
+  };
+
+  return (
+    <CourseContext.Provider
+      value={{
+        courses,
+        activeCourse,
+        loading: loading || (user !== null && coursesUserId !== user.id),
+        setActiveCourseId,
+        canManageCourse,
+        refreshCourses,
+      }}
+    >
+      {children}
+    </CourseContext.Provider>
+  );
+};
+
+export const useCourse = () => {
+  const context = useContext(CourseContext);
+  if (context === undefined) {
+    throw new Error('useCourse must be used within a CourseProvider');
+  }
+  return context;
+};
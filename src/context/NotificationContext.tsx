@@ -0,0 +1,143 @@
+/* eslint-disable react-refresh/only-export-components */
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import type { UserNotification } from '../lib/supabase';
+import { RECENT_NOTIFICATIONS_LIMIT } from '../lib/notifications';
+import { useAuth } from './AuthContext';
+
+type NotificationContextType = {
+  recent: UserNotification[];
+  unreadCount: number;
+  loading: boolean;
+  markAsRead: (ids: string[]) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+};
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [recent, setRecent] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const userId = user?.id;
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const [{ data, error }, { count, error: countError }] = await Promise.all([
+        supabase
+          .from('notifications')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(RECENT_NOTIFICATIONS_LIMIT),
+        supabase
+          .from('notifications')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .is('read_at', null),
+      ]);
+
+      if (error) throw error;
+      if (countError) throw countError;
+
+      setRecent(data || []);
+      setUnreadCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setRecent([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    const loadNotifications = async () => {
+      // Due date reminders have no scheduler, so they are created when the app loads
+      const { error } = await supabase.rpc('create_due_soon_notifications');
+      if (error) console.error('Error creating due date reminders:', error);
+
+      await fetchNotifications();
+    };
+
+    loadNotifications();
+
+    // Refetch on any change so every open tab and page agrees on what is unread
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => {
+          fetchNotifications();
+        }
+      )
+      .subscribe((status, error) => {
+        // Catch up on anything created while the channel was connecting
+        if (status === 'SUBSCRIBED') {
+          fetchNotifications();
+        } else if (error) {
+          console.error('Error subscribing to notifications:', error);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchNotifications]);
+
+  const markAsRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', ids)
+      .is('read_at', null);
+
+    if (error) throw error;
+
+    await fetchNotifications();
+  };
+
+  const markAllAsRead = async () => {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) throw error;
+
+    await fetchNotifications();
+  };
+
+  return (
+    <NotificationContext.Provider
+      value={{
+        recent,
+        unreadCount,
+        loading,
+        markAsRead,
+        markAllAsRead,
+      }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
@@ -0,0 +1,147 @@
+import { useCallback, useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+import { useAuth } from '../context/AuthContext';
+import {
+  ATTACHMENT_SIZE_LIMITS,
+  formatFileSize,
+  getUploadErrorMessage,
+  removeAttachmentFiles,
+  startAttachmentUpload,
+} from '../lib/attachments';
+import { extractText } from '../lib/textExtraction';
+import type { AttachmentOwner, FileInfo, ResumableUpload } from '../lib/attachments';
+
+export type UploadStatus = 'uploading' | 'paused' | 'failed';
+
+export type UploadProgress = {
+  id: string;
+  name: string;
+  progress: number;
+  status: UploadStatus;
+};
+
+// Form state for a record's attachments: files already attached plus uploads in flight
+const useAttachmentUploads = (owner: AttachmentOwner) => {
+  const { user } = useAuth();
+  const maxSize = ATTACHMENT_SIZE_LIMITS[owner];
+  const [files, setFiles] = useState<FileInfo[]>([]);
+  // Saved attachments removed in the form, deleted when the record is saved
+  const [removedFiles, setRemovedFiles] = useState<FileInfo[]>([]);
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+  const activeUploads = useRef<Record<string, ResumableUpload>>({});
+
+  // Loading the record's attachments starts the form over
+  const resetFiles = useCallback((next: FileInfo[]) => {
+    setFiles(next);
+    setRemovedFiles([]);
+  }, []);
+
+  const updateUpload = (id: string, changes: Partial<UploadProgress>) => {
+    setUploads((current) =>
+      current.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload))
+    );
+  };
+
+  // Returns whether the file ended up attached
+  const uploadFile = async (id: string, file: File) => {
+    try {
+      const upload = await startAttachmentUpload(file, user?.id, {
+        onProgress: (progress) => updateUpload(id, { progress }),
+        onError: (error) => {
+          console.error('Error uploading file:', error);
+          updateUpload(id, { status: 'failed' });
+          toast.error(`${file.name}: ${getUploadErrorMessage(error)}`, { autoClose: 8000 });
+        },
+      });
+      activeUploads.current[id] = upload;
+
+      // Read the document's text for search while it uploads
+      const [uploaded, text] = await Promise.all([upload.finished, extractText(file)]);
+      if (!uploaded) return false;
+
+      setFiles((current) => [...current, { ...uploaded, text }]);
+      return true;
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      toast.error(`${file.name}: ${getUploadErrorMessage(error)}`, { autoClose: 8000 });
+      return false;
+    } finally {
+      delete activeUploads.current[id];
+      setUploads((current) => current.filter((upload) => upload.id !== id));
+    }
+  };
+
+  const uploadFiles = async (selected: FileList | File[] | null) => {
+    if (!selected || selected.length === 0) return;
+
+    const selectedFiles = Array.from(selected);
+    const oversized = selectedFiles.filter((file) => file.size > maxSize);
+    if (oversized.length > 0) {
+      toast.error(`${oversized.map((file) => file.name).join(', ')} must be smaller than ${formatFileSize(maxSize)}`);
+    }
+
+    const queued = selectedFiles
+      .filter((file) => file.size <= maxSize)
+      .map((file) => ({ id: crypto.randomUUID(), file }));
+    if (queued.length === 0) return;
+
+    setUploads((current) => [
+      ...current,
+      ...queued.map(({ id, file }) => ({ id, name: file.name, progress: 0, status: 'uploading' as const })),
+    ]);
+
+    const results = await Promise.all(queued.map(({ id, file }) => uploadFile(id, file)));
+    const uploadedCount = results.filter(Boolean).length;
+
+    if (uploadedCount > 0) {
+      toast.success(uploadedCount === 1 ? 'File uploaded successfully' : `${uploadedCount} files uploaded successfully`);
+    }
+  };
+
+  const pauseUpload = (id: string) => {
+    activeUploads.current[id]?.pause();
+    updateUpload(id, { status: 'paused' });
+  };
+
+  // Also retries a failed upload from where it stopped
+  const resumeUpload = (id: string) => {
+    activeUploads.current[id]?.resume();
+    updateUpload(id, { status: 'uploading' });
+  };
+
+  const cancelUpload = (id: string) => {
+    activeUploads.current[id]?.cancel();
+  };
+
+  const removeFile = async (fileToRemove: FileInfo) => {
+    try {
+      // Saved attachments are deleted from storage when the record is saved
+      if (fileToRemove.id) {
+        setRemovedFiles((current) => [...current, fileToRemove]);
+      } else {
+        await removeAttachmentFiles([fileToRemove.path]);
+      }
+
+      setFiles((current) => current.filter((file) => file.path !== fileToRemove.path));
+    } catch (error) {
+      console.error('Error removing file:', error);
+      toast.error('Failed to remove file');
+    }
+  };
+
+  return {
+    files,
+    setFiles: resetFiles,
+    removedFiles,
+    uploads,
+    uploading: uploads.length > 0,
+    maxSize,
+    uploadFiles,
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    removeFile,
+  };
+};
+
+export default useAttachmentUploads;
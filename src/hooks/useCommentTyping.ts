@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+// How long someone shows as typing after their last keystroke
+const TYPING_TIMEOUT = 4000;
+// Keystrokes within this long of the last broadcast aren't sent again
+const TYPING_THROTTLE = 2000;
+
+export type TypingUser = {
+  userId: string;
+  name: string;
+};
+
+// Shares who is writing a comment on an announcement over its private Realtime channel
+const useCommentTyping = (announcementId: string | undefined) => {
+  const { user, profile } = useAuth();
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastSentRef = useRef(0);
+  const userId = user?.id;
+  const name = profile ? `${profile.first_name} ${profile.last_name}`.trim() : user?.email || 'Someone';
+  const nameRef = useRef(name);
+
+  nameRef.current = name;
+
+  useEffect(() => {
+    if (!announcementId || !userId) return;
+
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const removeTypingUser = (userId: string) => {
+      clearTimeout(timers.get(userId));
+      timers.delete(userId);
+      setTypingUsers((current) => current.filter((typingUser) => typingUser.userId !== userId));
+    };
+
+    const channel = supabase.channel(`announcement:${announcementId}`, {
+      config: {
+        private: true,
+        broadcast: { self: false },
+      },
+    });
+
+    channel
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const typingUser = payload as TypingUser;
+
+        clearTimeout(timers.get(typingUser.userId));
+        timers.set(typingUser.userId, setTimeout(() => removeTypingUser(typingUser.userId), TYPING_TIMEOUT));
+        setTypingUsers((current) => [
+          ...current.filter((other) => other.userId !== typingUser.userId),
+          typingUser,
+        ]);
+      })
+      .on('broadcast', { event: 'stopped-typing' }, ({ payload }) => {
+        removeTypingUser(payload.userId);
+      })
+      .subscribe((status, error) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Error joining comment channel:', error);
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      channelRef.current = null;
+      lastSentRef.current = 0;
+      setTypingUsers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [announcementId, userId]);
+
+  const send = useCallback((event: string, payload: Record<string, unknown>) => {
+    channelRef.current?.send({ type: 'broadcast', event, payload }).catch((error) => {
+      console.error('Error sending typing status:', error);
+    });
+  }, []);
+
+  // Call on every keystroke in the comment box
+  const notifyTyping = useCallback(() => {
+    if (!userId || Date.now() - lastSentRef.current < TYPING_THROTTLE) return;
+
+    lastSentRef.current = Date.now();
+    send('typing', { userId, name: nameRef.current });
+  }, [userId, send]);
+
+  // Call once the comment is posted or cleared
+  const notifyStoppedTyping = useCallback(() => {
+    if (!userId || lastSentRef.current === 0) return;
+
+    lastSentRef.current = 0;
+    send('stopped-typing', { userId });
+  }, [userId, send]);
+
+  return { typingUsers, notifyTyping, notifyStoppedTyping };
+};
+
+export default useCommentTyping;
@@ -0,0 +1,267 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import { addReaction, countReplies, groupReplies, hasReaction, removeReaction } from '../lib/comments';
+import type { CommentTargetColumn, CommentWithUser } from '../lib/comments';
+import type { CommentAnchor } from '../lib/annotations';
+import type { Comment, CommentReaction } from '../lib/supabase';
+
+// Comments are loaded with their author and reactions
+const commentColumns = `
+  *,
+  user:profiles(*),
+  reactions:comment_reactions(*)
+`;
+
+type PostCommentOptions = {
+  parentId?: string | null;
+  anchor?: CommentAnchor;
+};
+
+// Loads the comments on an announcement or note and keeps them current while others post,
+// edit, delete and react to them
+const useComments = (column: CommentTargetColumn, targetId: string | undefined) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<CommentWithUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!targetId) return;
+
+    const fetchComments = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data, error } = await supabase
+          .from('comments')
+          .select(commentColumns)
+          .eq(column, targetId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        setComments(data || []);
+      } catch (error) {
+        console.error('Error fetching comments:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load comments');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComments();
+  }, [column, targetId]);
+
+  useEffect(() => {
+    if (!targetId) return;
+
+    const addComment = async (commentId: string) => {
+      // The change only carries the row, so load it again with its author
+      const { data, error } = await supabase
+        .from('comments')
+        .select(commentColumns)
+        .eq('id', commentId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching new comment:', error);
+        return;
+      }
+      if (!data) return;
+
+      setComments((current) =>
+        current.some((comment) => comment.id === data.id) ? current : [...current, data]
+      );
+    };
+
+    const channel = supabase
+      .channel(`comments:${targetId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'comments', filter: `${column}=eq.${targetId}` },
+        ({ new: row }) => {
+          addComment(row.id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'comments', filter: `${column}=eq.${targetId}` },
+        ({ new: row }) => {
+          setComments((current) =>
+            current.map((comment) =>
+              comment.id === row.id
+                ? { ...comment, ...(row as Comment), user: comment.user, reactions: comment.reactions }
+                : comment
+            )
+          );
+        }
+      )
+      // Deletes can't be filtered and only carry the id, which is enough to drop the comment
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'comments' },
+        ({ old }) => {
+          setComments((current) => current.filter((comment) => comment.id !== old.id));
+        }
+      )
+      // Reactions don't say what their comment is on, so only those on comments shown here are kept
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'comment_reactions' },
+        ({ new: row }) => {
+          setComments((current) => addReaction(current, row as CommentReaction));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'comment_reactions' },
+        ({ old }) => {
+          setComments((current) => removeReaction(current, old as CommentReaction));
+        }
+      )
+      .subscribe((status, error) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Error subscribing to comments:', error);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [column, targetId]);
+
+  // Resolves to whether the comment was posted
+  const postComment = async (content: string, { parentId = null, anchor }: PostCommentOptions = {}) => {
+    try {
+      const { data: newComment, error } = await supabase
+        .from('comments')
+        .insert({
+          [column]: targetId,
+          parent_id: parentId,
+          user_id: user?.id,
+          content,
+          anchor_text: anchor?.text ?? null,
+          anchor_start: anchor?.start ?? null,
+          anchor_end: anchor?.end ?? null,
+        })
+        .select(commentColumns)
+        .single();
+
+      if (error) throw error;
+
+      // The live subscription may have added it already
+      setComments((current) =>
+        current.some((comment) => comment.id === newComment.id) ? current : [...current, newComment]
+      );
+      toast.success(
+        anchor ? 'Annotation added successfully' : parentId ? 'Reply added successfully' : 'Comment added successfully'
+      );
+      return true;
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      const message = error instanceof Error ? error.message : 'Failed to add comment';
+      toast.error(message);
+      return false;
+    }
+  };
+
+  // Resolves to whether the comment was saved
+  const editComment = async (comment: CommentWithUser, content: string) => {
+    if (content === comment.content) return true;
+
+    try {
+      const { data, error } = await supabase
+        .from('comments')
+        .update({
+          content,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', comment.id)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      setComments((current) =>
+        current.map((other) => (other.id === comment.id ? { ...other, ...data } : other))
+      );
+      toast.success('Comment updated successfully');
+      return true;
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update comment';
+      toast.error(message);
+      return false;
+    }
+  };
+
+  const deleteComment = async (comment: CommentWithUser) => {
+    const replyCount = countReplies(groupReplies(comments), comment.id);
+    const message = replyCount > 0
+      ? `Are you sure you want to delete this comment and its ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}?`
+      : 'Are you sure you want to delete this comment?';
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .delete()
+        .eq('id', comment.id);
+
+      if (error) throw error;
+
+      // Replies are deleted with it and drop out of the thread along with it
+      setComments((current) => current.filter((other) => other.id !== comment.id));
+      toast.success('Comment deleted successfully');
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete comment';
+      toast.error(message);
+    }
+  };
+
+  const toggleReaction = async (comment: CommentWithUser, emoji: string) => {
+    if (!user) return;
+
+    const reaction = { comment_id: comment.id, user_id: user.id, emoji, created_at: new Date().toISOString() };
+    const reacted = hasReaction(comment, reaction);
+
+    try {
+      const { error } = reacted
+        ? await supabase
+            .from('comment_reactions')
+            .delete()
+            .eq('comment_id', comment.id)
+            .eq('user_id', user.id)
+            .eq('emoji', emoji)
+        : await supabase
+            .from('comment_reactions')
+            .insert({ comment_id: comment.id, user_id: user.id, emoji });
+
+      if (error) throw error;
+
+      setComments((current) => (reacted ? removeReaction(current, reaction) : addReaction(current, reaction)));
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update reaction';
+      toast.error(message);
+    }
+  };
+
+  return {
+    comments,
+    loading,
+    error,
+    postComment,
+    editComment,
+    deleteComment,
+    toggleReaction,
+  };
+};
+
+export default useComments;
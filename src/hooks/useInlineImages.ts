@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { useAuth } from '../context/AuthContext';
+import {
+  ATTACHMENT_SIZE_LIMITS,
+  createSignedUrls,
+  formatFileSize,
+  getUploadErrorMessage,
+  insertAttachments,
+  removeAttachmentFiles,
+  startAttachmentUpload,
+} from '../lib/attachments';
+import type { FileInfo } from '../lib/attachments';
+import { getDocumentImagePaths } from '../lib/richText';
+import type { RichTextDocument } from '../lib/supabase';
+
+export type InlineImage = {
+  path: string;
+  url: string;
+  name: string;
+};
+
+// Images pasted or dropped into a note's rich text document. While editing together
+// (`attachTo` set), images are attached right away so the other editors can load them.
+const useInlineImages = (attachTo?: string | null) => {
+  const { user } = useAuth();
+  const maxSize = ATTACHMENT_SIZE_LIMITS.note_id;
+  const [images, setImages] = useState<FileInfo[]>([]);
+  const [pending, setPending] = useState(0);
+
+  const uploadImage = async (file: File): Promise<InlineImage | null> => {
+    if (!file.type.startsWith('image/')) return null;
+
+    if (file.size > maxSize) {
+      toast.error(`${file.name} must be smaller than ${formatFileSize(maxSize)}`);
+      return null;
+    }
+
+    try {
+      setPending((count) => count + 1);
+      const upload = await startAttachmentUpload(file, user?.id, {
+        // Inline images are small, so give up instead of offering a retry
+        onError: (error) => {
+          console.error('Error uploading image:', error);
+          toast.error(`${file.name}: ${getUploadErrorMessage(error)}`, { autoClose: 8000 });
+          upload.cancel();
+        },
+      });
+
+      const uploaded = await upload.finished;
+      if (!uploaded) return null;
+
+      const [image] = attachTo
+        ? await insertAttachments('note_id', attachTo, user?.id, [{ ...uploaded, inline: true }])
+        : [{ ...uploaded, inline: true }];
+      const urls = await createSignedUrls([uploaded.path]);
+      setImages((current) => [...current, image]);
+
+      return { path: uploaded.path, url: urls[uploaded.path], name: uploaded.name };
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      toast.error(`${file.name}: ${getUploadErrorMessage(error)}`, { autoClose: 8000 });
+      return null;
+    } finally {
+      setPending((count) => count - 1);
+    }
+  };
+
+  // New images to attach to the note; unsaved ones deleted from the document are removed
+  // from storage. Saved images stay attached so earlier revisions still show them.
+  const collectImages = async (doc: RichTextDocument | null) => {
+    const paths = doc ? getDocumentImagePaths(doc) : [];
+    const unused = images.filter((image) => !image.id && !paths.includes(image.path));
+
+    try {
+      await removeAttachmentFiles(unused.map((image) => image.path));
+    } catch (error) {
+      console.error('Error removing unused images:', error);
+    }
+
+    return images.filter((image) => !image.id && paths.includes(image.path));
+  };
+
+  return {
+    images,
+    setImages,
+    uploading: pending > 0,
+    uploadImage,
+    collectImages,
+  };
+};
+
+export default useInlineImages;
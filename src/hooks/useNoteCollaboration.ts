@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import { useAuth } from '../context/AuthContext';
+import {
+  connectNoteCollaboration,
+  decodeState,
+  getCollaboratorColor,
+  persistNoteState,
+  seedDocument,
+} from '../lib/collaboration';
+import type { Awareness } from 'y-protocols/awareness';
+import type { CollaborationUser, Collaborator } from '../lib/collaboration';
+import type { RichTextDocument } from '../lib/supabase';
+
+// How long edits settle before the merged document is saved for the other editors
+const PERSIST_DELAY = 3000;
+
+const OUTDATED_MESSAGE = 'This note was restored to an earlier version while you were editing. Reload it to continue.';
+
+export type CollaborationSource = {
+  noteId: string;
+  contentState: string | null;
+  contentStateVersion: number;
+  contentDoc: RichTextDocument | null;
+};
+
+export type CollaborationSession = {
+  doc: Y.Doc;
+  awareness: Awareness;
+  user: CollaborationUser;
+};
+
+// Joins the shared editing session of a note once its saved content is known
+const useNoteCollaboration = (source: CollaborationSource | null) => {
+  const { user, profile } = useAuth();
+  const [session, setSession] = useState<CollaborationSession | null>(null);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  // Set once the note's collaborative document was discarded under this session
+  const [outdated, setOutdated] = useState(false);
+  const sessionRef = useRef<CollaborationSession | null>(null);
+  const name = profile ? `${profile.first_name} ${profile.last_name}`.trim() : user?.email || 'Anonymous';
+
+  useEffect(() => {
+    if (!source || !user) return;
+
+    const doc = new Y.Doc();
+    if (source.contentState) {
+      Y.applyUpdate(doc, decodeState(source.contentState));
+    } else if (source.contentDoc) {
+      seedDocument(doc, source.contentDoc);
+    }
+
+    const collaborationUser = { name, color: getCollaboratorColor(user.id) };
+    const { awareness, disconnect } = connectNoteCollaboration(
+      source.noteId,
+      source.contentStateVersion,
+      doc,
+      collaborationUser
+    );
+
+    const updateCollaborators = () => {
+      const present: Collaborator[] = [];
+      awareness.getStates().forEach((state, clientId) => {
+        if (clientId !== doc.clientID && state.user) {
+          present.push({ clientId, ...state.user });
+        }
+      });
+      setCollaborators(present);
+    };
+    awareness.on('change', updateCollaborators);
+
+    let persistTimer: ReturnType<typeof setTimeout> | undefined;
+    let discarded = false;
+    const persist = async () => {
+      if (discarded) return;
+      try {
+        const state = await persistNoteState(source.noteId, doc, source.contentStateVersion);
+        if (state === null) {
+          discarded = true;
+          setOutdated(true);
+        }
+      } catch (error) {
+        console.error('Error saving collaborative document:', error);
+      }
+    };
+    const schedulePersist = () => {
+      clearTimeout(persistTimer);
+      persistTimer = setTimeout(persist, PERSIST_DELAY);
+    };
+    doc.on('update', schedulePersist);
+
+    const nextSession = { doc, awareness, user: collaborationUser };
+    sessionRef.current = nextSession;
+    setSession(nextSession);
+
+    return () => {
+      doc.off('update', schedulePersist);
+      awareness.off('change', updateCollaborators);
+      // Don't lose edits made in the last few seconds
+      if (persistTimer) {
+        clearTimeout(persistTimer);
+        persist();
+      }
+      disconnect();
+      sessionRef.current = null;
+      setSession(null);
+      setCollaborators([]);
+      setOutdated(false);
+    };
+    // Reconnect only for a different note or user, not when the display name loads
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [source, user?.id]);
+
+  // Keep the cursor label current once the profile has loaded
+  useEffect(() => {
+    if (!session) return;
+    session.awareness.setLocalStateField('user', { ...session.user, name });
+  }, [session, name]);
+
+  // Merged document to store when the note is saved
+  const saveState = async () => {
+    const current = sessionRef.current;
+    if (!current || !source) return null;
+
+    const state = await persistNoteState(source.noteId, current.doc, source.contentStateVersion);
+    if (state === null) {
+      setOutdated(true);
+      throw new Error(OUTDATED_MESSAGE);
+    }
+    return state;
+  };
+
+  return { session, collaborators, outdated, saveState };
+};
+
+export default useNoteCollaboration;
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PAGE_SIZE } from '../lib/pagination';
+
+// Loads the page after `last`, or the first page when it is null
+export type PageLoader<T> = (last: T | null) => Promise<T[]>;
+
+// Pages through a list as the user scrolls to the sentinel element at its end.
+// The list starts over from the first page whenever `resetKey` changes.
+const usePaginatedList = <T>(loadPage: PageLoader<T>, resetKey: string) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const loadPageRef = useRef(loadPage);
+  const itemsRef = useRef<T[]>([]);
+  const busyRef = useRef(false);
+  // Responses to requests made before the last reset are dropped
+  const requestRef = useRef(0);
+
+  loadPageRef.current = loadPage;
+  itemsRef.current = items;
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+
+    const loadFirstPage = async () => {
+      try {
+        busyRef.current = true;
+        setLoading(true);
+        setLoadingMore(false);
+        setLoadMoreFailed(false);
+        setError(null);
+
+        const rows = await loadPageRef.current(null);
+        if (request !== requestRef.current) return;
+
+        setItems(rows);
+        setHasMore(rows.length === PAGE_SIZE);
+      } catch (error) {
+        if (request !== requestRef.current) return;
+        console.error('Error loading list:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load');
+      } finally {
+        if (request === requestRef.current) {
+          busyRef.current = false;
+          setLoading(false);
+        }
+      }
+    };
+
+    loadFirstPage();
+  }, [resetKey, reloadCount]);
+
+  // Start over from the first page without a change of filters, e.g. to pick up new rows
+  const reload = useCallback(() => {
+    setReloadCount((count) => count + 1);
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (busyRef.current) return;
+    const request = requestRef.current;
+    const last = itemsRef.current[itemsRef.current.length - 1] ?? null;
+
+    try {
+      busyRef.current = true;
+      setLoadingMore(true);
+      setLoadMoreFailed(false);
+
+      const rows = await loadPageRef.current(last);
+      if (request !== requestRef.current) return;
+
+      setItems((current) => [...current, ...rows]);
+      setHasMore(rows.length === PAGE_SIZE);
+    } catch (error) {
+      if (request !== requestRef.current) return;
+      console.error('Error loading more:', error);
+      // Wait for the user to retry rather than requesting again on every scroll
+      setLoadMoreFailed(true);
+    } finally {
+      if (request === requestRef.current) {
+        busyRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!sentinel || loading || loadingMore || !hasMore || loadMoreFailed) return;
+
+    // Start loading a little before the end of the list comes into view
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [sentinel, loading, loadingMore, hasMore, loadMoreFailed, loadMore]);
+
+  return {
+    items,
+    setItems,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMoreFailed,
+    error,
+    loadMore,
+    reload,
+    sentinelRef: setSentinel,
+  };
+};
+
+export default usePaginatedList;
@@ -0,0 +1,16 @@
+import { useEffect } from 'react';
+import { useCourse } from '../context/CourseContext';
+
+// Switches to the course of the record being viewed, so the switcher and course
+// permissions match it when it is opened from search, a tag or a shared link
+const useSyncActiveCourse = (courseId: string | null | undefined) => {
+  const { courses, setActiveCourseId } = useCourse();
+
+  useEffect(() => {
+    if (courseId && courses.some((course) => course.id === courseId)) {
+      setActiveCourseId(courseId);
+    }
+  }, [courseId, courses, setActiveCourseId]);
+};
+
+export default useSyncActiveCourse;
@@ -0,0 +1,90 @@
+import type { Comment } from './supabase';
+
+// Range of a note's text an annotation is about. Offsets count characters of the note's
+// text content as displayed, so they are the same however the note is formatted.
+export type CommentAnchor = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+// Highlight names styled in index.css
+export const ANNOTATION_HIGHLIGHT = 'annotation';
+export const ACTIVE_ANNOTATION_HIGHLIGHT = 'annotation-active';
+
+export const getCommentAnchor = (comment: Comment): CommentAnchor | null =>
+  comment.anchor_text !== null && comment.anchor_start !== null && comment.anchor_end !== null
+    ? { text: comment.anchor_text, start: comment.anchor_start, end: comment.anchor_end }
+    : null;
+
+// Text nodes under an element in document order
+const getTextNodes = (root: Node) => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  return nodes;
+};
+
+// Anchor for a selection inside the rendered note, or null when it is empty or reaches outside
+export const getSelectionAnchor = (root: HTMLElement, range: Range): CommentAnchor | null => {
+  if (range.collapsed || !root.contains(range.commonAncestorContainer)) return null;
+
+  const text = range.toString();
+  if (!text.trim()) return null;
+
+  const before = document.createRange();
+  before.selectNodeContents(root);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+
+  return { text, start, end: start + text.length };
+};
+
+// Where an annotation's text is now. The saved offsets are tried first; if the note was edited
+// since, the occurrence of the quoted text closest to them is used instead.
+export const findAnchorOffsets = (text: string, anchor: CommentAnchor) => {
+  if (text.slice(anchor.start, anchor.end) === anchor.text) return { start: anchor.start, end: anchor.end };
+
+  let closest = -1;
+  for (let index = text.indexOf(anchor.text); index !== -1; index = text.indexOf(anchor.text, index + 1)) {
+    if (closest === -1 || Math.abs(index - anchor.start) < Math.abs(closest - anchor.start)) closest = index;
+  }
+
+  return closest === -1 ? null : { start: closest, end: closest + anchor.text.length };
+};
+
+// DOM range over the given offsets of an element's text
+export const createTextRange = (root: Node, start: number, end: number) => {
+  const range = document.createRange();
+  let offset = 0;
+  let started = false;
+
+  for (const node of getTextNodes(root)) {
+    const length = node.data.length;
+    if (!started && start < offset + length) {
+      range.setStart(node, start - offset);
+      started = true;
+    }
+    if (started && end <= offset + length) {
+      range.setEnd(node, end - offset);
+      return range;
+    }
+    offset += length;
+  }
+
+  return null;
+};
+
+// Highlights are drawn with the CSS Custom Highlight API, which leaves the rendered note
+// untouched. Browsers without it still show annotations in the margin.
+export const supportsHighlights = () => typeof Highlight !== 'undefined' && 'highlights' in CSS;
+
+export const setHighlight = (name: string, ranges: Range[]) => {
+  if (!supportsHighlights()) return;
+
+  if (ranges.length > 0) {
+    CSS.highlights.set(name, new Highlight(...ranges));
+  } else {
+    CSS.highlights.delete(name);
+  }
+};
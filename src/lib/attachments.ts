@@ -0,0 +1,285 @@
+import * as tus from 'tus-js-client';
+import { supabase, supabaseUrl } from './supabase';
+import type { Attachment } from './supabase';
+
+export const ATTACHMENTS_BUCKET = 'attachments';
+// Signed URLs are handed out on demand, so keep them short-lived
+export const SIGNED_URL_EXPIRY = 15 * 60;
+// Supabase resumable uploads must be sent in 6MB chunks
+const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+const UPLOAD_RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000];
+
+export type AttachmentOwner = 'note_id' | 'announcement_id' | 'assignment_id' | 'submission_id';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+// Largest file each kind of record accepts. The storage upload limit of the Supabase
+// project must be at least as high as the largest of these.
+export const ATTACHMENT_SIZE_LIMITS: Record<AttachmentOwner, number> = {
+  note_id: 100 * MB,
+  announcement_id: 2 * GB,
+  assignment_id: 5 * GB,
+  submission_id: 500 * MB,
+};
+
+export type FileInfo = {
+  id?: string;
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+  // Image embedded in a rich text document rather than listed as an attachment
+  inline?: boolean;
+  // Text extracted from a new upload for search
+  text?: string | null;
+};
+
+export const toFileInfo = (attachment: Attachment): FileInfo => ({
+  id: attachment.id,
+  path: attachment.file_path,
+  name: attachment.file_name,
+  type: attachment.file_type || '',
+  size: attachment.file_size || 0,
+  inline: attachment.inline,
+});
+
+export const sortAttachments = <T extends { created_at: string }>(attachments: T[] | undefined) =>
+  [...(attachments || [])].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+// Form state for the attachments already stored on a record
+export const toFileInfos = (attachments: Attachment[] | undefined, inline = false) =>
+  sortAttachments(attachments)
+    .filter((attachment) => Boolean(attachment.inline) === inline)
+    .map(toFileInfo);
+
+// Helper function to format file size
+export const formatFileSize = (bytes: number | null) => {
+  if (!bytes || bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+// Check if file can be previewed in browser
+export const canPreviewInBrowser = (fileType: string | null) => {
+  if (!fileType) return false;
+  return (
+    fileType.startsWith('image/') ||
+    fileType.startsWith('video/') ||
+    fileType.startsWith('audio/') ||
+    fileType === 'application/pdf' ||
+    fileType === 'text/plain'
+  );
+};
+
+// Turn storage errors into a message the user can act on
+export const getUploadErrorMessage = (error: unknown) => {
+  if (!(error instanceof Error)) return 'Failed to upload file';
+
+  if (error.message.includes('bucket') || error.message.includes('not found')) {
+    return 'Storage bucket not found. Please set up storage in Supabase dashboard first. See SETUP_STORAGE.md for instructions.';
+  }
+  if (error.message.includes('permission') || error.message.includes('policy')) {
+    return 'Permission denied. Please check storage policies in Supabase dashboard.';
+  }
+  if (error.message.includes('size') || error.message.includes('413')) {
+    return 'File is larger than the storage upload limit. Please raise it in the Supabase dashboard.';
+  }
+  return `Upload failed: ${error.message}`;
+};
+
+export type UploadCallbacks = {
+  onProgress?: (progress: number) => void;
+  onError?: (error: Error) => void;
+};
+
+export type ResumableUpload = {
+  // Resolves with the stored file, or null when the upload is cancelled
+  finished: Promise<FileInfo | null>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => Promise<void>;
+};
+
+// Upload in chunks over the TUS protocol so large files survive pauses and dropped connections
+export const startAttachmentUpload = async (
+  file: File,
+  userId: string | undefined,
+  { onProgress, onError }: UploadCallbacks = {}
+): Promise<ResumableUpload> => {
+  const { data: { session }, error } = await supabase.auth.getSession();
+
+  if (error) throw error;
+  if (!session) throw new Error('You must be signed in to upload files');
+
+  // Create a unique file name
+  const fileExt = file.name.split('.').pop();
+  const path = `${userId}/${Date.now()}-${crypto.randomUUID()}.${fileExt}`;
+
+  let settle: (result: FileInfo | null) => void = () => {};
+  const finished = new Promise<FileInfo | null>((resolve) => {
+    settle = resolve;
+  });
+
+  const upload = new tus.Upload(file, {
+    endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+    retryDelays: UPLOAD_RETRY_DELAYS,
+    headers: {
+      'x-upsert': 'false',
+    },
+    uploadDataDuringCreation: true,
+    storeFingerprintForResuming: false,
+    metadata: {
+      bucketName: ATTACHMENTS_BUCKET,
+      objectName: path,
+      contentType: file.type || 'application/octet-stream',
+      cacheControl: '3600',
+    },
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    // Long uploads can outlive the access token, so read the current one for every chunk
+    onBeforeRequest: async (request) => {
+      const { data } = await supabase.auth.getSession();
+      request.setHeader('authorization', `Bearer ${data.session?.access_token ?? session.access_token}`);
+    },
+    onProgress: (bytesSent, bytesTotal) => {
+      onProgress?.(bytesTotal > 0 ? Math.round((bytesSent / bytesTotal) * 100) : 0);
+    },
+    onError: (uploadError) => onError?.(uploadError),
+    onSuccess: () =>
+      settle({
+        path,
+        name: file.name,
+        type: file.type,
+        size: file.size,
+      }),
+  });
+
+  upload.start();
+
+  return {
+    finished,
+    pause: () => {
+      upload.abort();
+    },
+    resume: () => upload.start(),
+    cancel: async () => {
+      try {
+        // Also delete the partial upload on the server
+        await upload.abort(true);
+      } catch (abortError) {
+        console.error('Error cancelling upload:', abortError);
+      }
+      settle(null);
+    },
+  };
+};
+
+// Signed URLs keyed by storage path; paths the user may not read are left out
+export const createSignedUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_EXPIRY);
+
+  if (error) throw error;
+
+  return (data || []).reduce<Record<string, string>>((urls, item) => {
+    if (item.path && item.signedUrl) {
+      urls[item.path] = item.signedUrl;
+    }
+    return urls;
+  }, {});
+};
+
+// Ask storage to serve the file as a download under its original name
+export const getDownloadUrl = (signedUrl: string, fileName: string) =>
+  `${signedUrl}&download=${encodeURIComponent(fileName)}`;
+
+export const removeAttachmentFiles = async (paths: string[]) => {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove(paths);
+
+  if (error) throw error;
+};
+
+export const insertAttachments = async (
+  owner: AttachmentOwner,
+  ownerId: string,
+  userId: string | undefined,
+  files: FileInfo[]
+): Promise<FileInfo[]> => {
+  if (files.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('attachments')
+    .insert(
+      files.map((file) => ({
+        [owner]: ownerId,
+        user_id: userId,
+        file_path: file.path,
+        file_name: file.name,
+        file_type: file.type || null,
+        file_size: file.size,
+        inline: file.inline || false,
+      }))
+    )
+    .select();
+
+  if (error) throw error;
+
+  const inserted: Attachment[] = data || [];
+  const contents = inserted
+    .map((attachment) => ({
+      attachment_id: attachment.id,
+      content_text: files.find((file) => file.path === attachment.file_path)?.text,
+    }))
+    .filter((content) => content.content_text);
+
+  if (contents.length > 0) {
+    const { error: contentsError } = await supabase
+      .from('attachment_contents')
+      .insert(contents);
+
+    // The files are attached either way; they just won't turn up in search
+    if (contentsError) {
+      console.error('Error indexing attachment text:', contentsError);
+    }
+  }
+
+  return inserted.map(toFileInfo);
+};
+
+// Store the attachment changes made in a form: new files are attached and saved ones the user
+// removed are deleted. Attachments someone else added while the form was open are left alone.
+export const syncAttachments = async (
+  owner: AttachmentOwner,
+  ownerId: string,
+  userId: string | undefined,
+  files: FileInfo[],
+  removed: FileInfo[]
+) => {
+  const removedIds = removed.filter((file) => file.id).map((file) => file.id);
+
+  if (removedIds.length > 0) {
+    const { data: deleted, error } = await supabase
+      .from('attachments')
+      .delete()
+      .eq(owner, ownerId)
+      .in('id', removedIds)
+      .select('file_path');
+
+    if (error) throw error;
+
+    await removeAttachmentFiles((deleted || []).map((attachment) => attachment.file_path));
+  }
+
+  await insertAttachments(owner, ownerId, userId, files.filter((file) => !file.id));
+};
@@ -0,0 +1,52 @@
+import type { Category } from './supabase';
+
+// Folder selection for notes without a category
+export const UNFILED = 'unfiled';
+
+export const DEFAULT_CATEGORY_COLOR = '#9ca3af';
+
+export const categoryColors = [
+  '#9ca3af',
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+];
+
+export type CategoryNode = Category & {
+  children: CategoryNode[];
+};
+
+const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+
+// Nest categories under their parents, each level sorted by name
+export const buildCategoryTree = (categories: Category[]): CategoryNode[] => {
+  const nodes = new Map<string, CategoryNode>(
+    categories.map((category) => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryNode[] = [];
+
+  [...categories].sort(byName).forEach((category) => {
+    const node = nodes.get(category.id)!;
+    const parent = category.parent_id ? nodes.get(category.parent_id) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  return roots;
+};
+
+// Categories in tree order with their nesting depth, for select options
+export const flattenCategoryTree = (nodes: CategoryNode[], depth = 0): { category: Category; depth: number }[] =>
+  nodes.flatMap((node) => [{ category: node, depth }, ...flattenCategoryTree(node.children, depth + 1)]);
+
+// The category and every folder nested inside it
+export const getDescendantIds = (categories: Category[], id: string): string[] => [
+  id,
+  ...categories
+    .filter((category) => category.parent_id === id)
+    .flatMap((category) => getDescendantIds(categories, category.id)),
+];
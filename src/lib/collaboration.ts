@@ -0,0 +1,174 @@
+import * as Y from 'yjs';
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+  removeAwarenessStates,
+} from 'y-protocols/awareness';
+import { prosemirrorJSONToYXmlFragment } from 'y-prosemirror';
+import { getSchema } from '@tiptap/react';
+import { supabase } from './supabase';
+import { richTextExtensions } from './richText';
+import type { RichTextDocument } from './supabase';
+
+// Field of the Yjs document the editor binds to (the Collaboration extension default)
+export const COLLABORATION_FIELD = 'default';
+
+const cursorColors = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04', '#dc2626'];
+
+export type CollaborationUser = {
+  name: string;
+  color: string;
+};
+
+export type Collaborator = CollaborationUser & {
+  clientId: number;
+};
+
+// Stable color per user so everyone sees the same cursor color for a person
+export const getCollaboratorColor = (userId: string) => {
+  const hash = Array.from(userId).reduce((total, char) => total + char.charCodeAt(0), 0);
+  return cursorColors[hash % cursorColors.length];
+};
+
+export const encodeState = (update: Uint8Array) => {
+  let binary = '';
+  update.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const decodeState = (state: string) =>
+  Uint8Array.from(atob(state), (char) => char.charCodeAt(0));
+
+// Build the starting document from the note's saved content. The seed is written with a fixed
+// client id, so editors who open the note at the same time create identical, mergeable updates
+// instead of duplicating the content.
+export const seedDocument = (doc: Y.Doc, content: RichTextDocument) => {
+  const seed = new Y.Doc();
+  seed.clientID = 0;
+  prosemirrorJSONToYXmlFragment(getSchema(richTextExtensions), content, seed.getXmlFragment(COLLABORATION_FIELD));
+  Y.applyUpdate(doc, Y.encodeStateAsUpdate(seed));
+  seed.destroy();
+};
+
+export type NoteCollaboration = {
+  awareness: Awareness;
+  disconnect: () => Promise<void>;
+};
+
+// Keep a Yjs document in sync between everyone editing the same note. Document updates and
+// cursor positions are broadcast over the note's private Supabase Realtime channel. Each
+// version of the collaborative document has its own channel, so editors still working on a
+// discarded one cannot merge it back into the current one.
+export const connectNoteCollaboration = (
+  noteId: string,
+  version: number,
+  doc: Y.Doc,
+  user: CollaborationUser
+): NoteCollaboration => {
+  const awareness = new Awareness(doc);
+  awareness.setLocalStateField('user', user);
+
+  const channel = supabase.channel(`note:${noteId}:${version}`, {
+    config: {
+      private: true,
+      broadcast: { self: false },
+    },
+  });
+
+  const send = (event: string, payload: Record<string, unknown>) => {
+    channel.send({ type: 'broadcast', event, payload }).catch((error) => {
+      console.error('Error sending collaboration update:', error);
+    });
+  };
+
+  // Ask the others for what we are missing; `reply` stops the exchange after one round trip
+  const requestSync = (reply: boolean) => {
+    send('sync-request', { stateVector: encodeState(Y.encodeStateVector(doc)), reply });
+  };
+
+  const handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin !== channel) {
+      send('update', { update: encodeState(update) });
+    }
+  };
+
+  const handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin === 'local') {
+      send('awareness', { update: encodeState(encodeAwarenessUpdate(awareness, [...added, ...updated, ...removed])) });
+    }
+  };
+
+  channel
+    .on('broadcast', { event: 'sync-request' }, ({ payload }) => {
+      const missing = Y.encodeStateAsUpdate(doc, decodeState(payload.stateVector));
+      send('update', { update: encodeState(missing) });
+      send('awareness', { update: encodeState(encodeAwarenessUpdate(awareness, [doc.clientID])) });
+      if (!payload.reply) requestSync(true);
+    })
+    .on('broadcast', { event: 'update' }, ({ payload }) => {
+      Y.applyUpdate(doc, decodeState(payload.update), channel);
+    })
+    .on('broadcast', { event: 'awareness' }, ({ payload }) => {
+      applyAwarenessUpdate(awareness, decodeState(payload.update), channel);
+    })
+    .subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') {
+        requestSync(false);
+      } else if (error) {
+        console.error('Error joining collaboration channel:', error);
+      }
+    });
+
+  doc.on('update', handleDocUpdate);
+  awareness.on('update', handleAwarenessUpdate);
+
+  return {
+    awareness,
+    disconnect: async () => {
+      doc.off('update', handleDocUpdate);
+      // Tell the others we left so our cursor disappears right away
+      removeAwarenessStates(awareness, [doc.clientID], 'local');
+      awareness.off('update', handleAwarenessUpdate);
+      awareness.destroy();
+      await supabase.removeChannel(channel);
+    },
+  };
+};
+
+// Save the merged document, first folding in whatever another editor saved meanwhile. Only the
+// editing state is stored; the content readers see changes when an editor saves the note.
+// Returns null without saving when the note's collaborative document was discarded since
+// `version` was read, e.g. because a revision was restored, so the old one isn't written back.
+export const persistNoteState = async (noteId: string, doc: Y.Doc, version: number) => {
+  const { data, error: fetchError } = await supabase
+    .from('notes')
+    .select('content_state, content_state_version')
+    .eq('id', noteId)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  if (data.content_state_version !== version) return null;
+
+  if (data.content_state) {
+    Y.applyUpdate(doc, decodeState(data.content_state));
+  }
+
+  const state = encodeState(Y.encodeStateAsUpdate(doc));
+  const { data: saved, error } = await supabase
+    .from('notes')
+    .update({ content_state: state })
+    .eq('id', noteId)
+    .eq('content_state_version', version)
+    .select('id');
+
+  if (error) throw error;
+
+  return saved && saved.length > 0 ? state : null;
+};
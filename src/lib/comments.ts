@@ -0,0 +1,124 @@
+import type { Comment, CommentReaction, Profile } from './supabase';
+
+export type CommentWithUser = Comment & {
+  user: Profile;
+};
+
+// Column naming what a comment is on
+export type CommentTargetColumn = 'announcement_id' | 'note_id';
+
+// Kept in sync with the check on comment_reactions.emoji
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '🎉', '😮', '🙏'];
+
+// Deeper replies line up with their parent instead of indenting further
+export const MAX_THREAD_DEPTH = 3;
+
+export const MAX_MENTION_SUGGESTIONS = 6;
+
+// Mentions are stored in comment content as @[Name](user id)
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-f-]{36})\)/g;
+
+export type CommentPart =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; name: string; userId: string };
+
+export const getProfileName = (profile: Profile) =>
+  `${profile.first_name || ''} ${profile.last_name || ''}`.trim() || profile.email;
+
+// Split content into plain text and mentions for display
+export const splitMentions = (content: string): CommentPart[] => {
+  const parts: CommentPart[] = [];
+  let index = 0;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    if (match.index > index) parts.push({ type: 'text', text: content.slice(index, match.index) });
+    parts.push({ type: 'mention', name: match[1], userId: match[2] });
+    index = match.index + match[0].length;
+  }
+  if (index < content.length) parts.push({ type: 'text', text: content.slice(index) });
+
+  return parts;
+};
+
+// Content with each mention shown as @Name, for plain text such as search snippets
+export const stripMentions = (content: string) => content.replace(MENTION_PATTERN, '@$1');
+
+// Stored content as shown while editing (@Name), with the users the names stand for
+export const decodeMentions = (content: string) => {
+  const mentions = new Map<string, string>();
+  const text = content.replace(MENTION_PATTERN, (_match, name: string, userId: string) => {
+    mentions.set(name, userId);
+    return `@${name}`;
+  });
+  return { text, mentions };
+};
+
+// Turn the @Name of each picked user back into a stored mention. Longer names go first so
+// one name that starts another doesn't take its place.
+export const encodeMentions = (text: string, mentions: Map<string, string>) =>
+  Array.from(mentions.entries())
+    .sort(([a], [b]) => b.length - a.length)
+    .reduce((result, [name, userId]) => {
+      const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return result.replace(new RegExp(`(^|[^\\[])@${escaped}`, 'g'), `$1@[${name}](${userId})`);
+    }, text);
+
+// Name for a mention, without the brackets that would end it early
+export const getMentionName = (profile: Profile) => getProfileName(profile).replace(/[[\]]/g, '');
+
+// The @query being typed just before the caret, if any
+export const getMentionQuery = (text: string, caret: number) => {
+  const match = /(^|\s)@([^\s@[\]]*)$/.exec(text.slice(0, caret));
+  return match ? { query: match[2], start: caret - match[2].length - 1 } : null;
+};
+
+// Replies of each comment in posting order; top-level comments are under null
+export const groupReplies = <T extends Comment>(comments: T[]) => {
+  const replies = new Map<string | null, T[]>();
+  comments.forEach((comment) => {
+    replies.set(comment.parent_id, [...(replies.get(comment.parent_id) || []), comment]);
+  });
+  return replies;
+};
+
+// Number of replies under a comment, however deep
+export const countReplies = <T extends Comment>(replies: Map<string | null, T[]>, commentId: string): number =>
+  (replies.get(commentId) || []).reduce((total, reply) => total + 1 + countReplies(replies, reply.id), 0);
+
+const isSameReaction = (a: CommentReaction, b: CommentReaction) =>
+  a.comment_id === b.comment_id && a.user_id === b.user_id && a.emoji === b.emoji;
+
+export const hasReaction = (comment: Comment, reaction: CommentReaction) =>
+  (comment.reactions || []).some((other) => isSameReaction(other, reaction));
+
+// Comments with the reaction added to the one it is on, unless it is there already
+export const addReaction = <T extends Comment>(comments: T[], reaction: CommentReaction) =>
+  comments.map((comment) =>
+    comment.id === reaction.comment_id && !hasReaction(comment, reaction)
+      ? { ...comment, reactions: [...(comment.reactions || []), reaction] }
+      : comment
+  );
+
+export const removeReaction = <T extends Comment>(comments: T[], reaction: CommentReaction) =>
+  comments.map((comment) =>
+    comment.id === reaction.comment_id
+      ? { ...comment, reactions: (comment.reactions || []).filter((other) => !isSameReaction(other, reaction)) }
+      : comment
+  );
+
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  reacted: boolean;
+};
+
+// Reactions grouped by emoji, in the order of the picker
+export const summarizeReactions = (reactions: CommentReaction[] | undefined, userId: string | undefined): ReactionSummary[] =>
+  REACTION_EMOJIS.map((emoji) => {
+    const matching = (reactions || []).filter((reaction) => reaction.emoji === emoji);
+    return {
+      emoji,
+      count: matching.length,
+      reacted: matching.some((reaction) => reaction.user_id === userId),
+    };
+  }).filter((summary) => summary.count > 0);
@@ -0,0 +1,10 @@
+import type { Course } from './supabase';
+
+export const JOIN_CODE_LENGTH = 8;
+
+// "CS 101 · Intro to Programming", or just the name for courses without a code
+export const getCourseLabel = (course: Pick<Course, 'name' | 'code'>) =>
+  course.code ? `${course.code} · ${course.name}` : course.name;
+
+// Join codes are shown and typed in upper case without spaces
+export const normalizeJoinCode = (code: string) => code.replace(/\s+/g, '').toUpperCase();
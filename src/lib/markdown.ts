@@ -0,0 +1,30 @@
+import { defaultSchema } from 'rehype-sanitize';
+import type { ContentFormat } from './supabase';
+
+// Markdown never renders raw HTML; the schema additionally keeps the math classes KaTeX needs
+export const markdownSanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...(defaultSchema.attributes?.code || []),
+      ['className', /^language-./, 'math-inline', 'math-display'],
+    ],
+  },
+};
+
+// Plain text version of the content for list cards and previews
+export const getContentExcerpt = (content: string, format: ContentFormat) => {
+  if (format !== 'markdown') return content;
+
+  return content
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/\$\$[\s\S]*?\$\$/g, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/^\s*\|?(\s*:?-+:?\s*\|)+\s*$/gm, '')
+    .replace(/[*_~`|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
@@ -0,0 +1,24 @@
+import type { EmailDigestFrequency, NotificationType } from './supabase';
+
+// Notifications shown in the header dropdown
+export const RECENT_NOTIFICATIONS_LIMIT = 8;
+
+// In the order they are listed on the profile page
+export const notificationTypes: { value: NotificationType; label: string; description: string }[] = [
+  { value: 'announcement', label: 'Announcements', description: 'New announcements in your courses' },
+  { value: 'comment', label: 'Comments', description: 'New comments on your notes and on announcements you posted or commented on, and replies to your comments' },
+  { value: 'mention', label: 'Mentions', description: 'Comments that mention you' },
+  { value: 'assignment', label: 'Assignments', description: 'Assignments published in your courses' },
+  { value: 'due_soon', label: 'Due date reminders', description: 'Assignments due within a day that you have not handed in' },
+  { value: 'grade', label: 'Grades', description: 'Your graded submissions being returned' },
+  { value: 'feedback', label: 'Feedback', description: 'Status changes on feedback you sent' },
+];
+
+// Notification types that are also emailed as they happen
+export const emailedNotificationTypes: NotificationType[] = ['announcement', 'due_soon', 'grade'];
+
+export const emailDigestOptions: { value: EmailDigestFrequency; label: string; description: string }[] = [
+  { value: 'daily', label: 'Daily', description: 'Unread notifications and assignments due in the next week, every day' },
+  { value: 'weekly', label: 'Weekly', description: 'The same summary once a week' },
+  { value: 'never', label: 'Never', description: 'No digest emails' },
+];
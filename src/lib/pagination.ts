@@ -0,0 +1,39 @@
+import { subDays } from 'date-fns';
+
+export const PAGE_SIZE = 20;
+
+export type SortOption<T extends string> = {
+  value: T;
+  label: string;
+  column: string;
+  ascending: boolean;
+};
+
+export type DateRange = '' | '7' | '30' | '90';
+
+export const dateRanges: { value: DateRange; label: string }[] = [
+  { value: '', label: 'Any time' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+// Start of a date range, or null for any time
+export const getRangeStart = (range: DateRange) =>
+  range ? subDays(new Date(), Number(range)).toISOString() : null;
+
+// Values inside `or` filters are quoted so commas, dots and parentheses don't break the syntax
+const quoteFilterValue = (value: unknown) =>
+  `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// `or` filter matching rows that contain the term in any of the columns
+export const getSearchFilter = (columns: string[], term: string) =>
+  columns.map((column) => `${column}.ilike.${quoteFilterValue(`%${term}%`)}`).join(',');
+
+// `or` filter selecting the rows after `last` when ordered by the sort column, then by id
+// to keep the order stable when several rows share a value
+export const getCursorFilter = <T extends { id: string }>(sort: SortOption<string>, last: T) => {
+  const operator = sort.ascending ? 'gt' : 'lt';
+  const value = quoteFilterValue(last[sort.column as keyof T]);
+  return `${sort.column}.${operator}.${value},and(${sort.column}.eq.${value},id.${operator}.${quoteFilterValue(last.id)})`;
+};
@@ -0,0 +1,18 @@
+import { supabase } from './supabase';
+import type { Profile } from './supabase';
+
+// Looks a user up by their exact email, ignoring case. `%` and `_` are escaped so they match
+// only themselves; `*`, which the API also reads as a wildcard, is ruled out by comparing the
+// matches afterwards.
+export const findProfileByEmail = async (email: string): Promise<Profile | null> => {
+  const normalized = email.trim().toLowerCase();
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .ilike('email', normalized.replace(/[\\%_]/g, '\\$&'));
+
+  if (error) throw error;
+
+  return ((data || []) as Profile[]).find((profile) => profile.email.toLowerCase() === normalized) ?? null;
+};
@@ -0,0 +1,54 @@
+import StarterKit from '@tiptap/starter-kit';
+import Image from '@tiptap/extension-image';
+import { createSignedUrls } from './attachments';
+import type { RichTextDocument, RichTextNode } from './supabase';
+
+// Images keep their storage path; `src` only ever holds a short-lived signed URL
+export const NoteImage = Image.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      path: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-path'),
+        renderHTML: (attributes) => (attributes.path ? { 'data-path': attributes.path } : {}),
+      },
+    };
+  },
+});
+
+export const richTextExtensions = [StarterKit, NoteImage];
+
+const mapImages = <T extends RichTextNode>(
+  node: T,
+  update: (attrs: Record<string, unknown>) => Record<string, unknown>
+): T => ({
+  ...node,
+  attrs: node.type === 'image' ? update(node.attrs || {}) : node.attrs,
+  content: node.content?.map((child) => mapImages(child, update)),
+});
+
+export const getDocumentImagePaths = (node: RichTextNode): string[] => [
+  ...(node.type === 'image' && typeof node.attrs?.path === 'string' ? [node.attrs.path] : []),
+  ...(node.content || []).flatMap(getDocumentImagePaths),
+];
+
+// Signed URLs expire, so documents are saved without them
+export const stripDocumentImageUrls = (doc: RichTextDocument) =>
+  mapImages(doc, (attrs) => ({ ...attrs, src: null }));
+
+export const resolveDocumentImages = async (doc: RichTextDocument) => {
+  const urls = await createSignedUrls(getDocumentImagePaths(doc));
+  return mapImages(doc, (attrs) => ({
+    ...attrs,
+    src: typeof attrs.path === 'string' ? urls[attrs.path] ?? null : attrs.src,
+  }));
+};
+
+// Start a document from existing plain text or Markdown, one paragraph per line
+export const textToDocument = (text: string): RichTextDocument => ({
+  type: 'doc',
+  content: text.split('\n').map((line) =>
+    line ? { type: 'paragraph', content: [{ type: 'text', text: line }] } : { type: 'paragraph' }
+  ),
+});
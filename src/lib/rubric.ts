@@ -0,0 +1,30 @@
+import type { RubricCriterion, RubricLevel, RubricScore } from './supabase';
+
+export const createRubricLevel = (title = '', points = 0): RubricLevel => ({
+  id: crypto.randomUUID(),
+  title,
+  description: '',
+  points,
+});
+
+export const createRubricCriterion = (): RubricCriterion => ({
+  id: crypto.randomUUID(),
+  title: '',
+  description: '',
+  levels: [
+    createRubricLevel('Excellent', 10),
+    createRubricLevel('Proficient', 7),
+    createRubricLevel('Developing', 4),
+    createRubricLevel('Missing', 0),
+  ],
+});
+
+// Best achievable score for one criterion
+export const getCriterionMaxPoints = (criterion: RubricCriterion) =>
+  criterion.levels.reduce((max, level) => Math.max(max, Number(level.points) || 0), 0);
+
+export const getRubricMaxPoints = (rubric: RubricCriterion[] | null) =>
+  (rubric || []).reduce((total, criterion) => total + getCriterionMaxPoints(criterion), 0);
+
+export const getRubricScoreTotal = (scores: Record<string, RubricScore> | null) =>
+  Object.values(scores || {}).reduce((total, score) => total + (Number(score.points) || 0), 0);
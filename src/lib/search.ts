@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+import type { SearchEntityType, SearchResult } from './supabase';
+
+// Markers `search_content` wraps around matched words
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_END = '\uE001';
+
+export const SEARCH_RESULT_LIMIT = 20;
+
+export const searchEntityTypes: { value: SearchEntityType; label: string }[] = [
+  { value: 'note', label: 'Notes' },
+  { value: 'announcement', label: 'Announcements' },
+  { value: 'assignment', label: 'Assignments' },
+  { value: 'comment', label: 'Comments' },
+];
+
+export type SearchFilters = {
+  types?: SearchEntityType[];
+  categoryId?: string;
+  // Inclusive dates in yyyy-MM-dd form
+  from?: string;
+  to?: string;
+};
+
+const addDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+};
+
+export const searchContent = async (query: string, filters: SearchFilters = {}) => {
+  const { data, error } = await supabase.rpc('search_content', {
+    search_query: query,
+    entity_types: filters.types && filters.types.length > 0 ? filters.types : null,
+    category_filter: filters.categoryId || null,
+    from_date: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : null,
+    to_date: filters.to ? addDay(filters.to) : null,
+    result_limit: SEARCH_RESULT_LIMIT,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as SearchResult[];
+};
+
+// Split a snippet into plain and matched parts
+export const splitHighlights = (snippet: string) =>
+  snippet
+    .split(HIGHLIGHT_START)
+    .flatMap((chunk, index) => {
+      if (index === 0) return [{ text: chunk, match: false }];
+      const [match, ...rest] = chunk.split(HIGHLIGHT_END);
+      return [{ text: match, match: true }, { text: rest.join(''), match: false }];
+    })
+    .filter((part) => part.text);
+
+// Attachment anchors are picked up by AttachmentViewer to scroll to the file
+export const getAttachmentAnchor = (attachmentId: string) => `attachment-${attachmentId}`;
+
+const getRecordPath = (result: SearchResult) => {
+  switch (result.entity_type) {
+    case 'note':
+      return `/notes/${result.id}`;
+    case 'announcement':
+      return `/announcements/${result.id}`;
+    case 'assignment':
+      return `/assignments/${result.id}`;
+    case 'comment':
+      return `/announcements/${result.parent_id}`;
+  }
+};
+
+export const getSearchResultPath = (result: SearchResult) =>
+  result.attachment_id
+    ? `${getRecordPath(result)}#${getAttachmentAnchor(result.attachment_id)}`
+    : getRecordPath(result);
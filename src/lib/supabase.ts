@@ -1,6 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 if (!supabaseUrl || !supabaseAnonKey) {
@@ -9,37 +9,182 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+export type Attachment = {
+  id: string;
+  user_id: string;
+  note_id: string | null;
+  announcement_id: string | null;
+  assignment_id: string | null;
+  submission_id: string | null;
+  file_path: string;
+  file_name: string;
+  file_type: string | null;
+  file_size: number | null;
+  inline: boolean;
+  created_at: string;
+};
+
+export type UserRole = 'student' | 'instructor' | 'admin';
+
+export type EmailDigestFrequency = 'never' | 'daily' | 'weekly';
+
 export type Profile = {
   id: string;
   email: string;
   first_name: string | null;
   last_name: string | null;
   avatar_url: string | null;
+  role: UserRole;
+  // Whether announcements, due date reminders and grades are also emailed as they happen
+  email_notifications: boolean;
+  email_digest: EmailDigestFrequency;
+  last_digest_sent_at: string | null;
   created_at: string;
   updated_at: string;
 };
 
+export type CourseRole = 'instructor' | 'student';
+
+export type Course = {
+  id: string;
+  name: string;
+  code: string | null;
+  description: string | null;
+  join_code: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CourseMember = {
+  course_id: string;
+  user_id: string;
+  role: CourseRole;
+  created_at: string;
+  member?: Profile;
+};
+
+// A course the current user is enrolled in, with their role in it
+export type EnrolledCourse = Course & {
+  member_role: CourseRole;
+};
+
 export type Category = {
   id: string;
   name: string;
   type: 'note' | 'announcement';
+  // Null for the shared categories; set for a user's own note folders
+  user_id: string | null;
+  parent_id: string | null;
+  color: string | null;
   created_at: string;
   updated_at: string;
 };
 
+export type ContentFormat = 'plain' | 'markdown' | 'rich';
+
+export type RichTextNode = {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: RichTextNode[];
+  marks?: { type: string; attrs?: Record<string, unknown> }[];
+  text?: string;
+};
+
+// Block editor document stored on rich text notes
+export type RichTextDocument = RichTextNode & { type: 'doc' };
+
 export type Note = {
   id: string;
   user_id: string;
   title: string;
   content: string;
+  content_format: ContentFormat;
+  content_doc: RichTextDocument | null;
+  // Merged collaborative document (base64 encoded Yjs update)
+  content_state: string | null;
+  // Moves on whenever the collaborative document is discarded, e.g. by restoring a revision
+  content_state_version: number;
   category_id: string | null;
-  file_url: string | null;
-  file_name: string | null;
-  file_type: string | null;
-  file_size: number | null;
+  // Optional; notes filed under a course can only be shared with its members
+  course_id: string | null;
   created_at: string;
   updated_at: string;
   category?: Category;
+  course?: Course | null;
+  user?: Profile;
+  attachments?: Attachment[];
+  tags?: Tag[];
+};
+
+export type NoteRevision = {
+  id: string;
+  note_id: string;
+  author_id: string | null;
+  title: string;
+  content: string;
+  content_format: ContentFormat;
+  content_doc: RichTextDocument | null;
+  created_at: string;
+  author?: Profile | null;
+};
+
+export type NotePermission = 'view' | 'comment' | 'edit';
+
+export type NoteShare = {
+  id: string;
+  note_id: string;
+  shared_with: string;
+  shared_by: string;
+  permission: NotePermission;
+  created_at: string;
+  updated_at: string;
+  note?: Note;
+  recipient?: Profile;
+};
+
+export type NoteLink = {
+  id: string;
+  note_id: string;
+  created_by: string;
+  token: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PublicNote = {
+  id: string;
+  title: string;
+  content: string;
+  content_format: ContentFormat;
+  content_doc: RichTextDocument | null;
+  updated_at: string;
+  expires_at: string | null;
+  category: string | null;
+  author: string | null;
+  attachments: Pick<Attachment, 'id' | 'file_path' | 'file_name' | 'file_type' | 'file_size' | 'inline' | 'created_at'>[];
+};
+
+export type RubricLevel = {
+  id: string;
+  title: string;
+  description: string;
+  points: number;
+};
+
+export type RubricCriterion = {
+  id: string;
+  title: string;
+  description: string;
+  levels: RubricLevel[];
+};
+
+export type RubricScore = {
+  level_id: string | null;
+  points: number;
+  comment?: string;
 };
 
 export type Assignment = {
@@ -47,27 +192,52 @@ export type Assignment = {
   title: string;
   description: string;
   due_date: string;
-  file_url: string | null;
-  file_name: string | null;
-  file_type: string | null;
-  file_size: number | null;
+  course_id: string;
+  created_by: string | null;
+  published: boolean;
+  max_points: number;
+  rubric: RubricCriterion[] | null;
   created_at: string;
   updated_at: string;
+  attachments?: Attachment[];
 };
 
+export type SubmissionStatus = 'draft' | 'submitted' | 'graded' | 'returned';
+
 export type Submission = {
   id: string;
   assignment_id: string;
   user_id: string;
   content: string;
-  file_url: string | null;
-  file_name: string | null;
-  file_type: string | null;
-  file_size: number | null;
-  status: 'draft' | 'submitted';
+  status: SubmissionStatus;
+  // When the student handed it in; null while it is a draft
+  submitted_at: string | null;
   created_at: string;
   updated_at: string;
   assignment?: Assignment;
+  student?: Profile;
+  attachments?: Attachment[];
+  // Only readable by the student once the submission has been returned
+  grade?: SubmissionGrade | null;
+};
+
+export type SubmissionGrade = {
+  submission_id: string;
+  points: number | null;
+  feedback: string | null;
+  rubric_scores: Record<string, RubricScore> | null;
+  graded_by: string | null;
+  graded_at: string;
+};
+
+// Status of an assignment for the current user, as computed by `assignment_overview`
+export type AssignmentStatus = 'graded' | 'submitted' | 'overdue' | 'draft' | 'pending';
+
+export type AssignmentOverview = Assignment & {
+  submission_id: string | null;
+  submission_status: SubmissionStatus | null;
+  submission_points: number | null;
+  status: AssignmentStatus;
 };
 
 export type Announcement = {
@@ -75,25 +245,42 @@ export type Announcement = {
   user_id: string;
   title: string;
   content: string;
+  content_format: ContentFormat;
   category_id: string | null;
-  file_url: string | null;
-  file_name: string | null;
-  file_type: string | null;
-  file_size: number | null;
+  course_id: string;
   created_at: string;
   updated_at: string;
   category?: Category;
   user?: Profile;
+  attachments?: Attachment[];
+  tags?: Tag[];
 };
 
 export type Comment = {
   id: string;
-  announcement_id: string;
+  // Comments are on either an announcement or a note
+  announcement_id: string | null;
+  note_id: string | null;
+  // Comment this one replies to, null for top-level comments
+  parent_id: string | null;
   user_id: string;
   content: string;
+  // Annotations on a note quote the text they are about, at these offsets of the note's text
+  anchor_text: string | null;
+  anchor_start: number | null;
+  anchor_end: number | null;
   created_at: string;
   updated_at: string;
+  edited_at: string | null;
   user?: Profile;
+  reactions?: CommentReaction[];
+};
+
+export type CommentReaction = {
+  comment_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
 };
 
 export type Feedback = {
@@ -106,4 +293,63 @@ export type Feedback = {
   created_at: string;
   updated_at: string;
   user?: Profile;
-};
\ No newline at end of file
+};
+
+export type NotificationType = 'announcement' | 'comment' | 'mention' | 'assignment' | 'grade' | 'feedback' | 'due_soon';
+
+// Named to avoid clashing with the browser's Notification
+export type UserNotification = {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  // App path of the record the notification is about
+  link: string | null;
+  actor_id: string | null;
+  read_at: string | null;
+  // Set once the notification was sent by email
+  emailed_at: string | null;
+  created_at: string;
+};
+
+export type NotificationPreference = {
+  user_id: string;
+  type: NotificationType;
+  enabled: boolean;
+  updated_at: string;
+};
+
+export type Tag = {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+};
+
+// Row returned by the `get_tag_cloud` function
+export type TagCount = {
+  id: string;
+  name: string;
+  note_count: number;
+  announcement_count: number;
+};
+
+export type SearchEntityType = 'note' | 'announcement' | 'assignment' | 'comment';
+
+// Row returned by the `search_content` function
+export type SearchResult = {
+  entity_type: SearchEntityType;
+  id: string;
+  // Announcement a comment belongs to
+  parent_id: string | null;
+  title: string;
+  snippet: string;
+  rank: number;
+  category_id: string | null;
+  category_name: string | null;
+  updated_at: string;
+  // Set when the match is in the text of one of the record's attachments
+  attachment_id: string | null;
+  attachment_name: string | null;
+};
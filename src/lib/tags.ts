@@ -0,0 +1,90 @@
+import { supabase } from './supabase';
+import type { Tag } from './supabase';
+
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS = 10;
+
+export type TagOwner = 'note_id' | 'announcement_id';
+
+// Whether a list must carry every selected tag or at least one of them
+export type TagMatch = 'all' | 'any';
+
+const tagTables: Record<TagOwner, string> = {
+  note_id: 'note_tags',
+  announcement_id: 'announcement_tags',
+};
+
+// Tag names are lowercase and limited to characters that are safe in array filters
+export const normalizeTagName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_.+#-]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TAG_LENGTH)
+    .trim();
+
+export const getTagNames = (tags: Tag[] | undefined) =>
+  (tags || []).map((tag) => tag.name).sort((a, b) => a.localeCompare(b));
+
+// Existing tags starting with the given text, for autocompletion
+export const searchTags = async (prefix: string, limit = 8) => {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .ilike('name', `${prefix.replace(/_/g, '\\_')}%`)
+    .order('name')
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []) as Tag[];
+};
+
+// Replace the tags of a record, creating tags that don't exist yet
+export const syncTags = async (owner: TagOwner, ownerId: string, userId: string | undefined, names: string[]) => {
+  const table = tagTables[owner];
+  let tagIds: string[] = [];
+
+  if (names.length > 0) {
+    // Names someone else has created in the meantime are left as they are
+    const { error: createError } = await supabase
+      .from('tags')
+      .upsert(names.map((name) => ({ name, created_by: userId })), { onConflict: 'name', ignoreDuplicates: true });
+
+    if (createError) throw createError;
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id')
+      .in('name', names);
+
+    if (error) throw error;
+
+    tagIds = (data || []).map((tag) => tag.id);
+  }
+
+  let removeQuery = supabase
+    .from(table)
+    .delete()
+    .eq(owner, ownerId);
+
+  if (tagIds.length > 0) {
+    removeQuery = removeQuery.not('tag_id', 'in', `(${tagIds.join(',')})`);
+  }
+
+  const { error: removeError } = await removeQuery;
+
+  if (removeError) throw removeError;
+
+  if (tagIds.length > 0) {
+    const { error } = await supabase
+      .from(table)
+      .upsert(tagIds.map((tagId) => ({ [owner]: ownerId, tag_id: tagId })), {
+        onConflict: `${owner},tag_id`,
+        ignoreDuplicates: true,
+      });
+
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,70 @@
+// Text is indexed for search; keep it well below the Postgres tsvector size limit
+export const MAX_EXTRACTED_TEXT_LENGTH = 200_000;
+// Larger files are read into memory whole, so they are left out of search
+const MAX_EXTRACTABLE_FILE_SIZE = 50 * 1024 * 1024;
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown'];
+
+const getExtension = (file: File) => file.name.split('.').pop()?.toLowerCase() || '';
+
+const isPdf = (file: File) => file.type === 'application/pdf' || getExtension(file) === 'pdf';
+const isDocx = (file: File) => file.type === DOCX_TYPE || getExtension(file) === 'docx';
+const isText = (file: File) =>
+  file.type === 'text/plain' || file.type === 'text/markdown' || TEXT_EXTENSIONS.includes(getExtension(file));
+
+// The parsers are large, so they are only loaded once a matching file is uploaded
+const extractPdfText = async (file: File) => {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  let length = 0;
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages && length < MAX_EXTRACTED_TEXT_LENGTH; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items.map((item) => ('str' in item ? item.str : '')).join(' ');
+      pages.push(text);
+      length += text.length;
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages.join('\n\n');
+};
+
+const extractDocxText = async (file: File) => {
+  const mammoth = await import('mammoth');
+  const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return value;
+};
+
+// Plain text of a document for search, or null for unsupported files or unreadable content
+export const extractText = async (file: File) => {
+  if (file.size > MAX_EXTRACTABLE_FILE_SIZE) return null;
+
+  try {
+    let text: string | null = null;
+
+    if (isPdf(file)) {
+      text = await extractPdfText(file);
+    } else if (isDocx(file)) {
+      text = await extractDocxText(file);
+    } else if (isText(file)) {
+      text = await file.text();
+    }
+
+    const normalized = text?.replace(/\s+/g, ' ').trim();
+    return normalized ? normalized.slice(0, MAX_EXTRACTED_TEXT_LENGTH) : null;
+  } catch (error) {
+    console.error('Error extracting text:', error);
+    return null;
+  }
+};
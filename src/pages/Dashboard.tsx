@@ -2,12 +2,17 @@ import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
+import { useCourse } from '../context/CourseContext';
 import { formatDistanceToNow } from 'date-fns';
 import { BookOpen, FileText, Bell, Calendar } from 'lucide-react';
+import { getContentExcerpt } from '../lib/markdown';
+import TagCloud from '../components/TagCloud';
 import type { Assignment, Note, Announcement } from '../lib/supabase';
 
 const Dashboard: React.FC = () => {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
+  const { activeCourse, canManageCourse } = useCourse();
+  const courseId = activeCourse?.id;
   const [loading, setLoading] = useState(true);
   const [recentNotes, setRecentNotes] = useState<Note[]>([]);
   const [upcomingAssignments, setUpcomingAssignments] = useState<Assignment[]>([]);
@@ -29,10 +34,20 @@ const Dashboard: React.FC = () => {
         
         if (notesError) throw notesError;
         
+        setRecentNotes(notes || []);
+
+        // Assignments and announcements come from the active course
+        if (!courseId) {
+          setUpcomingAssignments([]);
+          setRecentAnnouncements([]);
+          return;
+        }
+        
         // Fetch upcoming assignments
         const { data: assignments, error: assignmentsError } = await supabase
           .from('assignments')
           .select('*')
+          .eq('course_id', courseId)
           .gte('due_date', new Date().toISOString())
           .order('due_date', { ascending: true })
           .limit(3);
@@ -43,12 +58,12 @@ const Dashboard: React.FC = () => {
         const { data: announcements, error: announcementsError } = await supabase
           .from('announcements')
           .select('*')
+          .eq('course_id', courseId)
           .order('created_at', { ascending: false })
           .limit(3);
         
         if (announcementsError) throw announcementsError;
         
-        setRecentNotes(notes || []);
         setUpcomingAssignments(assignments || []);
         setRecentAnnouncements(announcements || []);
       } catch (error: any) {
@@ -60,7 +75,7 @@ const Dashboard: React.FC = () => {
     };
     
     fetchDashboardData();
-  }, [user]);
+  }, [user, courseId]);
 
   if (loading) {
     return (
@@ -102,7 +117,7 @@ const Dashboard: React.FC = () => {
   return (
     <div className="space-y-8">
       <div>
-        <h1 className="text-2xl font-bold text-gray-900">Welcome back, {user?.user_metadata?.first_name || 'Student'}</h1>
+        <h1 className="text-2xl font-bold text-gray-900">Welcome back, {profile?.first_name || user?.user_metadata?.first_name || 'Student'}</h1>
         <p className="mt-1 text-sm text-gray-500">Here's an overview of your learning journey</p>
       </div>
 
@@ -215,7 +230,7 @@ const Dashboard: React.FC = () => {
                         {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
                       </p>
                     </div>
-                    <p className="mt-1 text-sm text-gray-500 line-clamp-2">{note.content}</p>
+                    <p className="mt-1 text-sm text-gray-500 line-clamp-2">{getContentExcerpt(note.content, note.content_format)}</p>
                   </div>
                 </Link>
               ))
@@ -305,23 +320,28 @@ const Dashboard: React.FC = () => {
                       {formatDistanceToNow(new Date(announcement.created_at), { addSuffix: true })}
                     </p>
                   </div>
-                  <p className="mt-1 text-sm text-gray-500 line-clamp-2">{announcement.content}</p>
+                  <p className="mt-1 text-sm text-gray-500 line-clamp-2">{getContentExcerpt(announcement.content, announcement.content_format)}</p>
                 </div>
               </Link>
             ))
           ) : (
             <div className="px-6 py-4 text-center">
               <p className="text-sm text-gray-500">No recent announcements</p>
-              <Link
-                to="/announcements/new"
-                className="mt-2 inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500"
-              >
-                Create an announcement
-              </Link>
+              {activeCourse && canManageCourse() && (
+                <Link
+                  to="/announcements/new"
+                  className="mt-2 inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500"
+                >
+                  Create an announcement
+                </Link>
+              )}
             </div>
           )}
         </div>
       </div>
+
+      {/* Tags */}
+      <TagCloud />
     </div>
   );
 };
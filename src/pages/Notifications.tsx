@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../context/NotificationContext';
+import { toast } from 'react-toastify';
+import { Bell, CheckCheck, Settings } from 'lucide-react';
+import { PAGE_SIZE, getCursorFilter } from '../lib/pagination';
+import type { SortOption } from '../lib/pagination';
+import usePaginatedList from '../hooks/usePaginatedList';
+import type { PageLoader } from '../hooks/usePaginatedList';
+import ListFooter from '../components/ListFooter';
+import NotificationItem from '../components/NotificationItem';
+import type { UserNotification } from '../lib/supabase';
+
+type NotificationFilter = 'all' | 'unread';
+
+const newestFirst: SortOption<'newest'> = { value: 'newest', label: 'Newest first', column: 'created_at', ascending: false };
+
+const NotificationsPage: React.FC = () => {
+  const { user } = useAuth();
+  const { unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const navigate = useNavigate();
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+
+  const loadNotifications: PageLoader<UserNotification> = async (last) => {
+    let query = supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', user?.id);
+
+    if (filter === 'unread') query = query.is('read_at', null);
+    if (last) query = query.or(getCursorFilter(newestFirst, last));
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (error) throw error;
+
+    return data || [];
+  };
+
+  const {
+    items: notifications,
+    setItems: setNotifications,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMoreFailed,
+    error,
+    loadMore,
+    sentinelRef,
+  } = usePaginatedList(loadNotifications, JSON.stringify([user?.id, filter]));
+
+  const handleOpen = async (notification: UserNotification) => {
+    if (notification.link) navigate(notification.link);
+    if (notification.read_at) return;
+
+    try {
+      await markAsRead([notification.id]);
+
+      const readAt = new Date().toISOString();
+      setNotifications((current) =>
+        current.map((item) => (item.id === notification.id ? { ...item, read_at: readAt } : item))
+      );
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await markAllAsRead();
+
+      const readAt = new Date().toISOString();
+      setNotifications(notifications.map((notification) => ({ ...notification, read_at: notification.read_at ?? readAt })));
+      toast.success('All notifications marked as read');
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="bg-red-50 p-4 rounded-md">
+        <p className="text-red-700">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Notifications</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex items-center space-x-2">
+          <Link
+            to="/profile"
+            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Settings className="h-4 w-4 mr-2" />
+            Preferences
+          </Link>
+          <button
+            onClick={handleMarkAllAsRead}
+            disabled={unreadCount === 0}
+            className="inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <CheckCheck className="h-4 w-4 mr-2" />
+            Mark all as read
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="border-b border-gray-200">
+          <nav className="-mb-px flex">
+            {(['all', 'unread'] as NotificationFilter[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`w-1/2 py-4 px-1 text-center border-b-2 font-medium text-sm capitalize ${
+                  filter === value
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {value}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : notifications.length > 0 ? (
+          <ul className="divide-y divide-gray-100">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <NotificationItem notification={notification} onOpen={handleOpen} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center py-12">
+            <Bell className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              {filter === 'unread' ? 'No unread notifications' : 'No notifications yet'}
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              New announcements, comments, assignments and grades show up here.
+            </p>
+          </div>
+        )}
+        {!loading && (
+          <ListFooter
+            sentinelRef={sentinelRef}
+            hasMore={hasMore}
+            loadingMore={loadingMore}
+            loadMoreFailed={loadMoreFailed}
+            onRetry={loadMore}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationsPage;
@@ -4,6 +4,8 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
 import { toast } from 'react-toastify';
 import { User } from 'lucide-react';
+import NotificationPreferences from '../components/NotificationPreferences';
+import EmailPreferences from '../components/EmailPreferences';
 import type { Profile } from '../lib/supabase';
 
 type ProfileFormData = {
@@ -14,7 +16,7 @@ type ProfileFormData = {
 };
 
 const ProfilePage: React.FC = () => {
-  const { user } = useAuth();
+  const { user, refreshProfile } = useAuth();
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const [profile, setProfile] = useState<Profile | null>(null);
@@ -80,6 +82,7 @@ const ProfilePage: React.FC = () => {
         last_name: data.last_name,
         avatar_url: data.avatar_url,
       });
+      await refreshProfile();
       
       toast.success('Profile updated successfully');
     } catch (error: any) {
@@ -209,6 +212,16 @@ const ProfilePage: React.FC = () => {
               </p>
             </div>
 
+            <div>
+              <span className="block text-sm font-medium text-gray-700">Role</span>
+              <span className="mt-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
+                {profile.role}
+              </span>
+              <p className="mt-1 text-xs text-gray-500">
+                Roles are assigned by an administrator.
+              </p>
+            </div>
+
             <div>
               <label htmlFor="avatar_url" className="block text-sm font-medium text-gray-700">
                 Avatar URL
@@ -263,6 +276,10 @@ const ProfilePage: React.FC = () => {
           </form>
         </div>
       </div>
+
+      <NotificationPreferences />
+
+      <EmailPreferences />
     </div>
   );
 };
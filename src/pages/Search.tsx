@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { toast } from 'react-toastify';
+import { formatDistanceToNow } from 'date-fns';
+import { Search as SearchIcon, Filter, BookOpen, Bell, FileText, MessageSquare, Paperclip, X } from 'lucide-react';
+import { getSearchResultPath, searchContent, searchEntityTypes, splitHighlights, SEARCH_RESULT_LIMIT } from '../lib/search';
+import { stripMentions } from '../lib/comments';
+import type { Category, SearchEntityType, SearchResult } from '../lib/supabase';
+
+const entityIcons: Record<SearchEntityType, React.ReactNode> = {
+  note: <BookOpen className="h-5 w-5 text-gray-400" />,
+  announcement: <Bell className="h-5 w-5 text-gray-400" />,
+  assignment: <FileText className="h-5 w-5 text-gray-400" />,
+  comment: <MessageSquare className="h-5 w-5 text-gray-400" />,
+};
+
+const Search: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const type = (searchParams.get('type') || '') as SearchEntityType | '';
+  const categoryId = searchParams.get('category') || '';
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+
+  const [searchTerm, setSearchTerm] = useState(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('categories')
+          .select('*')
+          .order('name');
+
+        if (error) throw error;
+
+        setCategories(data || []);
+      } catch (error) {
+        console.error('Error fetching categories:', error);
+      }
+    };
+
+    fetchCategories();
+  }, []);
+
+  useEffect(() => {
+    setSearchTerm(query);
+  }, [query]);
+
+  useEffect(() => {
+    const runSearch = async () => {
+      if (!query.trim()) {
+        setResults([]);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setResults(await searchContent(query, {
+          types: type ? [type] : undefined,
+          categoryId,
+          from,
+          to,
+        }));
+      } catch (error) {
+        console.error('Error searching:', error);
+        toast.error('Search failed');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    runSearch();
+  }, [query, type, categoryId, from, to]);
+
+  const updateParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParam('q', searchTerm.trim());
+  };
+
+  const clearFilters = () => {
+    setSearchParams(query ? { q: query } : {});
+  };
+
+  const hasFilters = Boolean(type || categoryId || from || to);
+  const groups = searchEntityTypes
+    .map((entity) => ({
+      ...entity,
+      results: results.filter((result) => result.entity_type === entity.value),
+    }))
+    .filter((group) => group.results.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Search</h1>
+        <p className="mt-1 text-sm text-gray-500">Find notes, announcements, assignments and comments</p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <form onSubmit={handleSubmit} className="p-4 border-b border-gray-200">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <SearchIcon className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="search"
+              placeholder='Search... (use "quotes" for phrases, -word to exclude)'
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+        </form>
+
+        <div className="p-4 bg-gray-50 flex flex-col lg:flex-row lg:items-center gap-3">
+          <Filter className="hidden lg:block h-5 w-5 text-gray-400" />
+          <select
+            value={type}
+            onChange={(e) => updateParam('type', e.target.value)}
+            className="block pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          >
+            <option value="">Everything</option>
+            {searchEntityTypes.map((entity) => (
+              <option key={entity.value} value={entity.value}>
+                {entity.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={categoryId}
+            onChange={(e) => updateParam('category', e.target.value)}
+            className="block pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          >
+            <option value="">All Categories</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name} ({category.type})
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <label htmlFor="search-from">From</label>
+            <input
+              id="search-from"
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => updateParam('from', e.target.value)}
+              className="block rounded-md border-gray-300 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <label htmlFor="search-to">to</label>
+            <input
+              id="search-to"
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => updateParam('to', e.target.value)}
+              className="block rounded-md border-gray-300 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : !query.trim() ? (
+        <div className="text-center py-12">
+          <SearchIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">Enter a search term to get started.</p>
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="text-center py-12">
+          <SearchIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No results</h3>
+          <p className="mt-1 text-sm text-gray-500">Nothing matches "{query}"{hasFilters && ' with the selected filters'}.</p>
+        </div>
+      ) : (
+        groups.map((group) => (
+          <div key={group.value} className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+              <h2 className="text-sm font-medium text-gray-900 flex items-center">
+                {entityIcons[group.value]}
+                <span className="ml-2">{group.label}</span>
+              </h2>
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                {group.results.length === SEARCH_RESULT_LIMIT ? `Top ${SEARCH_RESULT_LIMIT}` : group.results.length}
+              </span>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {group.results.map((result) => (
+                <li key={`${result.id}-${result.attachment_id || ''}`} className="hover:bg-gray-50">
+                  <Link to={getSearchResultPath(result)} className="block px-4 py-4 sm:px-6">
+                    <p className="text-sm font-medium text-blue-600 truncate">
+                      {result.entity_type === 'comment' ? `Comment on ${result.title}` : result.title}
+                    </p>
+                    {result.attachment_name && (
+                      <p className="mt-1 flex items-center text-xs text-gray-500">
+                        <Paperclip className="mr-1 h-3.5 w-3.5 text-gray-400" />
+                        Matched in attachment <span className="ml-1 font-medium text-gray-700 truncate">{result.attachment_name}</span>
+                      </p>
+                    )}
+                    <p className="mt-1 text-sm text-gray-600 line-clamp-3">
+                      {splitHighlights(result.entity_type === 'comment' ? stripMentions(result.snippet) : result.snippet).map((part, index) =>
+                        part.match ? (
+                          <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">{part.text}</mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        )
+                      )}
+                    </p>
+                    <div className="mt-2 flex items-center text-xs text-gray-500 space-x-4">
+                      {result.category_name && (
+                        <span className="flex items-center">
+                          <BookOpen className="mr-1.5 h-4 w-4 text-gray-400" />
+                          {result.category_name}
+                        </span>
+                      )}
+                      <span>Updated {formatDistanceToNow(new Date(result.updated_at), { addSuffix: true })}</span>
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default Search;
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../context/AuthContext';
+import { toast } from 'react-toastify';
+import { Search, Shield } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { Profile, UserRole } from '../../lib/supabase';
+
+const roleLabels: Record<UserRole, string> = {
+  student: 'Student',
+  instructor: 'Instructor',
+  admin: 'Admin',
+};
+
+const roleBadgeColors: Record<UserRole, string> = {
+  student: 'bg-gray-100 text-gray-800',
+  instructor: 'bg-green-100 text-green-800',
+  admin: 'bg-purple-100 text-purple-800',
+};
+
+const Users: React.FC = () => {
+  const { user } = useAuth();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserRole | 'all'>('all');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      try {
+        setLoading(true);
+
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('*')
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        setProfiles(data || []);
+      } catch (error) {
+        console.error('Error fetching users:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        setError(message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfiles();
+  }, []);
+
+  const handleRoleChange = async (profileId: string, role: UserRole) => {
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          role,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', profileId);
+
+      if (error) throw error;
+
+      setProfiles(profiles.map((profile) => (profile.id === profileId ? { ...profile, role } : profile)));
+      toast.success('Role updated successfully');
+    } catch (error) {
+      console.error('Error updating role:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update role';
+      toast.error(message);
+    }
+  };
+
+  const filteredProfiles = profiles.filter((profile) => {
+    const name = `${profile.first_name || ''} ${profile.last_name || ''}`.toLowerCase();
+    const matchesSearch =
+      name.includes(searchTerm.toLowerCase()) ||
+      profile.email.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesRole = roleFilter === 'all' || profile.role === roleFilter;
+    return matchesSearch && matchesRole;
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 p-4 rounded-md">
+        <h3 className="text-sm font-medium text-red-800">Error loading users</h3>
+        <div className="mt-2 text-sm text-red-700">
+          <p>{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+        <p className="mt-1 text-sm text-gray-500">Manage who can author assignments and moderate announcements</p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="p-4 border-b border-gray-200 bg-gray-50 sm:flex sm:items-center sm:justify-between">
+          <div className="relative flex-1 max-w-md">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search by name or email..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div className="mt-3 sm:mt-0 sm:ml-4">
+            <select
+              value={roleFilter}
+              onChange={(e) => setRoleFilter(e.target.value as UserRole | 'all')}
+              className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="all">All Roles</option>
+              {Object.entries(roleLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {filteredProfiles.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {filteredProfiles.map((profile) => (
+              <li key={profile.id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <img
+                    src={profile.avatar_url || `https://ui-avatars.com/api/?name=${profile.first_name}+${profile.last_name}&background=random`}
+                    alt={`${profile.first_name} ${profile.last_name}`}
+                    className="h-10 w-10 rounded-full mr-3"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {profile.first_name} {profile.last_name}
+                      <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${roleBadgeColors[profile.role]}`}>
+                        {roleLabels[profile.role]}
+                      </span>
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {profile.email} · Joined {formatDistanceToNow(new Date(profile.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+                <div className="ml-4 flex items-center">
+                  <Shield className="h-4 w-4 mr-2 text-gray-400" />
+                  <select
+                    value={profile.role}
+                    disabled={profile.id === user?.id}
+                    onChange={(e) => handleRoleChange(profile.id, e.target.value as UserRole)}
+                    className="block rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                    title={profile.id === user?.id ? 'You cannot change your own role' : 'Change role'}
+                  >
+                    {Object.entries(roleLabels).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center py-12">
+            <Shield className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No users found</h3>
+            <p className="mt-1 text-sm text-gray-500">No users match your search criteria.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Users;
@@ -1,60 +1,64 @@
 import React, { useEffect, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
+import { useCourse } from '../../context/CourseContext';
+import { getCourseLabel } from '../../lib/courses';
+import { syncAttachments, toFileInfos } from '../../lib/attachments';
+import { getTagNames, syncTags } from '../../lib/tags';
+import useAttachmentUploads from '../../hooks/useAttachmentUploads';
 import { toast } from 'react-toastify';
-import { ArrowLeft, Upload, X, FileText, File as FileIcon, Image as ImageIcon, Video as VideoIcon, Music, FileArchive } from 'lucide-react';
-import type { Category } from '../../lib/supabase';
+import { ArrowLeft } from 'lucide-react';
+import AttachmentUploader from '../../components/AttachmentUploader';
+import TagInput from '../../components/TagInput';
+import ContentEditor from '../../components/ContentEditor';
+import type { Announcement, Category, ContentFormat } from '../../lib/supabase';
 
 type AnnouncementFormData = {
   title: string;
   content: string;
+  content_format: ContentFormat;
   category_id: string;
 };
 
-type FileInfo = {
-  url: string;
-  name: string;
-  type: string;
-  size: number;
-};
-
 const AnnouncementForm: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const isEditing = Boolean(id);
   const { user } = useAuth();
+  const { activeCourse, canManageCourse, loading: coursesLoading } = useCourse();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
   const [initialLoading, setInitialLoading] = useState(isEditing);
-  const [uploadedFile, setUploadedFile] = useState<FileInfo | null>(null);
-  const [uploading, setUploading] = useState(false);
+  // Author and course of the announcement being edited, which need not be the active course
+  const [editing, setEditing] = useState<Pick<Announcement, 'user_id' | 'course_id'> | null>(null);
+  const {
+    files: uploadedFiles,
+    setFiles: setUploadedFiles,
+    removedFiles,
+    uploads,
+    uploading,
+    maxSize,
+    uploadFiles,
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    removeFile,
+  } = useAttachmentUploads('announcement_id');
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
-  } = useForm<AnnouncementFormData>();
-
-  // Helper function to get file icon
-  const getFileIcon = (fileType: string) => {
-    if (fileType.startsWith('image/')) return <ImageIcon className="h-5 w-5" />;
-    if (fileType.startsWith('video/')) return <VideoIcon className="h-5 w-5" />;
-    if (fileType.startsWith('audio/')) return <Music className="h-5 w-5" />;
-    if (fileType === 'application/pdf') return <FileText className="h-5 w-5" />;
-    if (fileType.includes('zip') || fileType.includes('rar') || fileType.includes('7z')) return <FileArchive className="h-5 w-5" />;
-    return <FileIcon className="h-5 w-5" />;
-  };
-
-  // Helper function to format file size
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
-  };
+    watch,
+    setValue,
+  } = useForm<AnnouncementFormData>({
+    defaultValues: { content_format: 'markdown' },
+  });
+  const content = watch('content') || '';
+  const contentFormat = watch('content_format');
 
   useEffect(() => {
     const fetchCategories = async () => {
@@ -80,9 +84,8 @@ const AnnouncementForm: React.FC = () => {
         setInitialLoading(true);
         const { data, error } = await supabase
           .from('announcements')
-          .select('*')
+          .select('*, attachments(*), tags(*)')
           .eq('id', id)
-          .eq('user_id', user?.id)
           .single();
 
         if (error) throw error;
@@ -98,18 +101,13 @@ const AnnouncementForm: React.FC = () => {
         reset({
           title: data.title,
           content: data.content,
+          content_format: data.content_format,
           category_id: data.category_id || '',
         });
 
-        // Load file info if exists
-        if (data.file_url && data.file_name) {
-          setUploadedFile({
-            url: data.file_url,
-            name: data.file_name,
-            type: data.file_type || '',
-            size: data.file_size || 0,
-          });
-        }
+        setUploadedFiles(toFileInfos(data.attachments));
+        setTags(getTagNames(data.tags));
+        setEditing({ user_id: data.user_id, course_id: data.course_id });
       } catch (error) {
         console.error('Error fetching announcement:', error);
         toast.error('Failed to load announcement');
@@ -123,97 +121,7 @@ const AnnouncementForm: React.FC = () => {
     if (isEditing) {
       fetchAnnouncement();
     }
-  }, [id, user, navigate, reset, isEditing]);
-
-  // Handle file upload
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    // Check file size (max 50MB)
-    const maxSize = 50 * 1024 * 1024;
-    if (file.size > maxSize) {
-      toast.error('File size must be less than 50MB');
-      return;
-    }
-
-    try {
-      setUploading(true);
-      
-      // Create a unique file name
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${user?.id}/${Date.now()}.${fileExt}`;
-      
-      // Upload file to Supabase Storage
-      const { error: uploadError } = await supabase.storage
-        .from('attachments')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('attachments')
-        .getPublicUrl(fileName);
-
-      setUploadedFile({
-        url: publicUrl,
-        name: file.name,
-        type: file.type,
-        size: file.size,
-      });
-
-      toast.success('File uploaded successfully');
-    } catch (error) {
-      console.error('Error uploading file:', error);
-      
-      // Provide more specific error messages
-      let errorMessage = 'Failed to upload file';
-      
-      if (error instanceof Error) {
-        if (error.message.includes('bucket') || error.message.includes('not found')) {
-          errorMessage = 'Storage bucket not found. Please set up storage in Supabase dashboard first. See SETUP_STORAGE.md for instructions.';
-        } else if (error.message.includes('permission') || error.message.includes('policy')) {
-          errorMessage = 'Permission denied. Please check storage policies in Supabase dashboard.';
-        } else if (error.message.includes('size')) {
-          errorMessage = 'File is too large. Maximum size is 50MB.';
-        } else {
-          errorMessage = `Upload failed: ${error.message}`;
-        }
-      }
-      
-      toast.error(errorMessage, { autoClose: 8000 });
-    } finally {
-      setUploading(false);
-    }
-  };
-
-  // Handle file removal
-  const handleFileRemove = async () => {
-    if (!uploadedFile) return;
-
-    try {
-      // Extract file path from URL
-      const urlParts = uploadedFile.url.split('/');
-      const fileName = urlParts.slice(-2).join('/'); // Get user_id/filename
-
-      // Delete from storage
-      const { error } = await supabase.storage
-        .from('attachments')
-        .remove([fileName]);
-
-      if (error) throw error;
-
-      setUploadedFile(null);
-      toast.success('File removed successfully');
-    } catch (error) {
-      console.error('Error removing file:', error);
-      toast.error('Failed to remove file');
-    }
-  };
+  }, [id, user, navigate, reset, isEditing, setUploadedFiles]);
 
   const onSubmit = async (data: AnnouncementFormData) => {
     try {
@@ -226,34 +134,38 @@ const AnnouncementForm: React.FC = () => {
           .update({
             title: data.title,
             content: data.content,
+            content_format: data.content_format,
             category_id: data.category_id || null,
-            file_url: uploadedFile?.url || null,
-            file_name: uploadedFile?.name || null,
-            file_type: uploadedFile?.type || null,
-            file_size: uploadedFile?.size || null,
             updated_at: new Date().toISOString(),
           })
-          .eq('id', id)
-          .eq('user_id', user?.id);
+          .eq('id', id);
 
         if (error) throw error;
 
+        await syncAttachments('announcement_id', id!, user?.id, uploadedFiles, removedFiles);
+        await syncTags('announcement_id', id!, user?.id, tags);
+
         toast.success('Announcement updated successfully');
       } else {
         // Create new announcement
-        const { error } = await supabase.from('announcements').insert({
-          title: data.title,
-          content: data.content,
-          category_id: data.category_id || null,
-          file_url: uploadedFile?.url || null,
-          file_name: uploadedFile?.name || null,
-          file_type: uploadedFile?.type || null,
-          file_size: uploadedFile?.size || null,
-          user_id: user?.id,
-        });
+        const { data: announcement, error } = await supabase
+          .from('announcements')
+          .insert({
+            title: data.title,
+            content: data.content,
+            content_format: data.content_format,
+            category_id: data.category_id || null,
+            course_id: activeCourse?.id,
+            user_id: user?.id,
+          })
+          .select()
+          .single();
 
         if (error) throw error;
 
+        await syncAttachments('announcement_id', announcement.id, user?.id, uploadedFiles, removedFiles);
+        await syncTags('announcement_id', announcement.id, user?.id, tags);
+
         toast.success('Announcement created successfully');
       }
 
@@ -267,7 +179,7 @@ const AnnouncementForm: React.FC = () => {
     }
   };
 
-  if (initialLoading) {
+  if (initialLoading || coursesLoading) {
     return (
       <div className="flex items-center justify-center h-full">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
@@ -275,6 +187,10 @@ const AnnouncementForm: React.FC = () => {
     );
   }
 
+  if (editing && editing.user_id !== user?.id && !canManageCourse(editing.course_id)) {
+    return <Navigate to={`/announcements/${id}`} replace />;
+  }
+
   return (
     <div>
       <div className="mb-6">
@@ -288,6 +204,9 @@ const AnnouncementForm: React.FC = () => {
         <h1 className="mt-2 text-2xl font-bold text-gray-900">
           {isEditing ? 'Edit Announcement' : 'Create New Announcement'}
         </h1>
+        {!isEditing && activeCourse && (
+          <p className="mt-1 text-sm text-gray-500">For {getCourseLabel(activeCourse)}</p>
+        )}
       </div>
 
       <div className="bg-white shadow rounded-lg overflow-hidden">
@@ -337,89 +256,36 @@ const AnnouncementForm: React.FC = () => {
 
           <div>
             <label
-              htmlFor="content"
+              htmlFor="tags"
               className="block text-sm font-medium text-gray-700"
             >
-              Content
+              Tags
             </label>
-            <textarea
-              id="content"
-              rows={10}
-              {...register('content', { required: 'Content is required' })}
-              className={`mt-1 block w-full rounded-md shadow-sm ${
-                errors.content ? 'border-red-300' : 'border-gray-300'
-              } focus:border-blue-500 focus:ring-blue-500`}
-            ></textarea>
-            {errors.content && (
-              <p className="mt-1 text-sm text-red-600">
-                {errors.content.message}
-              </p>
-            )}
+            <div className="mt-1">
+              <TagInput id="tags" value={tags} onChange={setTags} />
+            </div>
           </div>
 
-          {/* File Upload Section */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Attachment (Optional)
-            </label>
-            
-            {!uploadedFile ? (
-              <div className="flex items-center justify-center w-full">
-                <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100">
-                  <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                    <Upload className="w-8 h-8 mb-2 text-gray-500" />
-                    <p className="mb-2 text-sm text-gray-500">
-                      <span className="font-semibold">Click to upload</span> or drag and drop
-                    </p>
-                    <p className="text-xs text-gray-500">
-                      All file types supported (Images, Videos, Audio, PDFs, Documents, etc.) - Max 50MB
-                    </p>
-                  </div>
-                  <input
-                    type="file"
-                    className="hidden"
-                    onChange={handleFileUpload}
-                    disabled={uploading}
-                    accept="*/*"
-                  />
-                </label>
-              </div>
-            ) : (
-              <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-300">
-                <div className="flex items-center space-x-3">
-                  <div className="text-blue-600">
-                    {getFileIcon(uploadedFile.type)}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-gray-900 truncate">
-                      {uploadedFile.name}
-                    </p>
-                    <p className="text-xs text-gray-500">
-                      {formatFileSize(uploadedFile.size)}
-                    </p>
-                  </div>
-                </div>
-                <button
-                  type="button"
-                  onClick={handleFileRemove}
-                  className="ml-4 text-red-600 hover:text-red-800"
-                  title="Remove file"
-                >
-                  <X className="h-5 w-5" />
-                </button>
-              </div>
-            )}
-
-            {uploading && (
-              <div className="mt-2 flex items-center text-sm text-blue-600">
-                <svg className="animate-spin h-4 w-4 mr-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Uploading...
-              </div>
-            )}
-          </div>
+          <ContentEditor
+            id="content"
+            label="Content"
+            value={content}
+            format={contentFormat}
+            onFormatChange={(format) => setValue('content_format', format)}
+            registration={register('content', { required: 'Content is required' })}
+            error={errors.content?.message}
+          />
+
+          <AttachmentUploader
+            files={uploadedFiles}
+            uploads={uploads}
+            maxSize={maxSize}
+            onUpload={uploadFiles}
+            onRemove={removeFile}
+            onPause={pauseUpload}
+            onResume={resumeUpload}
+            onCancel={cancelUpload}
+          />
 
           <div className="flex justify-end">
             <button
@@ -431,7 +297,7 @@ const AnnouncementForm: React.FC = () => {
             </button>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || uploading}
               className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
             >
               {loading ? (
@@ -1,9 +1,22 @@
 import React, { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
+import { useCourse } from '../../context/CourseContext';
 import { formatDistanceToNow } from 'date-fns';
-import { Plus, Search, Filter, Trash2, Edit, Bell, MessageCircle } from 'lucide-react';
+import { Plus, Search, Filter, Trash2, Edit, Bell, MessageCircle, ArrowUp } from 'lucide-react';
+import { getContentExcerpt } from '../../lib/markdown';
+import { PAGE_SIZE, dateRanges, getCursorFilter, getRangeStart, getSearchFilter } from '../../lib/pagination';
+import type { DateRange, SortOption } from '../../lib/pagination';
+import usePaginatedList from '../../hooks/usePaginatedList';
+import type { PageLoader } from '../../hooks/usePaginatedList';
+import useDebouncedValue from '../../hooks/useDebouncedValue';
+import ListFooter from '../../components/ListFooter';
+import NoCourseNotice from '../../components/NoCourseNotice';
+import TagChips from '../../components/TagChips';
+import TagFilter from '../../components/TagFilter';
+import { getTagNames } from '../../lib/tags';
+import type { TagMatch } from '../../lib/tags';
 import type { Announcement, Category, Profile } from '../../lib/supabase';
 
 type AnnouncementWithExtras = Announcement & {
@@ -14,72 +27,154 @@ type AnnouncementWithExtras = Announcement & {
   };
 };
 
+type AnnouncementSort = 'newest' | 'oldest';
+
+const announcementSorts: SortOption<AnnouncementSort>[] = [
+  { value: 'newest', label: 'Newest first', column: 'created_at', ascending: false },
+  { value: 'oldest', label: 'Oldest first', column: 'created_at', ascending: true },
+];
+
 const Announcements: React.FC = () => {
   const { user } = useAuth();
-  const [announcements, setAnnouncements] = useState<AnnouncementWithExtras[]>([]);
+  const { activeCourse, canManageCourse } = useCourse();
+  const canModerate = canManageCourse();
   const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange>('');
+  const [sortBy, setSortBy] = useState<AnnouncementSort>('newest');
+  // The dashboard tag cloud links here with ?tag=
+  const [searchParams] = useSearchParams();
+  const [tagFilter, setTagFilter] = useState<string[]>(() => searchParams.getAll('tag'));
+  const [tagMatch, setTagMatch] = useState<TagMatch>('all');
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  // Announcements posted by others since the list loaded
+  const [newAnnouncementIds, setNewAnnouncementIds] = useState<string[]>([]);
+  const search = useDebouncedValue(searchTerm.trim());
 
   useEffect(() => {
-    const fetchAnnouncements = async () => {
+    const fetchCategories = async () => {
       try {
-        setLoading(true);
-        
-        // Fetch categories
-        const { data: categoriesData, error: categoriesError } = await supabase
+        const { data, error } = await supabase
           .from('categories')
           .select('*')
           .eq('type', 'announcement');
         
-        if (categoriesError) throw categoriesError;
-        
-        // Fetch announcements with user and category information
-        const { data: announcementsData, error: announcementsError } = await supabase
-          .from('announcements')
-          .select(`
-            *,
-            user:profiles(*),
-            category:categories(*)
-          `)
-          .order('created_at', { ascending: false });
+        if (error) throw error;
         
-        if (announcementsError) throw announcementsError;
-        
-        // Fetch comment counts for each announcement
-        const announcementsWithCommentCounts = await Promise.all(
-          (announcementsData || []).map(async (announcement) => {
-            const { count, error: countError } = await supabase
-              .from('comments')
-              .select('*', { count: 'exact', head: true })
-              .eq('announcement_id', announcement.id);
-            
-            if (countError) throw countError;
-            
-            return {
-              ...announcement,
-              _count: {
-                comments: count || 0,
-              },
-            };
-          })
-        );
-        
-        setCategories(categoriesData || []);
-        setAnnouncements(announcementsWithCommentCounts || []);
-      } catch (error: any) {
-        console.error('Error fetching announcements:', error);
-        setError(error.message);
-      } finally {
-        setLoading(false);
+        setCategories(data || []);
+      } catch (error) {
+        console.error('Error fetching categories:', error);
       }
     };
     
-    fetchAnnouncements();
+    fetchCategories();
   }, []);
 
+  const loadAnnouncements: PageLoader<AnnouncementWithExtras> = async (last) => {
+    if (!activeCourse) return [];
+
+    const sort = announcementSorts.find((option) => option.value === sortBy) || announcementSorts[0];
+
+    // Comment counts are aggregated in the same query
+    let query = supabase
+      .from('announcements')
+      .select(`
+        *,
+        user:profiles(*),
+        category:categories(*),
+        tags(*),
+        comments(count)
+      `)
+      .eq('course_id', activeCourse.id);
+
+    if (selectedCategory) query = query.eq('category_id', selectedCategory);
+
+    const since = getRangeStart(dateRange);
+    if (since) query = query.gte('created_at', since);
+
+    if (tagFilter.length > 0) {
+      query = tagMatch === 'all'
+        ? query.contains('tag_names', tagFilter)
+        : query.overlaps('tag_names', tagFilter);
+    }
+
+    if (search) query = query.or(getSearchFilter(['title', 'content'], search));
+    if (last) query = query.or(getCursorFilter(sort, last));
+
+    const { data, error } = await query
+      .order(sort.column, { ascending: sort.ascending })
+      .order('id', { ascending: sort.ascending })
+      .limit(PAGE_SIZE);
+
+    if (error) throw error;
+
+    return (data || []).map(({ comments, ...announcement }) => ({
+      ...announcement,
+      _count: {
+        comments: comments?.[0]?.count || 0,
+      },
+    }));
+  };
+
+  const resetKey = JSON.stringify([activeCourse?.id, selectedCategory, tagFilter, tagMatch, dateRange, sortBy, search]);
+
+  const {
+    items: announcements,
+    setItems: setAnnouncements,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMoreFailed,
+    error: loadError,
+    loadMore,
+    reload,
+    sentinelRef,
+  } = usePaginatedList(loadAnnouncements, resetKey);
+
+  // A reloaded list already includes them
+  useEffect(() => {
+    setNewAnnouncementIds([]);
+  }, [resetKey]);
+
+  useEffect(() => {
+    if (!activeCourse) return;
+
+    const channel = supabase
+      .channel(`announcements:${activeCourse.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'announcements', filter: `course_id=eq.${activeCourse.id}` },
+        ({ new: row }) => {
+          if (row.user_id === user?.id) return;
+          setNewAnnouncementIds((current) => (current.includes(row.id) ? current : [...current, row.id]));
+        }
+      )
+      // Deletes can't be filtered and only carry the id
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'announcements' },
+        ({ old }) => {
+          setNewAnnouncementIds((current) => current.filter((announcementId) => announcementId !== old.id));
+          setAnnouncements((current) => current.filter((announcement) => announcement.id !== old.id));
+        }
+      )
+      .subscribe((status, error) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Error subscribing to announcements:', error);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activeCourse, user?.id, setAnnouncements]);
+
+  const showNewAnnouncements = () => {
+    setNewAnnouncementIds([]);
+    reload();
+  };
+
   const handleDeleteAnnouncement = async (id: string) => {
     if (!window.confirm('Are you sure you want to delete this announcement?')) {
       return;
@@ -89,32 +184,23 @@ const Announcements: React.FC = () => {
       const { error } = await supabase
         .from('announcements')
         .delete()
-        .eq('id', id)
-        .eq('user_id', user?.id);
+        .eq('id', id);
       
       if (error) throw error;
       
       setAnnouncements(announcements.filter(announcement => announcement.id !== id));
     } catch (error: any) {
       console.error('Error deleting announcement:', error);
-      setError(error.message);
+      setDeleteError(error.message);
     }
   };
 
-  const filteredAnnouncements = announcements.filter(announcement => {
-    const matchesSearch = announcement.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                          announcement.content.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = selectedCategory ? announcement.category_id === selectedCategory : true;
-    return matchesSearch && matchesCategory;
-  });
+  const toggleTagFilter = (name: string) => {
+    setTagFilter(tagFilter.includes(name) ? tagFilter.filter((tag) => tag !== name) : [...tagFilter, name]);
+  };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
-      </div>
-    );
-  }
+  const error = loadError || deleteError;
+  const hasFilters = Boolean(search || selectedCategory || dateRange || tagFilter.length > 0);
 
   if (error) {
     return (
@@ -145,6 +231,10 @@ const Announcements: React.FC = () => {
     );
   }
 
+  if (!activeCourse) {
+    return <NoCourseNotice content="announcements" />;
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
@@ -152,13 +242,15 @@ const Announcements: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Announcements</h1>
           <p className="mt-1 text-sm text-gray-500">View and manage class announcements</p>
         </div>
-        <Link
-          to="/announcements/new"
-          className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Announcement
-        </Link>
+        {canModerate && (
+          <Link
+            to="/announcements/new"
+            className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Announcement
+          </Link>
+        )}
       </div>
 
       <div className="bg-white shadow rounded-lg overflow-hidden">
@@ -176,8 +268,8 @@ const Announcements: React.FC = () => {
             />
           </div>
           <div className="mt-3 sm:mt-0 sm:ml-4">
-            <div className="flex items-center">
-              <Filter className="h-5 w-5 text-gray-400 mr-2" />
+            <div className="flex items-center space-x-2">
+              <Filter className="h-5 w-5 text-gray-400" />
               <select
                 value={selectedCategory || ''}
                 onChange={(e) => setSelectedCategory(e.target.value || null)}
@@ -190,80 +282,137 @@ const Announcements: React.FC = () => {
                   </option>
                 ))}
               </select>
+              <select
+                value={dateRange}
+                onChange={(e) => setDateRange(e.target.value as DateRange)}
+                aria-label="Posted"
+                className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              >
+                {dateRanges.map((range) => (
+                  <option key={range.value} value={range.value}>
+                    {range.value ? `Posted in the ${range.label.toLowerCase()}` : 'Posted any time'}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as AnnouncementSort)}
+                aria-label="Sort by"
+                className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              >
+                {announcementSorts.map((sort) => (
+                  <option key={sort.value} value={sort.value}>
+                    {sort.label}
+                  </option>
+                ))}
+              </select>
             </div>
           </div>
         </div>
+        <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+          <TagFilter value={tagFilter} onChange={setTagFilter} match={tagMatch} onMatchChange={setTagMatch} />
+        </div>
+        {newAnnouncementIds.length > 0 && (
+          <button
+            type="button"
+            onClick={showNewAnnouncements}
+            className="w-full flex items-center justify-center px-4 py-2 border-b border-blue-100 bg-blue-50 text-sm font-medium text-blue-700 hover:bg-blue-100"
+          >
+            <ArrowUp className="h-4 w-4 mr-2" />
+            {newAnnouncementIds.length} new {newAnnouncementIds.length === 1 ? 'announcement' : 'announcements'}
+          </button>
+        )}
 
-        {filteredAnnouncements.length > 0 ? (
-          <ul className="divide-y divide-gray-200">
-            {filteredAnnouncements.map((announcement) => (
-              <li key={announcement.id} className="hover:bg-gray-50">
-                <div className="px-4 py-4 sm:px-6">
-                  <div className="flex items-center justify-between">
-                    <Link to={`/announcements/${announcement.id}`} className="block flex-1">
-                      <p className="text-sm font-medium text-blue-600 truncate">{announcement.title}</p>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : announcements.length > 0 ? (
+          <>
+            <ul className="divide-y divide-gray-200">
+              {announcements.map((announcement) => (
+                <li key={announcement.id} className="hover:bg-gray-50">
+                  <div className="px-4 py-4 sm:px-6">
+                    <div className="flex items-center justify-between">
+                      <Link to={`/announcements/${announcement.id}`} className="block flex-1">
+                        <p className="text-sm font-medium text-blue-600 truncate">{announcement.title}</p>
+                        <div className="mt-2">
+                          <p className="text-sm text-gray-600 line-clamp-2">{getContentExcerpt(announcement.content, announcement.content_format)}</p>
+                        </div>
+                      </Link>
+                      {(user?.id === announcement.user_id || canModerate) && (
+                        <div className="ml-4 flex-shrink-0 flex">
+                          <Link
+                            to={`/announcements/${announcement.id}/edit`}
+                            className="mr-2 inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                          >
+                            <Edit className="h-4 w-4 mr-1" />
+                            Edit
+                          </Link>
+                          <button
+                            onClick={() => handleDeleteAnnouncement(announcement.id)}
+                            className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-red-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    {announcement.tags && announcement.tags.length > 0 && (
                       <div className="mt-2">
-                        <p className="text-sm text-gray-600 line-clamp-2">{announcement.content}</p>
-                      </div>
-                    </Link>
-                    {user?.id === announcement.user_id && (
-                      <div className="ml-4 flex-shrink-0 flex">
-                        <Link
-                          to={`/announcements/${announcement.id}/edit`}
-                          className="mr-2 inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                        >
-                          <Edit className="h-4 w-4 mr-1" />
-                          Edit
-                        </Link>
-                        <button
-                          onClick={() => handleDeleteAnnouncement(announcement.id)}
-                          className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-red-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
-                        >
-                          <Trash2 className="h-4 w-4 mr-1" />
-                          Delete
-                        </button>
+                        <TagChips names={getTagNames(announcement.tags)} selected={tagFilter} onSelect={toggleTagFilter} />
                       </div>
                     )}
-                  </div>
-                  <div className="mt-2 sm:flex sm:justify-between">
-                    <div className="sm:flex">
-                      <p className="flex items-center text-xs text-gray-500">
-                        <Bell className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
-                        {announcement.category?.name || 'Uncategorized'}
-                      </p>
-                      <p className="mt-2 flex items-center text-xs text-gray-500 sm:mt-0 sm:ml-6">
-                        <MessageCircle className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
-                        {announcement._count?.comments || 0} comments
-                      </p>
-                    </div>
-                    <div className="mt-2 flex items-center text-xs text-gray-500 sm:mt-0">
-                      <p>
-                        Posted by {announcement.user?.first_name} {announcement.user?.last_name} {formatDistanceToNow(new Date(announcement.created_at), { addSuffix: true })}
-                      </p>
+                    <div className="mt-2 sm:flex sm:justify-between">
+                      <div className="sm:flex">
+                        <p className="flex items-center text-xs text-gray-500">
+                          <Bell className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
+                          {announcement.category?.name || 'Uncategorized'}
+                        </p>
+                        <p className="mt-2 flex items-center text-xs text-gray-500 sm:mt-0 sm:ml-6">
+                          <MessageCircle className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
+                          {announcement._count?.comments || 0} comments
+                        </p>
+                      </div>
+                      <div className="mt-2 flex items-center text-xs text-gray-500 sm:mt-0">
+                        <p>
+                          Posted by {announcement.user?.first_name} {announcement.user?.last_name} {formatDistanceToNow(new Date(announcement.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
                     </div>
                   </div>
-                </div>
-              </li>
-            ))}
-          </ul>
+                </li>
+              ))}
+            </ul>
+            <ListFooter
+              sentinelRef={sentinelRef}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              loadMoreFailed={loadMoreFailed}
+              onRetry={loadMore}
+            />
+          </>
         ) : (
           <div className="text-center py-12">
             <Bell className="mx-auto h-12 w-12 text-gray-400" />
             <h3 className="mt-2 text-sm font-medium text-gray-900">No announcements found</h3>
             <p className="mt-1 text-sm text-gray-500">
-              {announcements.length === 0
-                ? "There are no announcements yet."
-                : "No announcements match your search criteria."}
+              {hasFilters
+                ? "No announcements match your search criteria."
+                : "There are no announcements yet."}
             </p>
-            <div className="mt-6">
-              <Link
-                to="/announcements/new"
-                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                New Announcement
-              </Link>
-            </div>
+            {canModerate && (
+              <div className="mt-6">
+                <Link
+                  to="/announcements/new"
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Announcement
+                </Link>
+              </div>
+            )}
           </div>
         )}
       </div>
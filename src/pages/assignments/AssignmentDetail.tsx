@@ -1,36 +1,49 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useParams, Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
+import { syncAttachments, toFileInfos } from '../../lib/attachments';
+import useAttachmentUploads from '../../hooks/useAttachmentUploads';
 import { useAuth } from '../../context/AuthContext';
+import { useCourse } from '../../context/CourseContext';
+import useSyncActiveCourse from '../../hooks/useSyncActiveCourse';
 import { toast } from 'react-toastify';
-import { ArrowLeft, Clock, FileText, Upload, Edit, Trash2, CheckCircle, X, File as FileIcon, Image as ImageIcon, Video as VideoIcon, Music, FileArchive, Download, ExternalLink } from 'lucide-react';
+import { ArrowLeft, Clock, FileText, Upload, Edit, Trash2, CheckCircle, Eye, EyeOff, ClipboardCheck, Award } from 'lucide-react';
 import { formatDistanceToNow, isPast, format } from 'date-fns';
 import { useForm } from 'react-hook-form';
+import RubricBreakdown from '../../components/RubricBreakdown';
+import AttachmentViewer from '../../components/AttachmentViewer';
+import AttachmentUploader from '../../components/AttachmentUploader';
 import type { Assignment, Submission } from '../../lib/supabase';
 
 type SubmissionFormData = {
   content: string;
 };
 
-type FileInfo = {
-  url: string;
-  name: string;
-  type: string;
-  size: number;
-};
-
 const AssignmentDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
+  const { canManageCourse } = useCourse();
   const navigate = useNavigate();
   const [assignment, setAssignment] = useState<Assignment | null>(null);
+  const isInstructor = assignment !== null && canManageCourse(assignment.course_id);
   const [submission, setSubmission] = useState<Submission | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
-  const [uploadedFile, setUploadedFile] = useState<FileInfo | null>(null);
-  const [uploading, setUploading] = useState(false);
+  const {
+    files: uploadedFiles,
+    setFiles: setUploadedFiles,
+    removedFiles,
+    uploads,
+    uploading,
+    maxSize,
+    uploadFiles,
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    removeFile,
+  } = useAttachmentUploads('submission_id');
   
   const {
     register,
@@ -39,37 +52,7 @@ const AssignmentDetail: React.FC = () => {
     formState: { errors },
   } = useForm<SubmissionFormData>();
 
-  // Helper function to get file icon
-  const getFileIcon = (fileType: string | null) => {
-    if (!fileType) return <FileIcon className="h-5 w-5" />;
-    if (fileType.startsWith('image/')) return <ImageIcon className="h-5 w-5" />;
-    if (fileType.startsWith('video/')) return <VideoIcon className="h-5 w-5" />;
-    if (fileType.startsWith('audio/')) return <Music className="h-5 w-5" />;
-    if (fileType === 'application/pdf') return <FileText className="h-5 w-5" />;
-    if (fileType.includes('zip') || fileType.includes('rar') || fileType.includes('7z')) return <FileArchive className="h-5 w-5" />;
-    return <FileIcon className="h-5 w-5" />;
-  };
-
-  // Helper function to format file size
-  const formatFileSize = (bytes: number | null) => {
-    if (!bytes || bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
-  };
-
-  // Check if file can be previewed in browser
-  const canPreviewInBrowser = (fileType: string | null) => {
-    if (!fileType) return false;
-    return (
-      fileType.startsWith('image/') ||
-      fileType.startsWith('video/') ||
-      fileType.startsWith('audio/') ||
-      fileType === 'application/pdf' ||
-      fileType === 'text/plain'
-    );
-  };
+  useSyncActiveCourse(assignment?.course_id);
 
   useEffect(() => {
     const fetchAssignmentAndSubmission = async () => {
@@ -79,7 +62,7 @@ const AssignmentDetail: React.FC = () => {
         // Fetch assignment
         const { data: assignmentData, error: assignmentError } = await supabase
           .from('assignments')
-          .select('*')
+          .select('*, attachments(*)')
           .eq('id', id)
           .single();
         
@@ -88,7 +71,7 @@ const AssignmentDetail: React.FC = () => {
         // Fetch user's submission for this assignment
         const { data: submissionData, error: submissionError } = await supabase
           .from('submissions')
-          .select('*')
+          .select('*, attachments(*), grade:submission_grades(*)')
           .eq('assignment_id', id)
           .eq('user_id', user?.id)
           .maybeSingle();
@@ -102,15 +85,7 @@ const AssignmentDetail: React.FC = () => {
           reset({
             content: submissionData.content,
           });
-          // Load file info if exists
-          if (submissionData.file_url && submissionData.file_name) {
-            setUploadedFile({
-              url: submissionData.file_url,
-              name: submissionData.file_name,
-              type: submissionData.file_type || '',
-              size: submissionData.file_size || 0,
-            });
-          }
+          setUploadedFiles(toFileInfos(submissionData.attachments));
         }
       } catch (error) {
         console.error('Error fetching assignment details:', error);
@@ -122,96 +97,20 @@ const AssignmentDetail: React.FC = () => {
     };
     
     fetchAssignmentAndSubmission();
-  }, [id, user, reset]);
-
-  // Handle file upload
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    // Check file size (max 50MB)
-    const maxSize = 50 * 1024 * 1024;
-    if (file.size > maxSize) {
-      toast.error('File size must be less than 50MB');
-      return;
-    }
-
-    try {
-      setUploading(true);
-      
-      // Create a unique file name
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${user?.id}/${Date.now()}.${fileExt}`;
-      
-      // Upload file to Supabase Storage
-      const { error: uploadError } = await supabase.storage
-        .from('attachments')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('attachments')
-        .getPublicUrl(fileName);
-
-      setUploadedFile({
-        url: publicUrl,
-        name: file.name,
-        type: file.type,
-        size: file.size,
-      });
-
-      toast.success('File uploaded successfully');
-    } catch (error) {
-      console.error('Error uploading file:', error);
-      
-      // Provide more specific error messages
-      let errorMessage = 'Failed to upload file';
-      
-      if (error instanceof Error) {
-        if (error.message.includes('bucket') || error.message.includes('not found')) {
-          errorMessage = 'Storage bucket not found. Please set up storage in Supabase dashboard first. See SETUP_STORAGE.md for instructions.';
-        } else if (error.message.includes('permission') || error.message.includes('policy')) {
-          errorMessage = 'Permission denied. Please check storage policies in Supabase dashboard.';
-        } else if (error.message.includes('size')) {
-          errorMessage = 'File is too large. Maximum size is 50MB.';
-        } else {
-          errorMessage = `Upload failed: ${error.message}`;
-        }
-      }
-      
-      toast.error(errorMessage, { autoClose: 8000 });
-    } finally {
-      setUploading(false);
-    }
-  };
+  }, [id, user, reset, setUploadedFiles]);
 
-  // Handle file removal
-  const handleFileRemove = async () => {
-    if (!uploadedFile) return;
+  // Reload the submission with its attachments after saving
+  const refreshSubmission = async (submissionId: string) => {
+    const { data, error } = await supabase
+      .from('submissions')
+      .select('*, attachments(*)')
+      .eq('id', submissionId)
+      .single();
 
-    try {
-      // Extract file path from URL
-      const urlParts = uploadedFile.url.split('/');
-      const fileName = urlParts.slice(-2).join('/'); // Get user_id/filename
-
-      // Delete from storage
-      const { error } = await supabase.storage
-        .from('attachments')
-        .remove([fileName]);
-
-      if (error) throw error;
+    if (error) throw error;
 
-      setUploadedFile(null);
-      toast.success('File removed successfully');
-    } catch (error) {
-      console.error('Error removing file:', error);
-      toast.error('Failed to remove file');
-    }
+    setSubmission(data);
+    setUploadedFiles(toFileInfos(data.attachments));
   };
 
   const onSubmit = async (data: SubmissionFormData) => {
@@ -224,15 +123,14 @@ const AssignmentDetail: React.FC = () => {
           .from('submissions')
           .update({
             content: data.content,
-            file_url: uploadedFile?.url || null,
-            file_name: uploadedFile?.name || null,
-            file_type: uploadedFile?.type || null,
-            file_size: uploadedFile?.size || null,
             updated_at: new Date().toISOString(),
           })
           .eq('id', submission.id);
         
         if (error) throw error;
+
+        await syncAttachments('submission_id', submission.id, user?.id, uploadedFiles, removedFiles);
+        await refreshSubmission(submission.id);
         
         toast.success('Submission updated successfully');
       } else {
@@ -243,18 +141,15 @@ const AssignmentDetail: React.FC = () => {
             assignment_id: id,
             user_id: user?.id,
             content: data.content,
-            file_url: uploadedFile?.url || null,
-            file_name: uploadedFile?.name || null,
-            file_type: uploadedFile?.type || null,
-            file_size: uploadedFile?.size || null,
             status: 'draft',
           })
           .select()
           .single();
         
         if (error) throw error;
-        
-        setSubmission(newSubmission);
+
+        await syncAttachments('submission_id', newSubmission.id, user?.id, uploadedFiles, removedFiles);
+        await refreshSubmission(newSubmission.id);
         toast.success('Submission created successfully');
       }
       
@@ -294,6 +189,7 @@ const AssignmentDetail: React.FC = () => {
       setSubmission({
         ...submission,
         status: 'submitted',
+        submitted_at: new Date().toISOString(),
       });
       
       toast.success('Assignment submitted successfully');
@@ -306,10 +202,66 @@ const AssignmentDetail: React.FC = () => {
     }
   };
 
+  const handleTogglePublished = async () => {
+    if (!assignment) return;
+    
+    try {
+      setSubmitting(true);
+      
+      const { error } = await supabase
+        .from('assignments')
+        .update({
+          published: !assignment.published,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', assignment.id);
+      
+      if (error) throw error;
+      
+      setAssignment({
+        ...assignment,
+        published: !assignment.published,
+      });
+      
+      toast.success(assignment.published ? 'Assignment unpublished' : 'Assignment published');
+    } catch (error) {
+      console.error('Error updating assignment:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update assignment';
+      toast.error(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteAssignment = async () => {
+    if (!window.confirm('Are you sure you want to delete this assignment? All submissions will be deleted as well.')) {
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      
+      const { error } = await supabase
+        .from('assignments')
+        .delete()
+        .eq('id', id);
+      
+      if (error) throw error;
+      
+      toast.success('Assignment deleted successfully');
+      navigate('/assignments');
+    } catch (error) {
+      console.error('Error deleting assignment:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete assignment';
+      toast.error(message);
+      setLoading(false);
+    }
+  };
+
   const handleDeleteSubmission = async () => {
     if (!submission) return;
     
-    if (submission.status === 'submitted') {
+    if (submission.status !== 'draft') {
       toast.error('You cannot delete a submitted assignment');
       return;
     }
@@ -329,7 +281,7 @@ const AssignmentDetail: React.FC = () => {
       if (error) throw error;
       
       setSubmission(null);
-      setUploadedFile(null);
+      setUploadedFiles([]);
       reset({ content: '' });
       toast.success('Submission deleted successfully');
     } catch (error) {
@@ -404,12 +356,65 @@ const AssignmentDetail: React.FC = () => {
 
       <div className="bg-white shadow rounded-lg overflow-hidden mb-6">
         <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
-          <h1 className="text-xl font-semibold text-gray-900">{assignment.title}</h1>
+          <div className="flex justify-between items-start">
+            <h1 className="text-xl font-semibold text-gray-900 flex items-center">
+              {assignment.title}
+              {!assignment.published && (
+                <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                  <EyeOff className="h-3 w-3 mr-1" />
+                  Unpublished
+                </span>
+              )}
+            </h1>
+            {isInstructor && (
+              <div className="flex space-x-2">
+                <Link
+                  to={`/assignments/${assignment.id}/submissions`}
+                  className="inline-flex items-center px-3 py-1.5 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <ClipboardCheck className="h-4 w-4 mr-1" />
+                  Grade Submissions
+                </Link>
+                <button
+                  onClick={handleTogglePublished}
+                  disabled={submitting}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  {assignment.published ? (
+                    <>
+                      <EyeOff className="h-4 w-4 mr-1" />
+                      Unpublish
+                    </>
+                  ) : (
+                    <>
+                      <Eye className="h-4 w-4 mr-1" />
+                      Publish
+                    </>
+                  )}
+                </button>
+                <Link
+                  to={`/assignments/${assignment.id}/edit`}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <Edit className="h-4 w-4 mr-1" />
+                  Edit
+                </Link>
+                <button
+                  onClick={handleDeleteAssignment}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
           <div className="mt-1 flex items-center text-sm text-gray-500">
             <Clock className="h-4 w-4 mr-1 text-gray-400" />
             <span>
               Due {format(new Date(assignment.due_date), 'PPP')} ({formatDistanceToNow(new Date(assignment.due_date), { addSuffix: true })})
             </span>
+            <span className="ml-3">{assignment.max_points} points</span>
             {isOverdue && (
               <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
                 Overdue
@@ -422,6 +427,15 @@ const AssignmentDetail: React.FC = () => {
           <div className="prose max-w-none">
             <p className="whitespace-pre-wrap">{assignment.description}</p>
           </div>
+
+          {assignment.rubric && assignment.rubric.length > 0 && submission?.status !== 'returned' && (
+            <div className="mt-6 border-t pt-6">
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Grading Rubric</h3>
+              <RubricBreakdown rubric={assignment.rubric} />
+            </div>
+          )}
+
+          <AttachmentViewer attachments={assignment.attachments} title="Assignment Materials" showPreview={false} />
         </div>
       </div>
 
@@ -429,7 +443,13 @@ const AssignmentDetail: React.FC = () => {
         <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex justify-between items-center">
           <h2 className="text-lg font-medium text-gray-900">Your Submission</h2>
           <div className="flex space-x-2">
-            {submission && submission.status === 'submitted' && (
+            {submission && submission.status === 'returned' && (
+              <span className="inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium bg-blue-100 text-blue-800">
+                <Award className="h-4 w-4 mr-1" />
+                Graded
+              </span>
+            )}
+            {submission && (submission.status === 'submitted' || submission.status === 'graded') && (
               <span className="inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium bg-green-100 text-green-800">
                 <CheckCircle className="h-4 w-4 mr-1" />
                 Submitted
@@ -464,69 +484,16 @@ const AssignmentDetail: React.FC = () => {
                 )}
               </div>
 
-              {/* File Upload Section */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Attachment (Optional)
-                </label>
-                
-                {!uploadedFile ? (
-                  <div className="flex items-center justify-center w-full">
-                    <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100">
-                      <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                        <Upload className="w-8 h-8 mb-2 text-gray-500" />
-                        <p className="mb-2 text-sm text-gray-500">
-                          <span className="font-semibold">Click to upload</span> or drag and drop
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          All file types supported (Images, Videos, Audio, PDFs, Documents, etc.) - Max 50MB
-                        </p>
-                      </div>
-                      <input
-                        type="file"
-                        className="hidden"
-                        onChange={handleFileUpload}
-                        disabled={uploading}
-                        accept="*/*"
-                      />
-                    </label>
-                  </div>
-                ) : (
-                  <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-300">
-                    <div className="flex items-center space-x-3">
-                      <div className="text-blue-600">
-                        {getFileIcon(uploadedFile.type)}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-gray-900 truncate">
-                          {uploadedFile.name}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          {formatFileSize(uploadedFile.size)}
-                        </p>
-                      </div>
-                    </div>
-                    <button
-                      type="button"
-                      onClick={handleFileRemove}
-                      className="ml-4 text-red-600 hover:text-red-800"
-                      title="Remove file"
-                    >
-                      <X className="h-5 w-5" />
-                    </button>
-                  </div>
-                )}
-
-                {uploading && (
-                  <div className="mt-2 flex items-center text-sm text-blue-600">
-                    <svg className="animate-spin h-4 w-4 mr-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                    Uploading...
-                  </div>
-                )}
-              </div>
+              <AttachmentUploader
+                files={uploadedFiles}
+                uploads={uploads}
+                maxSize={maxSize}
+                onUpload={uploadFiles}
+                onRemove={removeFile}
+                onPause={pauseUpload}
+                onResume={resumeUpload}
+                onCancel={cancelUpload}
+              />
 
               <div className="flex justify-end space-x-3">
                 <button
@@ -537,20 +504,10 @@ const AssignmentDetail: React.FC = () => {
                       reset({
                         content: submission.content,
                       });
-                      // Restore file info if exists
-                      if (submission.file_url && submission.file_name) {
-                        setUploadedFile({
-                          url: submission.file_url,
-                          name: submission.file_name,
-                          type: submission.file_type || '',
-                          size: submission.file_size || 0,
-                        });
-                      } else {
-                        setUploadedFile(null);
-                      }
+                      setUploadedFiles(toFileInfos(submission.attachments));
                     } else {
                       reset({ content: '' });
-                      setUploadedFile(null);
+                      setUploadedFiles([]);
                     }
                   }}
                   className="inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -559,7 +516,7 @@ const AssignmentDetail: React.FC = () => {
                 </button>
                 <button
                   type="submit"
-                  disabled={submitting}
+                  disabled={submitting || uploading}
                   className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
                 >
                   {submitting ? (
@@ -598,96 +555,40 @@ const AssignmentDetail: React.FC = () => {
                 <p className="whitespace-pre-wrap">{submission.content}</p>
               </div>
               
-              {/* File Attachment Section */}
-              {submission.file_url && submission.file_name && (
+              <AttachmentViewer attachments={submission.attachments} />
+              
+              {/* Grade Section */}
+              {submission.status === 'returned' && submission.grade && (
                 <div className="mt-6 border-t pt-6">
-                  <h3 className="text-sm font-medium text-gray-900 mb-3">Attachment</h3>
-                  <div className="bg-gray-50 rounded-lg border border-gray-300 overflow-hidden">
-                    <div className="p-4 flex items-center justify-between">
-                      <div className="flex items-center space-x-3 flex-1 min-w-0">
-                        <div className="text-blue-600 flex-shrink-0">
-                          {getFileIcon(submission.file_type)}
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium text-gray-900 truncate">
-                            {submission.file_name}
-                          </p>
-                          <p className="text-xs text-gray-500">
-                            {formatFileSize(submission.file_size)}
-                          </p>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2 ml-4">
-                        {canPreviewInBrowser(submission.file_type) ? (
-                          <a
-                            href={submission.file_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                          >
-                            <ExternalLink className="h-4 w-4 mr-1" />
-                            Open
-                          </a>
-                        ) : (
-                          <a
-                            href={submission.file_url}
-                            download={submission.file_name}
-                            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                          >
-                            <Download className="h-4 w-4 mr-1" />
-                            Download
-                          </a>
-                        )}
-                      </div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-3">Grade</h3>
+                  <div className="bg-blue-50 rounded-lg border border-blue-200 p-4">
+                    <div className="flex items-baseline">
+                      <span className="text-3xl font-bold text-blue-700">{submission.grade.points ?? '—'}</span>
+                      <span className="ml-1 text-sm text-blue-600">/ {assignment.max_points} points</span>
+                      {submission.grade.points !== null && (
+                        <span className="ml-3 text-sm font-medium text-blue-800">
+                          {Math.round((submission.grade.points / assignment.max_points) * 1000) / 10}%
+                        </span>
+                      )}
                     </div>
-
-                    {/* Preview Section for Images, Videos, Audio, and PDFs */}
-                    {submission.file_type && (
-                      <>
-                        {submission.file_type.startsWith('image/') && (
-                          <div className="border-t border-gray-200 p-4 bg-white">
-                            <img
-                              src={submission.file_url}
-                              alt={submission.file_name}
-                              className="max-w-full h-auto rounded-lg shadow-sm"
-                            />
-                          </div>
-                        )}
-
-                        {submission.file_type.startsWith('video/') && (
-                          <div className="border-t border-gray-200 p-4 bg-black">
-                            <video
-                              controls
-                              className="max-w-full h-auto rounded-lg"
-                              preload="metadata"
-                            >
-                              <source src={submission.file_url} type={submission.file_type} />
-                              Your browser does not support the video tag.
-                            </video>
-                          </div>
-                        )}
-
-                        {submission.file_type.startsWith('audio/') && (
-                          <div className="border-t border-gray-200 p-4 bg-white">
-                            <audio controls className="w-full">
-                              <source src={submission.file_url} type={submission.file_type} />
-                              Your browser does not support the audio tag.
-                            </audio>
-                          </div>
-                        )}
-
-                        {submission.file_type === 'application/pdf' && (
-                          <div className="border-t border-gray-200 p-4 bg-gray-100">
-                            <iframe
-                              src={submission.file_url}
-                              className="w-full h-[600px] rounded-lg border-0"
-                              title={submission.file_name}
-                            />
-                          </div>
-                        )}
-                      </>
+                    {submission.grade.graded_at && (
+                      <p className="mt-1 text-xs text-blue-600">
+                        Returned {formatDistanceToNow(new Date(submission.grade.graded_at), { addSuffix: true })}
+                      </p>
+                    )}
+                    {submission.grade.feedback && (
+                      <div className="mt-4">
+                        <h4 className="text-xs font-medium uppercase tracking-wide text-blue-800">Instructor Feedback</h4>
+                        <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{submission.grade.feedback}</p>
+                      </div>
                     )}
                   </div>
+                  {assignment.rubric && assignment.rubric.length > 0 && submission.grade.rubric_scores && (
+                    <div className="mt-4">
+                      <h4 className="text-sm font-medium text-gray-900 mb-2">Rubric Breakdown</h4>
+                      <RubricBreakdown rubric={assignment.rubric} scores={submission.grade.rubric_scores} />
+                    </div>
+                  )}
                 </div>
               )}
               
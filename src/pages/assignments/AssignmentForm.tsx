@@ -0,0 +1,387 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../context/AuthContext';
+import { useCourse } from '../../context/CourseContext';
+import { getCourseLabel } from '../../lib/courses';
+import { syncAttachments, toFileInfos } from '../../lib/attachments';
+import useAttachmentUploads from '../../hooks/useAttachmentUploads';
+import { toast } from 'react-toastify';
+import { ArrowLeft } from 'lucide-react';
+import { format } from 'date-fns';
+import RubricEditor from '../../components/RubricEditor';
+import { getRubricMaxPoints } from '../../lib/rubric';
+import AttachmentUploader from '../../components/AttachmentUploader';
+import type { RubricCriterion } from '../../lib/supabase';
+
+type AssignmentFormData = {
+  title: string;
+  description: string;
+  due_date: string;
+  due_time: string;
+  max_points: number;
+  published: boolean;
+};
+
+const AssignmentForm: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const isEditing = Boolean(id);
+  const { user } = useAuth();
+  const { activeCourse, canManageCourse, loading: coursesLoading } = useCourse();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(false);
+  const [initialLoading, setInitialLoading] = useState(isEditing);
+  // Course of the assignment being edited, which need not be the active one
+  const [courseId, setCourseId] = useState<string | null>(null);
+  const {
+    files: uploadedFiles,
+    setFiles: setUploadedFiles,
+    removedFiles,
+    uploads,
+    uploading,
+    maxSize,
+    uploadFiles,
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    removeFile,
+  } = useAttachmentUploads('assignment_id');
+  const [rubric, setRubric] = useState<RubricCriterion[]>([]);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+  } = useForm<AssignmentFormData>({
+    defaultValues: {
+      due_time: '23:59',
+      max_points: 100,
+      published: true,
+    },
+  });
+
+  useEffect(() => {
+    const fetchAssignment = async () => {
+      if (!id) return;
+      
+      try {
+        setInitialLoading(true);
+        const { data, error } = await supabase
+          .from('assignments')
+          .select('*, attachments(*)')
+          .eq('id', id)
+          .single();
+        
+        if (error) throw error;
+        
+        if (!data) {
+          toast.error('Assignment not found');
+          navigate('/assignments');
+          return;
+        }
+        
+        const dueDate = new Date(data.due_date);
+        reset({
+          title: data.title,
+          description: data.description,
+          due_date: format(dueDate, 'yyyy-MM-dd'),
+          due_time: format(dueDate, 'HH:mm'),
+          max_points: data.max_points,
+          published: data.published,
+        });
+        setRubric(data.rubric || []);
+        setCourseId(data.course_id);
+
+        setUploadedFiles(toFileInfos(data.attachments));
+      } catch (error) {
+        console.error('Error fetching assignment:', error);
+        toast.error('Failed to load assignment');
+        navigate('/assignments');
+      } finally {
+        setInitialLoading(false);
+      }
+    };
+
+    if (isEditing) {
+      fetchAssignment();
+    }
+  }, [id, navigate, reset, isEditing, setUploadedFiles]);
+
+  // Rubric totals drive the assignment's max points
+  useEffect(() => {
+    if (rubric.length > 0) {
+      setValue('max_points', getRubricMaxPoints(rubric));
+    }
+  }, [rubric, setValue]);
+
+  const onSubmit = async (data: AssignmentFormData) => {
+    if (rubric.some((criterion) => !criterion.title.trim() || criterion.levels.length === 0)) {
+      toast.error('Every rubric criterion needs a title and at least one level');
+      return;
+    }
+    
+    if (rubric.length > 0 && getRubricMaxPoints(rubric) <= 0) {
+      toast.error('The rubric must be worth more than 0 points');
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      
+      const assignmentData = {
+        title: data.title,
+        description: data.description,
+        due_date: new Date(`${data.due_date}T${data.due_time || '23:59'}`).toISOString(),
+        max_points: rubric.length > 0 ? getRubricMaxPoints(rubric) : Number(data.max_points),
+        rubric: rubric.length > 0 ? rubric : null,
+        published: data.published,
+      };
+      
+      if (isEditing) {
+        // Update existing assignment
+        const { error } = await supabase
+          .from('assignments')
+          .update({
+            ...assignmentData,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', id);
+        
+        if (error) throw error;
+
+        await syncAttachments('assignment_id', id!, user?.id, uploadedFiles, removedFiles);
+        
+        toast.success('Assignment updated successfully');
+        navigate(`/assignments/${id}`);
+      } else {
+        // Create new assignment
+        const { data: newAssignment, error } = await supabase
+          .from('assignments')
+          .insert({
+            ...assignmentData,
+            course_id: activeCourse?.id,
+            created_by: user?.id,
+          })
+          .select()
+          .single();
+        
+        if (error) throw error;
+
+        await syncAttachments('assignment_id', newAssignment.id, user?.id, uploadedFiles, removedFiles);
+        
+        toast.success(data.published ? 'Assignment published successfully' : 'Assignment saved as draft');
+        navigate(`/assignments/${newAssignment.id}`);
+      }
+    } catch (error) {
+      console.error('Error saving assignment:', error);
+      const message = error instanceof Error ? error.message : 'Failed to save assignment';
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (initialLoading || coursesLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (courseId && !canManageCourse(courseId)) {
+    return <Navigate to={`/assignments/${id}`} replace />;
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/assignments')}
+          className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Assignments
+        </button>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">
+          {isEditing ? 'Edit Assignment' : 'Create New Assignment'}
+        </h1>
+        {!isEditing && activeCourse && (
+          <p className="mt-1 text-sm text-gray-500">For {getCourseLabel(activeCourse)}</p>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-6">
+          <div>
+            <label htmlFor="title" className="block text-sm font-medium text-gray-700">
+              Title
+            </label>
+            <input
+              id="title"
+              type="text"
+              {...register('title', { required: 'Title is required' })}
+              className={`mt-1 block w-full rounded-md shadow-sm ${
+                errors.title ? 'border-red-300' : 'border-gray-300'
+              } focus:border-blue-500 focus:ring-blue-500`}
+            />
+            {errors.title && (
+              <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+            <div>
+              <label htmlFor="due_date" className="block text-sm font-medium text-gray-700">
+                Due Date
+              </label>
+              <input
+                id="due_date"
+                type="date"
+                {...register('due_date', { required: 'Due date is required' })}
+                className={`mt-1 block w-full rounded-md shadow-sm ${
+                  errors.due_date ? 'border-red-300' : 'border-gray-300'
+                } focus:border-blue-500 focus:ring-blue-500`}
+              />
+              {errors.due_date && (
+                <p className="mt-1 text-sm text-red-600">{errors.due_date.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="due_time" className="block text-sm font-medium text-gray-700">
+                Due Time
+              </label>
+              <input
+                id="due_time"
+                type="time"
+                {...register('due_time', { required: 'Due time is required' })}
+                className={`mt-1 block w-full rounded-md shadow-sm ${
+                  errors.due_time ? 'border-red-300' : 'border-gray-300'
+                } focus:border-blue-500 focus:ring-blue-500`}
+              />
+              {errors.due_time && (
+                <p className="mt-1 text-sm text-red-600">{errors.due_time.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="max_points" className="block text-sm font-medium text-gray-700">
+                Max Points
+              </label>
+              <input
+                id="max_points"
+                type="number"
+                readOnly={rubric.length > 0}
+                title={rubric.length > 0 ? 'Calculated from the rubric' : undefined}
+                min="1"
+                step="0.5"
+                {...register('max_points', {
+                  required: 'Max points is required',
+                  valueAsNumber: true,
+                  min: { value: 1, message: 'Max points must be at least 1' },
+                })}
+                className={`mt-1 block w-full rounded-md shadow-sm ${
+                  errors.max_points ? 'border-red-300' : 'border-gray-300'
+                } ${rubric.length > 0 ? 'bg-gray-100' : ''} focus:border-blue-500 focus:ring-blue-500`}
+              />
+              {errors.max_points && (
+                <p className="mt-1 text-sm text-red-600">{errors.max_points.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+              Description
+            </label>
+            <textarea
+              id="description"
+              rows={10}
+              {...register('description', { required: 'Description is required' })}
+              className={`mt-1 block w-full rounded-md shadow-sm ${
+                errors.description ? 'border-red-300' : 'border-gray-300'
+              } focus:border-blue-500 focus:ring-blue-500`}
+            ></textarea>
+            {errors.description && (
+              <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>
+            )}
+          </div>
+
+          <RubricEditor value={rubric} onChange={setRubric} />
+
+          <AttachmentUploader
+            files={uploadedFiles}
+            uploads={uploads}
+            maxSize={maxSize}
+            onUpload={uploadFiles}
+            onRemove={removeFile}
+            onPause={pauseUpload}
+            onResume={resumeUpload}
+            onCancel={cancelUpload}
+          />
+
+          <div className="flex items-start">
+            <input
+              id="published"
+              type="checkbox"
+              {...register('published')}
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="published" className="ml-3 text-sm">
+              <span className="font-medium text-gray-700">Published</span>
+              <span className="block text-gray-500">Students can only see published assignments. Leave unchecked to save a draft.</span>
+            </label>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => navigate(isEditing ? `/assignments/${id}` : '/assignments')}
+              className="mr-3 inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || uploading}
+              className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {loading ? (
+                <span className="flex items-center">
+                  <svg
+                    className="animate-spin -ml-1 mr-2 h-4 w-4 text-white"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <circle
+                      className="opacity-25"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                    ></circle>
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    ></path>
+                  </svg>
+                  Saving...
+                </span>
+              ) : (
+                'Save Assignment'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentForm;
\ No newline at end of file
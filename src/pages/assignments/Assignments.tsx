@@ -1,97 +1,86 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
-import { formatDistanceToNow, isPast } from 'date-fns';
+import { useCourse } from '../../context/CourseContext';
+import { formatDistanceToNow } from 'date-fns';
 import {
   Search,
-  Filter,
-  FileText,
+  Plus,
+  EyeOff,
   Clock,
   CheckCircle,
   AlertCircle,
+  Award,
 } from 'lucide-react';
-import type { Assignment, Submission } from '../../lib/supabase';
+import { PAGE_SIZE, getCursorFilter, getSearchFilter } from '../../lib/pagination';
+import type { SortOption } from '../../lib/pagination';
+import usePaginatedList from '../../hooks/usePaginatedList';
+import type { PageLoader } from '../../hooks/usePaginatedList';
+import useDebouncedValue from '../../hooks/useDebouncedValue';
+import ListFooter from '../../components/ListFooter';
+import NoCourseNotice from '../../components/NoCourseNotice';
+import type { AssignmentOverview, AssignmentStatus } from '../../lib/supabase';
 
-type AssignmentWithSubmission = Assignment & {
-  submission?: Submission | null;
-};
+type AssignmentSort = 'due' | 'due_desc' | 'created';
+
+type DueFilter = 'all' | 'upcoming' | 'past';
+
+const assignmentSorts: SortOption<AssignmentSort>[] = [
+  { value: 'due', label: 'Due soonest', column: 'due_date', ascending: true },
+  { value: 'due_desc', label: 'Due latest', column: 'due_date', ascending: false },
+  { value: 'created', label: 'Recently created', column: 'created_at', ascending: false },
+];
 
 const Assignments: React.FC = () => {
   const { user } = useAuth();
-  const [assignments, setAssignments] = useState<AssignmentWithSubmission[]>(
-    []
-  );
-  const [loading, setLoading] = useState(true);
+  const { activeCourse, canManageCourse } = useCourse();
+  const isInstructor = canManageCourse();
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchAssignments = async () => {
-      try {
-        setLoading(true);
-
-        const { data: assignmentsData, error: assignmentsError } =
-          await supabase
-            .from('assignments')
-            .select('*')
-            .order('due_date', { ascending: true });
-
-        if (assignmentsError) throw assignmentsError;
-
-        const { data: submissionsData, error: submissionsError } =
-          await supabase
-            .from('submissions')
-            .select('*')
-            .eq('user_id', user?.id);
-
-        if (submissionsError) throw submissionsError;
-
-        const assignmentsWithSubmissions = assignmentsData?.map(
-          (assignment) => {
-            const submission = submissionsData?.find(
-              (sub) => sub.assignment_id === assignment.id
-            );
-            return { ...assignment, submission: submission || null };
-          }
-        );
-
-        setAssignments(assignmentsWithSubmissions || []);
-      } catch (error: any) {
-        console.error('Error fetching assignments:', error);
-        setError(error.message);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchAssignments();
-  }, [user]);
-
-  const getAssignmentStatus = (assignment: AssignmentWithSubmission) => {
-    if (assignment.submission?.status === 'submitted') return 'submitted';
-    if (isPast(new Date(assignment.due_date))) return 'overdue';
-    if (assignment.submission?.status === 'draft') return 'draft';
-    return 'pending';
-  };
+  const [statusFilter, setStatusFilter] = useState<AssignmentStatus | 'all'>('all');
+  const [dueFilter, setDueFilter] = useState<DueFilter>('all');
+  const [sortBy, setSortBy] = useState<AssignmentSort>('due');
+  const search = useDebouncedValue(searchTerm.trim());
 
-  const filteredAssignments = assignments.filter((assignment) => {
-    const matchesSearch =
-      assignment.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      assignment.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const status = getAssignmentStatus(assignment);
-    const matchesStatus = statusFilter === 'all' || status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  // Statuses are worked out per user by the assignment_overview view
+  const loadAssignments: PageLoader<AssignmentOverview> = async (last) => {
+    if (!activeCourse) return [];
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
-      </div>
-    );
-  }
+    const sort = assignmentSorts.find((option) => option.value === sortBy) || assignmentSorts[0];
+
+    let query = supabase
+      .from('assignment_overview')
+      .select('*')
+      .eq('course_id', activeCourse.id);
+
+    if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+
+    if (dueFilter === 'upcoming') query = query.gte('due_date', new Date().toISOString());
+    if (dueFilter === 'past') query = query.lt('due_date', new Date().toISOString());
+
+    if (search) query = query.or(getSearchFilter(['title', 'description'], search));
+    if (last) query = query.or(getCursorFilter(sort, last));
+
+    const { data, error } = await query
+      .order(sort.column, { ascending: sort.ascending })
+      .order('id', { ascending: sort.ascending })
+      .limit(PAGE_SIZE);
+
+    if (error) throw error;
+
+    return data || [];
+  };
+
+  const {
+    items: assignments,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMoreFailed,
+    error,
+    loadMore,
+    sentinelRef,
+  } = usePaginatedList(loadAssignments, JSON.stringify([user?.id, activeCourse?.id, statusFilter, dueFilter, sortBy, search]));
 
   if (error) {
     return (
@@ -101,8 +90,29 @@ const Assignments: React.FC = () => {
     );
   }
 
+  if (!activeCourse) {
+    return <NoCourseNotice content="assignments" />;
+  }
+
   return (
     <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Assignments</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {isInstructor ? 'Create, publish and manage class assignments' : 'Track and submit your assignments'}
+          </p>
+        </div>
+        {isInstructor && (
+          <Link
+            to="/assignments/new"
+            className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Assignment
+          </Link>
+        )}
+      </div>
       <div className="flex items-center space-x-4">
         <div className="relative">
           <Search className="absolute left-2 top-2 text-gray-400" size={20} />
@@ -117,21 +127,56 @@ const Assignments: React.FC = () => {
         <select
           className="p-2 border rounded-lg"
           value={statusFilter}
-          onChange={(e) => setStatusFilter(e.target.value)}
+          onChange={(e) => setStatusFilter(e.target.value as AssignmentStatus | 'all')}
         >
           <option value="all">All</option>
+          <option value="graded">Graded</option>
           <option value="submitted">Submitted</option>
           <option value="overdue">Overdue</option>
           <option value="draft">Draft</option>
           <option value="pending">Pending</option>
         </select>
+        <select
+          className="p-2 border rounded-lg"
+          value={dueFilter}
+          onChange={(e) => setDueFilter(e.target.value as DueFilter)}
+          aria-label="Due date"
+        >
+          <option value="all">Any due date</option>
+          <option value="upcoming">Upcoming</option>
+          <option value="past">Past due date</option>
+        </select>
+        <select
+          className="p-2 border rounded-lg"
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as AssignmentSort)}
+          aria-label="Sort by"
+        >
+          {assignmentSorts.map((sort) => (
+            <option key={sort.value} value={sort.value}>
+              {sort.label}
+            </option>
+          ))}
+        </select>
       </div>
-      {filteredAssignments.length === 0 ? (
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : assignments.length === 0 ? (
         <p className="text-gray-500">No assignments found.</p>
       ) : (
-        filteredAssignments.map((assignment) => (
+        assignments.map((assignment) => (
           <div key={assignment.id} className="p-4 bg-white shadow rounded-lg">
-            <h2 className="text-lg font-bold">{assignment.title}</h2>
+            <h2 className="text-lg font-bold flex items-center">
+              {assignment.title}
+              {!assignment.published && (
+                <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                  <EyeOff className="h-3 w-3 mr-1" />
+                  Unpublished
+                </span>
+              )}
+            </h2>
             <p>{assignment.description}</p>
             <p className="text-sm text-gray-500">
               Due{' '}
@@ -140,18 +185,26 @@ const Assignments: React.FC = () => {
               })}
             </p>
             <div className="flex items-center space-x-2 mt-2">
-              {getAssignmentStatus(assignment) === 'submitted' && (
+              {assignment.status === 'graded' && (
+                <Award className="text-blue-500" />
+              )}
+              {assignment.status === 'submitted' && (
                 <CheckCircle className="text-green-500" />
               )}
-              {getAssignmentStatus(assignment) === 'overdue' && (
+              {assignment.status === 'overdue' && (
                 <AlertCircle className="text-red-500" />
               )}
-              {getAssignmentStatus(assignment) === 'pending' && (
+              {assignment.status === 'pending' && (
                 <Clock className="text-yellow-500" />
               )}
               <span className="text-gray-600">
-                {getAssignmentStatus(assignment)}
+                {assignment.status}
               </span>
+              {assignment.submission_status === 'returned' && assignment.submission_points !== null && (
+                <span className="text-sm font-medium text-blue-700">
+                  {assignment.submission_points} / {assignment.max_points}
+                </span>
+              )}
             </div>
             <Link
               to={`/assignments/${assignment.id}`}
@@ -162,6 +215,15 @@ const Assignments: React.FC = () => {
           </div>
         ))
       )}
+      {!loading && (
+        <ListFooter
+          sentinelRef={sentinelRef}
+          hasMore={hasMore}
+          loadingMore={loadingMore}
+          loadMoreFailed={loadMoreFailed}
+          onRetry={loadMore}
+        />
+      )}
     </div>
   );
 };
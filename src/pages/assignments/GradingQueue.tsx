@@ -0,0 +1,403 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate, useNavigate, useParams, Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { supabase } from '../../lib/supabase';
+import { useCourse } from '../../context/CourseContext';
+import { toast } from 'react-toastify';
+import { ArrowLeft, CheckCircle, ClipboardCheck, Inbox, Send } from 'lucide-react';
+import { format, formatDistanceToNow, isAfter } from 'date-fns';
+import AttachmentViewer from '../../components/AttachmentViewer';
+import RubricScoringPanel from '../../components/RubricScoringPanel';
+import { getRubricScoreTotal } from '../../lib/rubric';
+import type { Assignment, RubricScore, Submission, SubmissionStatus } from '../../lib/supabase';
+
+type GradeFormData = {
+  points: number;
+  feedback: string;
+};
+
+type QueueFilter = 'all' | Exclude<SubmissionStatus, 'draft'>;
+
+const statusLabels: Record<SubmissionStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Needs grading',
+  graded: 'Graded',
+  returned: 'Returned',
+};
+
+const statusBadgeColors: Record<SubmissionStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  graded: 'bg-blue-100 text-blue-800',
+  returned: 'bg-green-100 text-green-800',
+};
+
+const GradingQueue: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { canManageCourse, loading: coursesLoading } = useCourse();
+  const navigate = useNavigate();
+  const [assignment, setAssignment] = useState<Assignment | null>(null);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<QueueFilter>('all');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rubricScores, setRubricScores] = useState<Record<string, RubricScore>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    formState: { errors },
+  } = useForm<GradeFormData>();
+
+  useEffect(() => {
+    const fetchQueue = async () => {
+      try {
+        setLoading(true);
+
+        const { data: assignmentData, error: assignmentError } = await supabase
+          .from('assignments')
+          .select('*')
+          .eq('id', id)
+          .single();
+
+        if (assignmentError) throw assignmentError;
+
+        const { data: submissionsData, error: submissionsError } = await supabase
+          .from('submissions')
+          .select(`
+            *,
+            student:profiles!submissions_user_id_fkey(*),
+            attachments(*),
+            grade:submission_grades(*)
+          `)
+          .eq('assignment_id', id)
+          .neq('status', 'draft')
+          .order('submitted_at', { ascending: true });
+
+        if (submissionsError) throw submissionsError;
+
+        setAssignment(assignmentData);
+        setSubmissions(submissionsData || []);
+        setSelectedId(submissionsData?.find((submission) => submission.status === 'submitted')?.id ?? null);
+      } catch (error) {
+        console.error('Error fetching grading queue:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        setError(message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchQueue();
+  }, [id]);
+
+  const selected = submissions.find((submission) => submission.id === selectedId) || null;
+
+  useEffect(() => {
+    reset({
+      points: selected?.grade?.points ?? ('' as unknown as number),
+      feedback: selected?.grade?.feedback ?? '',
+    });
+    setRubricScores(selected?.grade?.rubric_scores ?? {});
+  }, [selected, reset]);
+
+  const hasRubric = Boolean(assignment?.rubric && assignment.rubric.length > 0);
+
+  const handleRubricChange = (scores: Record<string, RubricScore>) => {
+    setRubricScores(scores);
+    setValue('points', getRubricScoreTotal(scores), { shouldValidate: true });
+  };
+
+  const saveGrade = async (data: GradeFormData, status: 'graded' | 'returned') => {
+    if (!selected) return;
+
+    if (hasRubric && assignment?.rubric?.some((criterion) => !rubricScores[criterion.id]?.level_id)) {
+      toast.error('Score every rubric criterion before saving');
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      // Saves the grade and the status together
+      const { data: grade, error } = await supabase.rpc('save_submission_grade', {
+        submission_id: selected.id,
+        points: Number(data.points),
+        feedback: data.feedback.trim() || null,
+        rubric_scores: hasRubric ? rubricScores : null,
+        grade_status: status,
+      });
+
+      if (error) throw error;
+
+      const updatedSubmissions = submissions.map((submission) =>
+        submission.id === selected.id ? { ...submission, status, grade } : submission
+      );
+      setSubmissions(updatedSubmissions);
+
+      toast.success(status === 'returned' ? 'Grade returned to student' : 'Grade saved');
+
+      // Move on to the next submission that still needs grading
+      const next = updatedSubmissions.find((submission) => submission.status === 'submitted');
+      if (next) {
+        setSelectedId(next.id);
+      }
+    } catch (error) {
+      console.error('Error saving grade:', error);
+      const message = error instanceof Error ? error.message : 'Failed to save grade';
+      toast.error(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filteredSubmissions = submissions.filter(
+    (submission) => filter === 'all' || submission.status === filter
+  );
+
+  const counts = {
+    all: submissions.length,
+    submitted: submissions.filter((submission) => submission.status === 'submitted').length,
+    graded: submissions.filter((submission) => submission.status === 'graded').length,
+    returned: submissions.filter((submission) => submission.status === 'returned').length,
+  };
+
+  if (loading || coursesLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error || !assignment) {
+    return (
+      <div className="bg-red-50 p-4 rounded-md">
+        <h3 className="text-sm font-medium text-red-800">Error loading submissions</h3>
+        <div className="mt-2 text-sm text-red-700">
+          <p>{error || 'Assignment not found'}</p>
+        </div>
+        <div className="mt-4">
+          <Link
+            to="/assignments"
+            className="text-sm font-medium text-red-600 hover:text-red-500"
+          >
+            Go back to assignments
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Only the instructors of the assignment's course grade it, whichever course is active
+  if (!canManageCourse(assignment.course_id)) {
+    return <Navigate to={`/assignments/${assignment.id}`} replace />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <button
+          onClick={() => navigate(`/assignments/${assignment.id}`)}
+          className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Assignment
+        </button>
+        <h1 className="mt-2 text-2xl font-bold text-gray-900">Grading: {assignment.title}</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Due {format(new Date(assignment.due_date), 'PPP p')} · {assignment.max_points} points
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="border-b border-gray-200 px-4">
+            <nav className="-mb-px flex space-x-4 overflow-x-auto">
+              {(['all', 'submitted', 'graded', 'returned'] as const).map((key) => (
+                <button
+                  key={key}
+                  onClick={() => setFilter(key)}
+                  className={`py-3 px-1 border-b-2 text-sm font-medium whitespace-nowrap ${
+                    filter === key
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {key === 'all' ? 'All' : statusLabels[key]}
+                  <span className="ml-1 text-xs text-gray-400">{counts[key]}</span>
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          {filteredSubmissions.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {filteredSubmissions.map((submission) => {
+                const late = submission.submitted_at !== null && isAfter(new Date(submission.submitted_at), new Date(assignment.due_date));
+
+                return (
+                  <li key={submission.id}>
+                    <button
+                      onClick={() => setSelectedId(submission.id)}
+                      className={`w-full text-left px-4 py-3 flex items-center justify-between hover:bg-gray-50 ${
+                        submission.id === selectedId ? 'bg-blue-50' : ''
+                      }`}
+                    >
+                      <div className="flex items-center min-w-0">
+                        <img
+                          src={submission.student?.avatar_url || `https://ui-avatars.com/api/?name=${submission.student?.first_name}+${submission.student?.last_name}&background=random`}
+                          alt={`${submission.student?.first_name} ${submission.student?.last_name}`}
+                          className="h-8 w-8 rounded-full mr-3"
+                        />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {submission.student?.first_name} {submission.student?.last_name}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDistanceToNow(new Date(submission.submitted_at ?? submission.created_at), { addSuffix: true })}
+                            {late && <span className="ml-1 text-red-600">· Late</span>}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="ml-2 flex flex-col items-end">
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${statusBadgeColors[submission.status]}`}>
+                          {statusLabels[submission.status]}
+                        </span>
+                        {submission.grade?.points != null && (
+                          <span className="mt-1 text-xs text-gray-500">
+                            {submission.grade.points} / {assignment.max_points}
+                          </span>
+                        )}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <div className="text-center py-12">
+              <Inbox className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No submissions</h3>
+              <p className="mt-1 text-sm text-gray-500">Nothing in this part of the queue.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 bg-white shadow rounded-lg overflow-hidden">
+          {selected ? (
+            <>
+              <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex justify-between items-center">
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900">
+                    {selected.student?.first_name} {selected.student?.last_name}
+                  </h2>
+                  <p className="text-xs text-gray-500">{selected.student?.email}</p>
+                </div>
+                <span className={`inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium ${statusBadgeColors[selected.status]}`}>
+                  {statusLabels[selected.status]}
+                </span>
+              </div>
+
+              <div className="px-6 py-4">
+                <div className="prose max-w-none">
+                  <p className="whitespace-pre-wrap">{selected.content}</p>
+                </div>
+
+                <AttachmentViewer attachments={selected.attachments} />
+
+                <form className="mt-6 border-t pt-6 space-y-4">
+                  {hasRubric && assignment.rubric && (
+                    <RubricScoringPanel
+                      rubric={assignment.rubric}
+                      value={rubricScores}
+                      onChange={handleRubricChange}
+                    />
+                  )}
+
+                  <div>
+                    <label htmlFor="points" className="block text-sm font-medium text-gray-700">
+                      Score
+                    </label>
+                    <div className="mt-1 flex items-center">
+                      <input
+                        id="points"
+                        type="number"
+                        step="0.5"
+                        min="0"
+                        max={assignment.max_points}
+                        readOnly={hasRubric}
+                        title={hasRubric ? 'Calculated from the rubric' : undefined}
+                        {...register('points', {
+                          required: 'Score is required',
+                          valueAsNumber: true,
+                          min: { value: 0, message: 'Score cannot be negative' },
+                          max: { value: assignment.max_points, message: `Score cannot exceed ${assignment.max_points}` },
+                        })}
+                        className={`block w-32 rounded-md shadow-sm ${
+                          errors.points ? 'border-red-300' : 'border-gray-300'
+                        } ${hasRubric ? 'bg-gray-100' : ''} focus:border-blue-500 focus:ring-blue-500`}
+                      />
+                      <span className="ml-2 text-sm text-gray-500">/ {assignment.max_points}</span>
+                    </div>
+                    {errors.points && (
+                      <p className="mt-1 text-sm text-red-600">{errors.points.message}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label htmlFor="feedback" className="block text-sm font-medium text-gray-700">
+                      Feedback
+                    </label>
+                    <textarea
+                      id="feedback"
+                      rows={6}
+                      placeholder="Written feedback for the student..."
+                      {...register('feedback')}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    ></textarea>
+                  </div>
+
+                  <div className="flex justify-end space-x-3">
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={handleSubmit((data) => saveGrade(data, 'graded'))}
+                      className="inline-flex items-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Save Grade
+                    </button>
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={handleSubmit((data) => saveGrade(data, 'returned'))}
+                      className="inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      {saving ? 'Saving...' : 'Return to Student'}
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </>
+          ) : (
+            <div className="text-center py-24">
+              <ClipboardCheck className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Select a submission</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {counts.submitted === 0 ? 'All caught up — every submission has been graded.' : 'Pick a submission from the queue to grade it.'}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GradingQueue;
@@ -0,0 +1,422 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../context/AuthContext';
+import { useCourse } from '../../context/CourseContext';
+import { toast } from 'react-toastify';
+import { ArrowLeft, Copy, LogOut, RefreshCw, Trash2, UserPlus, Users } from 'lucide-react';
+import { getCourseLabel } from '../../lib/courses';
+import { findProfileByEmail } from '../../lib/profiles';
+import type { Course, CourseMember, CourseRole } from '../../lib/supabase';
+
+type MemberFormData = {
+  email: string;
+  role: CourseRole;
+};
+
+const courseRoleLabels: Record<CourseRole, string> = {
+  instructor: 'Instructor',
+  student: 'Student',
+};
+
+const CourseRoster: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { canManageCourse, refreshCourses } = useCourse();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [members, setMembers] = useState<CourseMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const canManage = canManageCourse(id);
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<MemberFormData>({
+    defaultValues: {
+      role: 'student',
+    },
+  });
+
+  useEffect(() => {
+    const fetchRoster = async () => {
+      try {
+        setLoading(true);
+
+        const [{ data: courseData, error: courseError }, { data: memberData, error: memberError }] = await Promise.all([
+          supabase.from('courses').select('*').eq('id', id).maybeSingle(),
+          supabase
+            .from('course_members')
+            .select('*, member:profiles(*)')
+            .eq('course_id', id)
+            .order('role', { ascending: true })
+            .order('created_at', { ascending: true }),
+        ]);
+
+        if (courseError) throw courseError;
+        if (memberError) throw memberError;
+
+        setCourse(courseData);
+        setMembers(memberData || []);
+      } catch (error) {
+        console.error('Error fetching roster:', error);
+        toast.error('Failed to load course roster');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRoster();
+  }, [id]);
+
+  const instructorCount = members.filter((member) => member.role === 'instructor').length;
+
+  // Every course keeps at least one instructor to manage it
+  const isLastInstructor = (member: CourseMember) => member.role === 'instructor' && instructorCount === 1;
+
+  const onAddMember = async (data: MemberFormData) => {
+    try {
+      setAdding(true);
+
+      const profile = await findProfileByEmail(data.email);
+
+      if (!profile) {
+        toast.error('No user found with that email');
+        return;
+      }
+
+      if (members.some((member) => member.user_id === profile.id)) {
+        toast.error('That user is already in this course');
+        return;
+      }
+
+      const { data: member, error } = await supabase
+        .from('course_members')
+        .insert({ course_id: id, user_id: profile.id, role: data.role })
+        .select('*, member:profiles(*)')
+        .single();
+
+      if (error) throw error;
+
+      setMembers([...members, member]);
+      reset({ email: '', role: data.role });
+      toast.success(`${profile.first_name || profile.email} added to the course`);
+    } catch (error) {
+      console.error('Error adding member:', error);
+      const message = error instanceof Error ? error.message : 'Failed to add member';
+      toast.error(message);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (member: CourseMember, role: CourseRole) => {
+    try {
+      const { error } = await supabase
+        .from('course_members')
+        .update({ role })
+        .eq('course_id', id)
+        .eq('user_id', member.user_id);
+
+      if (error) throw error;
+
+      setMembers(members.map((item) => (item.user_id === member.user_id ? { ...item, role } : item)));
+      if (member.user_id === user?.id) await refreshCourses();
+      toast.success('Role updated');
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      const message = error instanceof Error ? error.message : 'Failed to update role';
+      toast.error(message);
+    }
+  };
+
+  const handleRemove = async (member: CourseMember) => {
+    const leaving = member.user_id === user?.id;
+    const name = member.member?.first_name || member.member?.email || 'this member';
+
+    if (!window.confirm(leaving ? 'Leave this course? You will need a join code to come back.' : `Remove ${name} from this course?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('course_members')
+        .delete()
+        .eq('course_id', id)
+        .eq('user_id', member.user_id);
+
+      if (error) throw error;
+
+      if (leaving) {
+        await refreshCourses();
+        toast.success('You left the course');
+        navigate('/courses');
+        return;
+      }
+
+      setMembers(members.filter((item) => item.user_id !== member.user_id));
+      toast.success(`${name} removed from the course`);
+    } catch (error) {
+      console.error('Error removing member:', error);
+      const message = error instanceof Error ? error.message : 'Failed to remove member';
+      toast.error(message);
+    }
+  };
+
+  const handleResetJoinCode = async () => {
+    if (!window.confirm('Reset the join code? The current code will stop working.')) {
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('reset_course_join_code', { course_id: id });
+
+      if (error) throw error;
+
+      setCourse(course ? { ...course, join_code: data } : course);
+      await refreshCourses();
+      toast.success('Join code reset');
+    } catch (error) {
+      console.error('Error resetting join code:', error);
+      const message = error instanceof Error ? error.message : 'Failed to reset join code';
+      toast.error(message);
+    }
+  };
+
+  const handleCopyJoinCode = async () => {
+    if (!course) return;
+
+    try {
+      await navigator.clipboard.writeText(course.join_code);
+      toast.success('Join code copied to clipboard');
+    } catch (error) {
+      console.error('Error copying join code:', error);
+      toast.error('Failed to copy join code');
+    }
+  };
+
+  const handleDeleteCourse = async () => {
+    if (!window.confirm('Delete this course? Its assignments, submissions and announcements are deleted too.')) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('courses').delete().eq('id', id);
+
+      if (error) throw error;
+
+      await refreshCourses();
+      toast.success('Course deleted');
+      navigate('/courses');
+    } catch (error) {
+      console.error('Error deleting course:', error);
+      const message = error instanceof Error ? error.message : 'Failed to delete course';
+      toast.error(message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!course) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Course not found</h3>
+        <p className="mt-1 text-sm text-gray-500">It may have been deleted, or you are not enrolled in it.</p>
+        <div className="mt-6">
+          <Link to="/courses" className="text-blue-600 hover:text-blue-800">
+            Back to courses
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const currentMember = members.find((member) => member.user_id === user?.id);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <Link to="/courses" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to courses
+        </Link>
+        <div className="mt-2 flex justify-between items-start gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{getCourseLabel(course)}</h1>
+            {course.description && <p className="mt-1 text-sm text-gray-500">{course.description}</p>}
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {currentMember && !isLastInstructor(currentMember) && (
+              <button
+                onClick={() => handleRemove(currentMember)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Leave
+              </button>
+            )}
+            {canManage && (
+              <button
+                onClick={handleDeleteCourse}
+                className="inline-flex items-center px-3 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {canManage && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900">Join code</h2>
+          <p className="mt-1 text-sm text-gray-500">Students enroll themselves on the Courses page with this code.</p>
+          <div className="mt-4 flex items-center gap-2">
+            <span className="px-4 py-2 rounded-md bg-gray-100 font-mono text-lg font-semibold tracking-widest text-gray-900">
+              {course.join_code}
+            </span>
+            <button
+              onClick={handleCopyJoinCode}
+              className="p-2 text-gray-400 hover:text-gray-600"
+              title="Copy join code"
+            >
+              <Copy className="h-5 w-5" />
+            </button>
+            <button
+              onClick={handleResetJoinCode}
+              className="p-2 text-gray-400 hover:text-gray-600"
+              title="Reset join code"
+            >
+              <RefreshCw className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">Roster</h2>
+          <span className="text-sm text-gray-500">
+            {members.length} {members.length === 1 ? 'member' : 'members'}
+          </span>
+        </div>
+
+        {canManage && (
+          <form
+            onSubmit={handleSubmit(onAddMember)}
+            className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-start gap-2"
+          >
+            <div className="flex-1">
+              <label htmlFor="member-email" className="sr-only">
+                Email
+              </label>
+              <input
+                id="member-email"
+                type="email"
+                placeholder="student@example.com"
+                {...register('email', { required: 'Email is required' })}
+                className={`block w-full rounded-md shadow-sm sm:text-sm ${
+                  errors.email ? 'border-red-300' : 'border-gray-300'
+                } focus:border-blue-500 focus:ring-blue-500`}
+              />
+              {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+            </div>
+            <select
+              {...register('role')}
+              className="block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {Object.entries(courseRoleLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={adding}
+              className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              <UserPlus className="h-4 w-4 mr-1" />
+              {adding ? 'Adding...' : 'Add'}
+            </button>
+          </form>
+        )}
+
+        {members.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {members.map((member) => (
+              <li key={member.user_id} className="px-6 py-4 flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <img
+                    src={member.member?.avatar_url || `https://ui-avatars.com/api/?name=${member.member?.first_name}+${member.member?.last_name}&background=random`}
+                    alt={`${member.member?.first_name} ${member.member?.last_name}`}
+                    className="h-10 w-10 rounded-full mr-3"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {member.member?.first_name} {member.member?.last_name}
+                      {member.user_id === user?.id && <span className="ml-1 text-gray-500">(you)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">{member.member?.email}</p>
+                  </div>
+                </div>
+                {canManage ? (
+                  <div className="ml-4 flex items-center space-x-2">
+                    <select
+                      value={member.role}
+                      disabled={isLastInstructor(member)}
+                      onChange={(e) => handleRoleChange(member, e.target.value as CourseRole)}
+                      className="block rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                      title={isLastInstructor(member) ? 'A course needs at least one instructor' : 'Change role'}
+                    >
+                      {Object.entries(courseRoleLabels).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    {member.user_id !== user?.id && (
+                      <button
+                        onClick={() => handleRemove(member)}
+                        className="text-gray-400 hover:text-red-500"
+                        title="Remove from course"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <span
+                    className={`ml-4 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      member.role === 'instructor' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
+                    }`}
+                  >
+                    {courseRoleLabels[member.role]}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center py-12">
+            <Users className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No members yet</h3>
+            <p className="mt-1 text-sm text-gray-500">Share the join code or add members by email.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CourseRoster;
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../context/AuthContext';
+import { useCourse } from '../../context/CourseContext';
+import { toast } from 'react-toastify';
+import { GraduationCap, LogIn, Plus, Users, Check } from 'lucide-react';
+import { JOIN_CODE_LENGTH, getCourseLabel, normalizeJoinCode } from '../../lib/courses';
+
+type JoinFormData = {
+  joinCode: string;
+};
+
+type CourseFormData = {
+  name: string;
+  code: string;
+  description: string;
+};
+
+const Courses: React.FC = () => {
+  const { user, hasRole } = useAuth();
+  const { courses, activeCourse, setActiveCourseId, refreshCourses, loading } = useCourse();
+  const [joining, setJoining] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const canCreate = hasRole('instructor', 'admin');
+  const joinForm = useForm<JoinFormData>();
+  const courseForm = useForm<CourseFormData>();
+
+  const onJoin = async (data: JoinFormData) => {
+    try {
+      setJoining(true);
+
+      const { data: courseId, error } = await supabase.rpc('join_course', {
+        join_code: normalizeJoinCode(data.joinCode),
+      });
+
+      if (error) throw error;
+
+      await refreshCourses();
+      setActiveCourseId(courseId);
+      joinForm.reset();
+      toast.success('Joined course');
+    } catch (error) {
+      console.error('Error joining course:', error);
+      const message = error instanceof Error ? error.message : 'Failed to join course';
+      toast.error(message);
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const onCreate = async (data: CourseFormData) => {
+    try {
+      setCreating(true);
+
+      const { data: course, error } = await supabase
+        .from('courses')
+        .insert({
+          name: data.name.trim(),
+          code: data.code.trim() || null,
+          description: data.description.trim() || null,
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await refreshCourses();
+      setActiveCourseId(course.id);
+      courseForm.reset();
+      setShowCreateForm(false);
+      toast.success('Course created');
+    } catch (error) {
+      console.error('Error creating course:', error);
+      const message = error instanceof Error ? error.message : 'Failed to create course';
+      toast.error(message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6 flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Courses</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Assignments and announcements are shared with the members of each course
+          </p>
+        </div>
+        {canCreate && (
+          <button
+            onClick={() => setShowCreateForm(!showCreateForm)}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {showCreateForm ? 'Cancel' : 'New Course'}
+          </button>
+        )}
+      </div>
+
+      {showCreateForm && (
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Create Course</h2>
+          <form onSubmit={courseForm.handleSubmit(onCreate)} className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div className="sm:col-span-2">
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  id="name"
+                  type="text"
+                  {...courseForm.register('name', {
+                    required: 'Name is required',
+                    validate: (value) => value.trim().length > 0 || 'Name is required',
+                  })}
+                  className={`mt-1 block w-full rounded-md shadow-sm ${
+                    courseForm.formState.errors.name ? 'border-red-300' : 'border-gray-300'
+                  } focus:border-blue-500 focus:ring-blue-500`}
+                  placeholder="Introduction to Programming"
+                />
+                {courseForm.formState.errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{courseForm.formState.errors.name.message}</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                  Course code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  {...courseForm.register('code')}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="CS 101"
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+                Description
+              </label>
+              <textarea
+                id="description"
+                rows={3}
+                {...courseForm.register('description')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              ></textarea>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={creating}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                {creating ? 'Creating...' : 'Create Course'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-6 mb-6">
+        <h2 className="text-lg font-medium text-gray-900">Join a course</h2>
+        <p className="mt-1 text-sm text-gray-500">Enter the join code your instructor shared with the class.</p>
+        <form onSubmit={joinForm.handleSubmit(onJoin)} className="mt-4 flex items-start gap-2">
+          <div className="flex-1 max-w-xs">
+            <label htmlFor="joinCode" className="sr-only">
+              Join code
+            </label>
+            <input
+              id="joinCode"
+              type="text"
+              autoComplete="off"
+              {...joinForm.register('joinCode', {
+                required: 'Join code is required',
+                validate: (value) =>
+                  normalizeJoinCode(value).length === JOIN_CODE_LENGTH ||
+                  `Join codes are ${JOIN_CODE_LENGTH} characters long`,
+              })}
+              className={`block w-full rounded-md shadow-sm font-mono uppercase tracking-widest ${
+                joinForm.formState.errors.joinCode ? 'border-red-300' : 'border-gray-300'
+              } focus:border-blue-500 focus:ring-blue-500`}
+              placeholder="ABCD2345"
+            />
+            {joinForm.formState.errors.joinCode && (
+              <p className="mt-1 text-sm text-red-600">{joinForm.formState.errors.joinCode.message}</p>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={joining}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <LogIn className="h-4 w-4 mr-2" />
+            {joining ? 'Joining...' : 'Join'}
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <h2 className="text-lg font-medium text-gray-900">Your Courses</h2>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : courses.length === 0 ? (
+          <div className="text-center py-12">
+            <GraduationCap className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No courses yet</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {canCreate ? 'Create a course or join one with a code.' : 'Join a course with the code from your instructor.'}
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {courses.map((course) => (
+              <li key={course.id} className="px-6 py-4 hover:bg-gray-50">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-sm font-medium text-gray-900 truncate">{getCourseLabel(course)}</h3>
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${
+                          course.member_role === 'instructor' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {course.member_role}
+                      </span>
+                    </div>
+                    {course.description && <p className="mt-1 text-sm text-gray-600">{course.description}</p>}
+                    {course.member_role === 'instructor' && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Join code <span className="font-mono font-medium tracking-widest text-gray-700">{course.join_code}</span>
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {activeCourse?.id === course.id ? (
+                      <span className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-green-700">
+                        <Check className="h-4 w-4 mr-1" />
+                        Current
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setActiveCourseId(course.id)}
+                        className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        Switch to
+                      </button>
+                    )}
+                    <Link
+                      to={`/courses/${course.id}`}
+                      className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      <Users className="h-4 w-4 mr-1" />
+                      Roster
+                    </Link>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Courses;
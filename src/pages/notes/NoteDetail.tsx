@@ -1,11 +1,24 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useParams, Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
+import useComments from '../../hooks/useComments';
 import { toast } from 'react-toastify';
-import { ArrowLeft, Edit, Trash2, BookOpen, Download, FileText, File as FileIcon, Image as ImageIcon, Video as VideoIcon, Music, FileArchive, ExternalLink } from 'lucide-react';
+import { ArrowLeft, Edit, Trash2, BookOpen, Share2, Users, MessageCircle } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
-import type { Note } from '../../lib/supabase';
+import ShareNoteDialog from '../../components/ShareNoteDialog';
+import PublicLinkPanel from '../../components/PublicLinkPanel';
+import NoteHistoryPanel from '../../components/NoteHistoryPanel';
+import AttachmentViewer from '../../components/AttachmentViewer';
+import MarkdownContent from '../../components/MarkdownContent';
+import RichTextContent from '../../components/RichTextContent';
+import NoteAnnotations from '../../components/NoteAnnotations';
+import CommentComposer from '../../components/CommentComposer';
+import CommentThread from '../../components/CommentThread';
+import { getProfileName, groupReplies } from '../../lib/comments';
+import type { CommentWithUser } from '../../lib/comments';
+import type { CommentAnchor } from '../../lib/annotations';
+import type { Note, NotePermission, Profile } from '../../lib/supabase';
 
 const NoteDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -14,38 +27,20 @@ const NoteDetail: React.FC = () => {
   const [note, setNote] = useState<Note | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [sharedPermission, setSharedPermission] = useState<NotePermission | null>(null);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  // Users the note is shared with, as far as the viewer can see them
+  const [recipients, setRecipients] = useState<Profile[]>([]);
 
-  // Helper function to get file icon
-  const getFileIcon = (fileType: string | null) => {
-    if (!fileType) return <FileIcon className="h-5 w-5" />;
-    if (fileType.startsWith('image/')) return <ImageIcon className="h-5 w-5" />;
-    if (fileType.startsWith('video/')) return <VideoIcon className="h-5 w-5" />;
-    if (fileType.startsWith('audio/')) return <Music className="h-5 w-5" />;
-    if (fileType === 'application/pdf') return <FileText className="h-5 w-5" />;
-    if (fileType.includes('zip') || fileType.includes('rar') || fileType.includes('7z')) return <FileArchive className="h-5 w-5" />;
-    return <FileIcon className="h-5 w-5" />;
-  };
-
-  // Helper function to format file size
-  const formatFileSize = (bytes: number | null) => {
-    if (!bytes || bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
-  };
-
-  // Check if file can be previewed in browser
-  const canPreviewInBrowser = (fileType: string | null) => {
-    if (!fileType) return false;
-    return (
-      fileType.startsWith('image/') ||
-      fileType.startsWith('video/') ||
-      fileType.startsWith('audio/') ||
-      fileType === 'application/pdf' ||
-      fileType === 'text/plain'
-    );
-  };
+  const {
+    comments,
+    loading: commentsLoading,
+    error: commentsError,
+    postComment,
+    editComment,
+    deleteComment,
+    toggleReaction,
+  } = useComments('note_id', id);
 
   useEffect(() => {
     const fetchNote = async () => {
@@ -56,14 +51,31 @@ const NoteDetail: React.FC = () => {
           .from('notes')
           .select(`
             *,
-            category:categories(*)
+            category:categories(*),
+            user:profiles(*),
+            attachments(*)
           `)
           .eq('id', id)
-          .eq('user_id', user?.id)
           .single();
         
         if (error) throw error;
         
+        // Notes owned by someone else are only visible through a share
+        if (data.user_id !== user?.id) {
+          const { data: shareData, error: shareError } = await supabase
+            .from('note_shares')
+            .select('permission')
+            .eq('note_id', id)
+            .eq('shared_with', user?.id)
+            .maybeSingle();
+
+          if (shareError) throw shareError;
+
+          setSharedPermission(shareData?.permission ?? null);
+        } else {
+          setSharedPermission(null);
+        }
+        
         setNote(data);
       } catch (error) {
         console.error('Error fetching note:', error);
@@ -78,6 +90,41 @@ const NoteDetail: React.FC = () => {
     fetchNote();
   }, [id, user]);
 
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchRecipients = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('note_shares')
+          .select('recipient:profiles!note_shares_shared_with_fkey(*)')
+          .eq('note_id', id);
+
+        if (error) throw error;
+
+        setRecipients(
+          ((data || []) as unknown as { recipient: Profile | null }[])
+            .map((share) => share.recipient)
+            .filter((recipient): recipient is Profile => recipient !== null)
+        );
+      } catch (error) {
+        console.error('Error fetching note recipients:', error);
+      }
+    };
+
+    fetchRecipients();
+  }, [id]);
+
+  // Anyone who can see the note can be mentioned: its owner, the users it is shared with
+  // and everyone who has commented on it
+  const members = useMemo(() => {
+    const people = new Map<string, Profile>();
+    [note?.user, ...recipients, ...comments.map((comment) => comment.user)].forEach((person) => {
+      if (person && person.id !== user?.id) people.set(person.id, person);
+    });
+    return Array.from(people.values()).sort((a, b) => getProfileName(a).localeCompare(getProfileName(b)));
+  }, [note?.user, recipients, comments, user?.id]);
+
   const handleDelete = async () => {
     if (!window.confirm('Are you sure you want to delete this note?')) {
       return;
@@ -105,6 +152,23 @@ const NoteDetail: React.FC = () => {
     }
   };
 
+  const replies = useMemo(() => groupReplies(comments), [comments]);
+  const topLevelComments = replies.get(null) || [];
+  // Kept stable between renders so the annotations are only placed again when they change
+  const annotations = useMemo(
+    () => (replies.get(null) || []).filter((comment) => comment.anchor_text !== null),
+    [replies]
+  );
+  const generalComments = topLevelComments.filter((comment) => comment.anchor_text === null);
+
+  const handleAnnotate = (anchor: CommentAnchor, content: string) => postComment(content, { anchor });
+
+  const handleReply = (parent: CommentWithUser, content: string) => postComment(content, { parentId: parent.id });
+
+  const isOwner = note?.user_id === user?.id;
+  const canEdit = isOwner || sharedPermission === 'edit';
+  const canComment = canEdit || sharedPermission === 'comment';
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -166,25 +230,47 @@ const NoteDetail: React.FC = () => {
         <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex justify-between items-center">
           <h1 className="text-xl font-semibold text-gray-900">{note.title}</h1>
           <div className="flex space-x-2">
-            <Link
-              to={`/notes/${note.id}/edit`}
-              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-            >
-              <Edit className="h-4 w-4 mr-1" />
-              Edit
-            </Link>
-            <button
-              onClick={handleDelete}
-              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
-            >
-              <Trash2 className="h-4 w-4 mr-1" />
-              Delete
-            </button>
+            {isOwner && (
+              <button
+                onClick={() => setShowShareDialog(true)}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <Share2 className="h-4 w-4 mr-1" />
+                Share
+              </button>
+            )}
+            {canEdit && (
+              <Link
+                to={`/notes/${note.id}/edit`}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <Edit className="h-4 w-4 mr-1" />
+                Edit
+              </Link>
+            )}
+            {isOwner && (
+              <button
+                onClick={handleDelete}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </button>
+            )}
           </div>
         </div>
 
         <div className="px-6 py-4">
           <div className="flex items-center text-sm text-gray-500 mb-4">
+            {!isOwner && note.user && (
+              <div className="flex items-center mr-4">
+                <Users className="h-4 w-4 mr-1 text-gray-400" />
+                <span>
+                  Shared by {note.user.first_name} {note.user.last_name}
+                  {sharedPermission && ` · ${sharedPermission} access`}
+                </span>
+              </div>
+            )}
             {note.category && (
               <div className="flex items-center mr-4">
                 <BookOpen className="h-4 w-4 mr-1 text-gray-400" />
@@ -196,104 +282,91 @@ const NoteDetail: React.FC = () => {
             </div>
           </div>
 
-          <div className="prose max-w-none">
-            <p className="whitespace-pre-wrap">{note.content}</p>
-          </div>
+          <NoteAnnotations
+            annotations={annotations}
+            replies={replies}
+            members={members}
+            userId={user?.id}
+            canModerate={isOwner}
+            onAnnotate={canComment ? handleAnnotate : undefined}
+            onReply={handleReply}
+            onEdit={editComment}
+            onDelete={deleteComment}
+            onToggleReaction={toggleReaction}
+          >
+            {note.content_format === 'rich' && note.content_doc ? (
+              <RichTextContent content={note.content_doc} />
+            ) : (
+              <MarkdownContent content={note.content} format={note.content_format} />
+            )}
+          </NoteAnnotations>
 
-          {/* File Attachment Section */}
-          {note.file_url && note.file_name && (
-            <div className="mt-6 border-t pt-6">
-              <h3 className="text-sm font-medium text-gray-900 mb-3">Attachment</h3>
-              <div className="bg-gray-50 rounded-lg border border-gray-300 overflow-hidden">
-                <div className="p-4 flex items-center justify-between">
-                  <div className="flex items-center space-x-3 flex-1 min-w-0">
-                    <div className="text-blue-600 flex-shrink-0">
-                      {getFileIcon(note.file_type)}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-gray-900 truncate">
-                        {note.file_name}
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        {formatFileSize(note.file_size)}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-2 ml-4">
-                    {canPreviewInBrowser(note.file_type) ? (
-                      <a
-                        href={note.file_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                      >
-                        <ExternalLink className="h-4 w-4 mr-1" />
-                        Open
-                      </a>
-                    ) : (
-                      <a
-                        href={note.file_url}
-                        download={note.file_name}
-                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                      >
-                        <Download className="h-4 w-4 mr-1" />
-                        Download
-                      </a>
-                    )}
-                  </div>
-                </div>
+          <AttachmentViewer attachments={note.attachments} />
 
-                {/* Preview Section for Images, Videos, Audio, and PDFs */}
-                {note.file_type && (
-                  <>
-                    {note.file_type.startsWith('image/') && (
-                      <div className="border-t border-gray-200 p-4 bg-white">
-                        <img
-                          src={note.file_url}
-                          alt={note.file_name}
-                          className="max-w-full h-auto rounded-lg shadow-sm"
-                        />
-                      </div>
-                    )}
+          <NoteHistoryPanel
+            noteId={note.id}
+            canRestore={canEdit}
+            onRestore={(restored) => setNote({ ...note, ...restored })}
+          />
 
-                    {note.file_type.startsWith('video/') && (
-                      <div className="border-t border-gray-200 p-4 bg-black">
-                        <video
-                          controls
-                          className="max-w-full h-auto rounded-lg"
-                          preload="metadata"
-                        >
-                          <source src={note.file_url} type={note.file_type} />
-                          Your browser does not support the video tag.
-                        </video>
-                      </div>
-                    )}
+          {isOwner && <PublicLinkPanel noteId={note.id} />}
+        </div>
+      </div>
 
-                    {note.file_type.startsWith('audio/') && (
-                      <div className="border-t border-gray-200 p-4 bg-white">
-                        <audio controls className="w-full">
-                          <source src={note.file_url} type={note.file_type} />
-                          Your browser does not support the audio tag.
-                        </audio>
-                      </div>
-                    )}
+      <div className="mt-6 bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <h2 className="text-lg font-medium text-gray-900">Comments</h2>
+          {canComment && (
+            <p className="mt-1 text-sm text-gray-500">Select text in the note to annotate a passage of it.</p>
+          )}
+        </div>
 
-                    {note.file_type === 'application/pdf' && (
-                      <div className="border-t border-gray-200 p-4 bg-gray-100">
-                        <iframe
-                          src={note.file_url}
-                          className="w-full h-[600px] rounded-lg border-0"
-                          title={note.file_name}
-                        />
-                      </div>
-                    )}
-                  </>
-                )}
-              </div>
+        <div className="px-6 py-4">
+          {canComment && (
+            <div className="mb-6">
+              <CommentComposer members={members} onSubmit={(content) => postComment(content)} />
+            </div>
+          )}
+
+          {commentsLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : commentsError ? (
+            <div className="bg-red-50 p-4 rounded-md">
+              <p className="text-sm text-red-700">{commentsError}</p>
+            </div>
+          ) : generalComments.length > 0 ? (
+            <ul className="space-y-4">
+              {generalComments.map((comment) => (
+                <CommentThread
+                  key={comment.id}
+                  comment={comment}
+                  replies={replies}
+                  members={members}
+                  userId={user?.id}
+                  canModerate={isOwner}
+                  canReply={canComment}
+                  onReply={handleReply}
+                  onEdit={editComment}
+                  onDelete={deleteComment}
+                  onToggleReaction={toggleReaction}
+                />
+              ))}
+            </ul>
+          ) : (
+            <div className="text-center py-6">
+              <MessageCircle className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No comments yet</h3>
+              {canComment && <p className="mt-1 text-sm text-gray-500">Be the first to comment on this note.</p>}
             </div>
           )}
         </div>
       </div>
+
+      {showShareDialog && (
+        <ShareNoteDialog noteId={note.id} courseId={note.course_id} onClose={() => setShowShareDialog(false)} />
+      )}
     </div>
   );
 };
@@ -3,58 +3,82 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
+import { useCourse } from '../../context/CourseContext';
+import { syncAttachments, toFileInfos } from '../../lib/attachments';
+import { getDocumentImagePaths, resolveDocumentImages, stripDocumentImageUrls, textToDocument } from '../../lib/richText';
+import { buildCategoryTree, flattenCategoryTree } from '../../lib/categories';
+import { getTagNames, syncTags } from '../../lib/tags';
+import { getCourseLabel } from '../../lib/courses';
+import useAttachmentUploads from '../../hooks/useAttachmentUploads';
+import useInlineImages from '../../hooks/useInlineImages';
+import useNoteCollaboration from '../../hooks/useNoteCollaboration';
+import type { CollaborationSource } from '../../hooks/useNoteCollaboration';
 import { toast } from 'react-toastify';
-import { ArrowLeft, Upload, X, FileText, File as FileIcon, Image as ImageIcon, Video as VideoIcon, Music, FileArchive } from 'lucide-react';
-import type { Category } from '../../lib/supabase';
+import { ArrowLeft, Users } from 'lucide-react';
+import AttachmentUploader from '../../components/AttachmentUploader';
+import TagInput from '../../components/TagInput';
+import ContentEditor from '../../components/ContentEditor';
+import RichTextEditor from '../../components/RichTextEditor';
+import type { Category, ContentFormat, RichTextDocument } from '../../lib/supabase';
 
 type NoteFormData = {
   title: string;
   content: string;
+  content_format: ContentFormat;
   category_id: string;
-};
-
-type FileInfo = {
-  url: string;
-  name: string;
-  type: string;
-  size: number;
+  course_id: string;
 };
 
 const NoteForm: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const isEditing = Boolean(id);
   const { user } = useAuth();
+  const { courses, activeCourse } = useCourse();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
+  // Only the owner files a note; the folder and course belong to them
+  const [canChooseCategory, setCanChooseCategory] = useState(true);
+  const [tags, setTags] = useState<string[]>([]);
   const [initialLoading, setInitialLoading] = useState(isEditing);
-  const [uploadedFile, setUploadedFile] = useState<FileInfo | null>(null);
-  const [uploading, setUploading] = useState(false);
+  // Set when the note is a shared rich text note, which is edited together in real time
+  const [collaborationSource, setCollaborationSource] = useState<CollaborationSource | null>(null);
+  const { session, collaborators, outdated, saveState } = useNoteCollaboration(collaborationSource);
+  const {
+    files: uploadedFiles,
+    setFiles: setUploadedFiles,
+    removedFiles,
+    uploads,
+    uploading,
+    maxSize,
+    uploadFiles,
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    removeFile,
+  } = useAttachmentUploads('note_id');
+  const {
+    setImages: setInlineImages,
+    uploading: uploadingImages,
+    uploadImage,
+    collectImages,
+  } = useInlineImages(collaborationSource?.noteId);
+  const [contentDoc, setContentDoc] = useState<RichTextDocument | null>(null);
+  // Plain text of contentDoc, to notice edits made in another format
+  const [contentDocText, setContentDocText] = useState('');
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
-  } = useForm<NoteFormData>();
-
-  // Helper function to get file icon
-  const getFileIcon = (fileType: string) => {
-    if (fileType.startsWith('image/')) return <ImageIcon className="h-5 w-5" />;
-    if (fileType.startsWith('video/')) return <VideoIcon className="h-5 w-5" />;
-    if (fileType.startsWith('audio/')) return <Music className="h-5 w-5" />;
-    if (fileType === 'application/pdf') return <FileText className="h-5 w-5" />;
-    if (fileType.includes('zip') || fileType.includes('rar') || fileType.includes('7z')) return <FileArchive className="h-5 w-5" />;
-    return <FileIcon className="h-5 w-5" />;
-  };
-
-  // Helper function to format file size
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
-  };
+    watch,
+    setValue,
+    getValues,
+  } = useForm<NoteFormData>({
+    defaultValues: { content: '', content_format: 'rich', course_id: activeCourse?.id ?? '' },
+  });
+  const content = watch('content') || '';
+  const contentFormat = watch('content_format');
 
   useEffect(() => {
     const fetchCategories = async () => {
@@ -80,9 +104,8 @@ const NoteForm: React.FC = () => {
         setInitialLoading(true);
         const { data, error } = await supabase
           .from('notes')
-          .select('*')
+          .select('*, attachments(*), tags(*)')
           .eq('id', id)
-          .eq('user_id', user?.id)
           .single();
         
         if (error) throw error;
@@ -92,21 +115,62 @@ const NoteForm: React.FC = () => {
           navigate('/notes');
           return;
         }
+
+        const isOwner = data.user_id === user?.id;
+        setCanChooseCategory(isOwner);
+
+        // Classmates can only edit a shared note with an edit grant
+        if (!isOwner) {
+          const { data: shareData, error: shareError } = await supabase
+            .from('note_shares')
+            .select('permission')
+            .eq('note_id', id)
+            .eq('shared_with', user?.id)
+            .maybeSingle();
+
+          if (shareError) throw shareError;
+
+          if (shareData?.permission !== 'edit') {
+            toast.error('You do not have permission to edit this note');
+            navigate(`/notes/${id}`);
+            return;
+          }
+        }
         
         reset({
           title: data.title,
           content: data.content,
+          content_format: data.content_format,
           category_id: data.category_id || '',
+          course_id: data.course_id || '',
         });
 
-        // Load file info if exists
-        if (data.file_url && data.file_name) {
-          setUploadedFile({
-            url: data.file_url,
-            name: data.file_name,
-            type: data.file_type || '',
-            size: data.file_size || 0,
-          });
+        setUploadedFiles(toFileInfos(data.attachments));
+        setTags(getTagNames(data.tags));
+        setInlineImages(toFileInfos(data.attachments, true));
+        setContentDoc(data.content_doc ? await resolveDocumentImages(data.content_doc) : null);
+        setContentDocText(data.content);
+
+        if (data.content_format === 'rich') {
+          // Owners only collaborate once someone else may edit the note
+          const { count, error: sharesError } = isOwner
+            ? await supabase
+                .from('note_shares')
+                .select('id', { count: 'exact', head: true })
+                .eq('note_id', id)
+                .eq('permission', 'edit')
+            : { count: 1, error: null };
+
+          if (sharesError) throw sharesError;
+
+          if (count) {
+            setCollaborationSource({
+              noteId: data.id,
+              contentState: data.content_state,
+              contentStateVersion: data.content_state_version,
+              contentDoc: data.content_doc,
+            });
+          }
         }
       } catch (error) {
         console.error('Error fetching note:', error);
@@ -121,101 +185,41 @@ const NoteForm: React.FC = () => {
     if (isEditing) {
       fetchNote();
     }
-  }, [id, user, navigate, reset, isEditing]);
-
-  // Handle file upload
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    // Check file size (max 50MB)
-    const maxSize = 50 * 1024 * 1024;
-    if (file.size > maxSize) {
-      toast.error('File size must be less than 50MB');
-      return;
-    }
-
-    try {
-      setUploading(true);
-      
-      // Create a unique file name
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${user?.id}/${Date.now()}.${fileExt}`;
-      
-      // Upload file to Supabase Storage
-      const { error: uploadError } = await supabase.storage
-        .from('attachments')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('attachments')
-        .getPublicUrl(fileName);
+  }, [id, user, navigate, reset, isEditing, setUploadedFiles, setInlineImages]);
 
-      setUploadedFile({
-        url: publicUrl,
-        name: file.name,
-        type: file.type,
-        size: file.size,
-      });
-
-      toast.success('File uploaded successfully');
-    } catch (error) {
-      console.error('Error uploading file:', error);
-      
-      // Provide more specific error messages
-      let errorMessage = 'Failed to upload file';
-      
-      if (error instanceof Error) {
-        if (error.message.includes('bucket') || error.message.includes('not found')) {
-          errorMessage = 'Storage bucket not found. Please set up storage in Supabase dashboard first. See SETUP_STORAGE.md for instructions.';
-        } else if (error.message.includes('permission') || error.message.includes('policy')) {
-          errorMessage = 'Permission denied. Please check storage policies in Supabase dashboard.';
-        } else if (error.message.includes('size')) {
-          errorMessage = 'File is too large. Maximum size is 50MB.';
-        } else {
-          errorMessage = `Upload failed: ${error.message}`;
-        }
-      }
-      
-      toast.error(errorMessage, { autoClose: 8000 });
-    } finally {
-      setUploading(false);
+  const handleFormatChange = (format: ContentFormat) => {
+    // Carry the text over into the block editor unless it is unchanged since leaving it
+    const text = getValues('content');
+    if (format === 'rich' && (!contentDoc || text !== contentDocText)) {
+      setContentDoc(textToDocument(text));
+      setContentDocText(text);
     }
+    setValue('content_format', format);
   };
 
-  // Handle file removal
-  const handleFileRemove = async () => {
-    if (!uploadedFile) return;
-
-    try {
-      // Extract file path from URL
-      const urlParts = uploadedFile.url.split('/');
-      const fileName = urlParts.slice(-2).join('/'); // Get user_id/filename
-
-      // Delete from storage
-      const { error } = await supabase.storage
-        .from('attachments')
-        .remove([fileName]);
-
-      if (error) throw error;
+  const handleDocumentChange = (doc: RichTextDocument, text: string) => {
+    setContentDoc(doc);
+    setContentDocText(text);
+    setValue('content', text, { shouldValidate: Boolean(errors.content) });
+  };
 
-      setUploadedFile(null);
-      toast.success('File removed successfully');
-    } catch (error) {
-      console.error('Error removing file:', error);
-      toast.error('Failed to remove file');
+  // A rich text note may consist of images alone
+  const validateContent = (value: string) => {
+    if (value) return true;
+    if (getValues('content_format') === 'rich' && contentDoc && getDocumentImagePaths(contentDoc).length > 0) {
+      return true;
     }
+    return 'Content is required';
   };
 
   const onSubmit = async (data: NoteFormData) => {
     try {
       setLoading(true);
+      const isRich = data.content_format === 'rich';
+      const doc = isRich && contentDoc ? stripDocumentImageUrls(contentDoc) : null;
+      const attachments = [...uploadedFiles, ...(await collectImages(doc))];
+      // A note edited on its own replaces any earlier collaborative document
+      const contentState = collaborationSource ? await saveState() : null;
       
       if (isEditing) {
         // Update existing note
@@ -224,35 +228,41 @@ const NoteForm: React.FC = () => {
           .update({
             title: data.title,
             content: data.content,
-            category_id: data.category_id || null,
-            file_url: uploadedFile?.url || null,
-            file_name: uploadedFile?.name || null,
-            file_type: uploadedFile?.type || null,
-            file_size: uploadedFile?.size || null,
+            content_format: data.content_format,
+            content_doc: doc,
+            content_state: contentState,
+            ...(canChooseCategory ? { category_id: data.category_id || null, course_id: data.course_id || null } : {}),
             updated_at: new Date().toISOString(),
           })
-          .eq('id', id)
-          .eq('user_id', user?.id);
+          .eq('id', id);
         
         if (error) throw error;
+
+        await syncAttachments('note_id', id!, user?.id, attachments, removedFiles);
+        await syncTags('note_id', id!, user?.id, tags);
         
         toast.success('Note updated successfully');
       } else {
         // Create new note
-        const { error } = await supabase
+        const { data: note, error } = await supabase
           .from('notes')
           .insert({
             title: data.title,
             content: data.content,
+            content_format: data.content_format,
+            content_doc: doc,
+            content_state: contentState,
             category_id: data.category_id || null,
-            file_url: uploadedFile?.url || null,
-            file_name: uploadedFile?.name || null,
-            file_type: uploadedFile?.type || null,
-            file_size: uploadedFile?.size || null,
+            course_id: data.course_id || null,
             user_id: user?.id,
-          });
+          })
+          .select()
+          .single();
         
         if (error) throw error;
+
+        await syncAttachments('note_id', note.id, user?.id, attachments, removedFiles);
+        await syncTags('note_id', note.id, user?.id, tags);
         
         toast.success('Note created successfully');
       }
@@ -267,6 +277,9 @@ const NoteForm: React.FC = () => {
     }
   };
 
+  const folderOptions = flattenCategoryTree(buildCategoryTree(categories.filter((category) => category.user_id)));
+  const sharedCategories = categories.filter((category) => !category.user_id);
+
   if (initialLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -309,104 +322,136 @@ const NoteForm: React.FC = () => {
             )}
           </div>
 
-          <div>
-            <label htmlFor="category" className="block text-sm font-medium text-gray-700">
-              Category
-            </label>
-            <select
-              id="category"
-              {...register('category_id')}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-            >
-              <option value="">Select a category</option>
-              {categories.map((category) => (
-                <option key={category.id} value={category.id}>
-                  {category.name}
-                </option>
-              ))}
-            </select>
-          </div>
+          {canChooseCategory && (
+            <div>
+              <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+                Category
+              </label>
+              <select
+                id="category"
+                {...register('category_id')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="">Select a category</option>
+                {folderOptions.length > 0 && (
+                  <optgroup label="My folders">
+                    {folderOptions.map(({ category, depth }) => (
+                      <option key={category.id} value={category.id}>
+                        {'\u00A0\u00A0'.repeat(depth)}{category.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="Shared categories">
+                  {sharedCategories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </optgroup>
+              </select>
+            </div>
+          )}
+
+          {canChooseCategory && courses.length > 0 && (
+            <div>
+              <label htmlFor="course" className="block text-sm font-medium text-gray-700">
+                Course
+              </label>
+              <select
+                id="course"
+                {...register('course_id')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="">No course</option>
+                {courses.map((course) => (
+                  <option key={course.id} value={course.id}>
+                    {getCourseLabel(course)}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Notes in a course can only be shared with its members.</p>
+            </div>
+          )}
 
           <div>
-            <label htmlFor="content" className="block text-sm font-medium text-gray-700">
-              Content
+            <label htmlFor="tags" className="block text-sm font-medium text-gray-700">
+              Tags
             </label>
-            <textarea
-              id="content"
-              rows={10}
-              {...register('content', { required: 'Content is required' })}
-              className={`mt-1 block w-full rounded-md shadow-sm ${
-                errors.content ? 'border-red-300' : 'border-gray-300'
-              } focus:border-blue-500 focus:ring-blue-500`}
-            ></textarea>
-            {errors.content && (
-              <p className="mt-1 text-sm text-red-600">{errors.content.message}</p>
-            )}
+            <div className="mt-1">
+              <TagInput id="tags" value={tags} onChange={setTags} />
+            </div>
           </div>
 
-          {/* File Upload Section */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Attachment (Optional)
-            </label>
-            
-            {!uploadedFile ? (
-              <div className="flex items-center justify-center w-full">
-                <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100">
-                  <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                    <Upload className="w-8 h-8 mb-2 text-gray-500" />
-                    <p className="mb-2 text-sm text-gray-500">
-                      <span className="font-semibold">Click to upload</span> or drag and drop
-                    </p>
-                    <p className="text-xs text-gray-500">
-                      All file types supported (Images, Videos, Audio, PDFs, Documents, etc.) - Max 50MB
-                    </p>
-                  </div>
-                  <input
-                    type="file"
-                    className="hidden"
-                    onChange={handleFileUpload}
-                    disabled={uploading}
-                    accept="*/*"
-                  />
-                </label>
-              </div>
-            ) : (
-              <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-300">
-                <div className="flex items-center space-x-3">
-                  <div className="text-blue-600">
-                    {getFileIcon(uploadedFile.type)}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-gray-900 truncate">
-                      {uploadedFile.name}
-                    </p>
-                    <p className="text-xs text-gray-500">
-                      {formatFileSize(uploadedFile.size)}
-                    </p>
-                  </div>
+          {session && (
+            <div className="rounded-md bg-blue-50 px-4 py-2 text-sm text-blue-800">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center">
+                  <Users className="h-4 w-4 mr-2" />
+                  {collaborators.length > 0 ? 'Editing together with' : 'Shared note · changes sync live with other editors'}
+                </span>
+                <div className="flex flex-wrap items-center gap-2">
+                  {collaborators.map((collaborator) => (
+                    <span
+                      key={collaborator.clientId}
+                      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-white"
+                      style={{ backgroundColor: collaborator.color }}
+                    >
+                      {collaborator.name}
+                    </span>
+                  ))}
                 </div>
-                <button
-                  type="button"
-                  onClick={handleFileRemove}
-                  className="ml-4 text-red-600 hover:text-red-800"
-                  title="Remove file"
-                >
-                  <X className="h-5 w-5" />
-                </button>
               </div>
-            )}
+              {outdated ? (
+                <p className="mt-1 ml-6 text-xs text-red-700">
+                  This note was restored to an earlier version while you were editing. Reload it to continue; your
+                  changes since then can't be saved.
+                </p>
+              ) : (
+                <p className="mt-1 ml-6 text-xs text-blue-700">
+                  Edits are kept for the other editors as you type, but anyone viewing the note only sees them once it is saved.
+                </p>
+              )}
+            </div>
+          )}
 
-            {uploading && (
-              <div className="mt-2 flex items-center text-sm text-blue-600">
-                <svg className="animate-spin h-4 w-4 mr-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Uploading...
-              </div>
-            )}
-          </div>
+          <ContentEditor
+            id="content"
+            label="Content"
+            value={content}
+            format={contentFormat}
+            onFormatChange={handleFormatChange}
+            registration={register('content', { validate: validateContent })}
+            error={errors.content?.message}
+            formats={collaborationSource ? ['rich'] : ['rich', 'markdown', 'plain']}
+            richEditor={
+              collaborationSource && !session ? (
+                <div className="mt-1 flex justify-center rounded-md border border-gray-300 py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+                </div>
+              ) : (
+                <RichTextEditor
+                  content={contentDoc}
+                  onChange={handleDocumentChange}
+                  onImageUpload={uploadImage}
+                  uploading={uploadingImages}
+                  error={Boolean(errors.content)}
+                  collaboration={session}
+                />
+              )
+            }
+          />
+
+          <AttachmentUploader
+            files={uploadedFiles}
+            uploads={uploads}
+            maxSize={maxSize}
+            onUpload={uploadFiles}
+            onRemove={removeFile}
+            onPause={pauseUpload}
+            onResume={resumeUpload}
+            onCancel={cancelUpload}
+          />
 
           <div className="flex justify-end">
             <button
@@ -418,7 +463,7 @@ const NoteForm: React.FC = () => {
             </button>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || uploading || uploadingImages}
               className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
             >
               {loading ? (
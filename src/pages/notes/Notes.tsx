@@ -1,26 +1,65 @@
 import React, { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
+import { useCourse } from '../../context/CourseContext';
+import { toast } from 'react-toastify';
 import { formatDistanceToNow } from 'date-fns';
-import { Plus, Search, Filter, Trash2, Edit, BookOpen } from 'lucide-react';
-import type { Note, Category } from '../../lib/supabase';
+import { Plus, Search, Filter, Trash2, Edit, BookOpen, Users, GraduationCap } from 'lucide-react';
+import { getContentExcerpt } from '../../lib/markdown';
+import { PAGE_SIZE, dateRanges, getCursorFilter, getRangeStart, getSearchFilter } from '../../lib/pagination';
+import type { DateRange, SortOption } from '../../lib/pagination';
+import usePaginatedList from '../../hooks/usePaginatedList';
+import type { PageLoader } from '../../hooks/usePaginatedList';
+import useDebouncedValue from '../../hooks/useDebouncedValue';
+import ListFooter from '../../components/ListFooter';
+import NoteFolders, { NOTE_DRAG_TYPE } from '../../components/NoteFolders';
+import TagChips from '../../components/TagChips';
+import TagFilter from '../../components/TagFilter';
+import { getTagNames } from '../../lib/tags';
+import type { TagMatch } from '../../lib/tags';
+import { DEFAULT_CATEGORY_COLOR, getDescendantIds, UNFILED } from '../../lib/categories';
+import { getCourseLabel } from '../../lib/courses';
+import type { Note, Category, NotePermission } from '../../lib/supabase';
+
+type NoteWithPermission = Note & {
+  permission?: NotePermission;
+};
+
+type NotesTab = 'mine' | 'shared';
+
+type NoteSort = 'updated' | 'created' | 'title';
+
+const noteSorts: SortOption<NoteSort>[] = [
+  { value: 'updated', label: 'Recently updated', column: 'updated_at', ascending: false },
+  { value: 'created', label: 'Recently created', column: 'created_at', ascending: false },
+  { value: 'title', label: 'Title (A-Z)', column: 'title', ascending: true },
+];
 
 const Notes: React.FC = () => {
   const { user } = useAuth();
-  const [notes, setNotes] = useState<Note[]>([]);
+  const { courses } = useCourse();
+  const [activeTab, setActiveTab] = useState<NotesTab>('mine');
   const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [counts, setCounts] = useState<Record<NotesTab, number>>({ mine: 0, shared: 0 });
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  // Folder id, UNFILED, or '' for all notes
+  const [selectedFolder, setSelectedFolder] = useState('');
+  // Course id, or '' for notes in any course or none
+  const [courseFilter, setCourseFilter] = useState('');
+  const [dateRange, setDateRange] = useState<DateRange>('');
+  const [sortBy, setSortBy] = useState<NoteSort>('updated');
+  // The dashboard tag cloud links here with ?tag=
+  const [searchParams] = useSearchParams();
+  const [tagFilter, setTagFilter] = useState<string[]>(() => searchParams.getAll('tag'));
+  const [tagMatch, setTagMatch] = useState<TagMatch>('all');
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const search = useDebouncedValue(searchTerm.trim());
 
   useEffect(() => {
-    const fetchNotes = async () => {
+    const fetchFilters = async () => {
       try {
-        setLoading(true);
-        
-        // Fetch categories
+        // Fetch the shared categories and the user's own folders
         const { data: categoriesData, error: categoriesError } = await supabase
           .from('categories')
           .select('*')
@@ -28,31 +67,99 @@ const Notes: React.FC = () => {
         
         if (categoriesError) throw categoriesError;
         
-        // Fetch notes with category information
-        const { data: notesData, error: notesError } = await supabase
-          .from('notes')
-          .select(`
-            *,
-            category:categories(*)
-          `)
-          .eq('user_id', user?.id)
-          .order('updated_at', { ascending: false });
+        // Count the notes on each tab without loading them
+        const [{ count: mineCount, error: mineError }, { count: sharedCount, error: sharedError }] = await Promise.all([
+          supabase
+            .from('notes')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', user?.id),
+          supabase
+            .from('notes')
+            .select('id, note_shares!inner(shared_with)', { count: 'exact', head: true })
+            .eq('note_shares.shared_with', user?.id),
+        ]);
         
-        if (notesError) throw notesError;
+        if (mineError) throw mineError;
+        if (sharedError) throw sharedError;
         
         setCategories(categoriesData || []);
-        setNotes(notesData || []);
-      } catch (error: any) {
-        console.error('Error fetching notes:', error);
-        setError(error.message);
-      } finally {
-        setLoading(false);
+        setCounts({ mine: mineCount || 0, shared: sharedCount || 0 });
+      } catch (error) {
+        console.error('Error fetching note filters:', error);
       }
     };
     
-    fetchNotes();
+    fetchFilters();
   }, [user]);
 
+  // A folder shows the notes in its subfolders too
+  const folderIds = selectedFolder && selectedFolder !== UNFILED
+    ? getDescendantIds(categories, selectedFolder)
+    : [];
+
+  const loadNotes: PageLoader<NoteWithPermission> = async (last) => {
+    const sort = noteSorts.find((option) => option.value === sortBy) || noteSorts[0];
+
+    // Shared notes are the ones with a share to the current user; the share carries the permission
+    const columns = activeTab === 'mine'
+      ? '*, category:categories(*), course:courses(*), tags(*)'
+      : '*, category:categories(*), course:courses(*), tags(*), user:profiles(*), note_shares!inner(permission)';
+
+    let query = supabase
+      .from('notes')
+      .select(columns);
+
+    query = activeTab === 'mine'
+      ? query.eq('user_id', user?.id)
+      : query.eq('note_shares.shared_with', user?.id);
+
+    if (selectedFolder === UNFILED) {
+      query = query.is('category_id', null);
+    } else if (folderIds.length > 0) {
+      query = query.in('category_id', folderIds);
+    }
+
+    if (courseFilter) query = query.eq('course_id', courseFilter);
+
+    const since = getRangeStart(dateRange);
+    if (since) query = query.gte('updated_at', since);
+
+    if (tagFilter.length > 0) {
+      query = tagMatch === 'all'
+        ? query.contains('tag_names', tagFilter)
+        : query.overlaps('tag_names', tagFilter);
+    }
+
+    if (search) query = query.or(getSearchFilter(['title', 'content'], search));
+    if (last) query = query.or(getCursorFilter(sort, last));
+
+    const { data, error } = await query
+      .order(sort.column, { ascending: sort.ascending })
+      .order('id', { ascending: sort.ascending })
+      .limit(PAGE_SIZE);
+
+    if (error) throw error;
+
+    const rows = (data || []) as unknown as (Note & { note_shares?: { permission: NotePermission }[] })[];
+
+    return rows.map(({ note_shares, ...note }) => ({
+      ...note,
+      permission: note_shares?.[0]?.permission,
+    }));
+  };
+
+  const {
+    items: notes,
+    setItems: setNotes,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMoreFailed,
+    error: loadError,
+    loadMore,
+    sentinelRef,
+  } = usePaginatedList(loadNotes, JSON.stringify([user?.id, activeTab, selectedFolder, folderIds, courseFilter, tagFilter, tagMatch, dateRange, sortBy, search]));
+
   const handleDeleteNote = async (id: string) => {
     try {
       const { error } = await supabase
@@ -63,26 +170,64 @@ const Notes: React.FC = () => {
       if (error) throw error;
       
       setNotes(notes.filter(note => note.id !== id));
+      setCounts({ ...counts, mine: Math.max(counts.mine - 1, 0) });
     } catch (error: any) {
       console.error('Error deleting note:', error);
-      setError(error.message);
+      setDeleteError(error.message);
     }
   };
 
-  const filteredNotes = notes.filter(note => {
-    const matchesSearch = note.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                          note.content.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = selectedCategory ? note.category_id === selectedCategory : true;
-    return matchesSearch && matchesCategory;
-  });
+  const handleMoveNote = async (noteId: string, categoryId: string | null) => {
+    const note = notes.find((item) => item.id === noteId);
+    if (!note || note.category_id === categoryId) return;
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
-      </div>
-    );
-  }
+    try {
+      const { error } = await supabase
+        .from('notes')
+        .update({ category_id: categoryId })
+        .eq('id', noteId);
+
+      if (error) throw error;
+
+      const category = categories.find((item) => item.id === categoryId);
+      const stillShown = selectedFolder === UNFILED
+        ? !categoryId
+        : !selectedFolder || (categoryId !== null && folderIds.includes(categoryId));
+
+      setNotes(stillShown
+        ? notes.map((item) => (item.id === noteId ? { ...item, category_id: categoryId, category } : item))
+        : notes.filter((item) => item.id !== noteId));
+      toast.success(category ? `Moved to ${category.name}` : 'Moved to Uncategorized');
+    } catch (error) {
+      console.error('Error moving note:', error);
+      toast.error('Failed to move note');
+    }
+  };
+
+  const handleCategoriesChange = (next: Category[]) => {
+    setCategories(next);
+    // Keep renamed and recolored folders current in the list
+    setNotes(notes.map((note) => {
+      const category = next.find((item) => item.id === note.category_id);
+      return category ? { ...note, category } : note;
+    }));
+  };
+
+  const handleCategoriesDeleted = (ids: string[]) => {
+    if (ids.includes(selectedFolder)) setSelectedFolder('');
+    setNotes(notes.map((note) =>
+      note.category_id && ids.includes(note.category_id)
+        ? { ...note, category_id: null, category: undefined }
+        : note
+    ));
+  };
+
+  const toggleTagFilter = (name: string) => {
+    setTagFilter(tagFilter.includes(name) ? tagFilter.filter((tag) => tag !== name) : [...tagFilter, name]);
+  };
+
+  const error = loadError || deleteError;
+  const hasFilters = Boolean(search || selectedFolder || courseFilter || dateRange || tagFilter.length > 0);
 
   if (error) {
     return (
@@ -118,7 +263,7 @@ const Notes: React.FC = () => {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">My Notes</h1>
-          <p className="mt-1 text-sm text-gray-500">Manage your personal study notes</p>
+          <p className="mt-1 text-sm text-gray-500">Manage your study notes and the notes classmates share with you</p>
         </div>
         <Link
           to="/notes/new"
@@ -129,109 +274,221 @@ const Notes: React.FC = () => {
         </Link>
       </div>
 
-      <div className="bg-white shadow rounded-lg overflow-hidden">
-        <div className="p-4 border-b border-gray-200 bg-gray-50 sm:flex sm:items-center sm:justify-between">
-          <div className="relative flex-1 max-w-md">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <Search className="h-5 w-5 text-gray-400" />
-            </div>
-            <input
-              type="text"
-              placeholder="Search notes..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-            />
+      <div className="lg:grid lg:grid-cols-4 lg:gap-6 space-y-6 lg:space-y-0">
+        <div className="lg:col-span-1">
+          <NoteFolders
+            categories={categories}
+            selected={selectedFolder}
+            onSelect={setSelectedFolder}
+            onCategoriesChange={handleCategoriesChange}
+            onCategoriesDeleted={handleCategoriesDeleted}
+            onMoveNote={handleMoveNote}
+          />
+        </div>
+        <div className="lg:col-span-3 bg-white shadow rounded-lg overflow-hidden">
+          <div className="border-b border-gray-200 px-4">
+            <nav className="-mb-px flex space-x-6">
+              {([
+                { key: 'mine', label: 'My Notes', count: counts.mine },
+                { key: 'shared', label: 'Shared with me', count: counts.shared },
+              ] as const).map((tab) => (
+                <button
+                  key={tab.key}
+                  onClick={() => setActiveTab(tab.key)}
+                  className={`py-3 px-1 border-b-2 text-sm font-medium ${
+                    activeTab === tab.key
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {tab.label}
+                  <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                    {tab.count}
+                  </span>
+                </button>
+              ))}
+            </nav>
           </div>
-          <div className="mt-3 sm:mt-0 sm:ml-4">
-            <div className="flex items-center">
-              <Filter className="h-5 w-5 text-gray-400 mr-2" />
-              <select
-                value={selectedCategory || ''}
-                onChange={(e) => setSelectedCategory(e.target.value || null)}
-                className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
-              >
-                <option value="">All Categories</option>
-                {categories.map((category) => (
-                  <option key={category.id} value={category.id}>
-                    {category.name}
-                  </option>
-                ))}
-              </select>
+          <div className="p-4 border-b border-gray-200 bg-gray-50 sm:flex sm:items-center sm:justify-between">
+            <div className="relative flex-1 max-w-md">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                placeholder="Search notes..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div className="mt-3 sm:mt-0 sm:ml-4">
+              <div className="flex items-center space-x-2">
+                <Filter className="h-5 w-5 text-gray-400" />
+                {courses.length > 0 && (
+                  <select
+                    value={courseFilter}
+                    onChange={(e) => setCourseFilter(e.target.value)}
+                    aria-label="Course"
+                    className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                  >
+                    <option value="">All courses</option>
+                    {courses.map((course) => (
+                      <option key={course.id} value={course.id}>
+                        {getCourseLabel(course)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <select
+                  value={dateRange}
+                  onChange={(e) => setDateRange(e.target.value as DateRange)}
+                  aria-label="Last updated"
+                  className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  {dateRanges.map((range) => (
+                    <option key={range.value} value={range.value}>
+                      {range.value ? `Updated in the ${range.label.toLowerCase()}` : 'Updated any time'}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as NoteSort)}
+                  aria-label="Sort by"
+                  className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  {noteSorts.map((sort) => (
+                    <option key={sort.value} value={sort.value}>
+                      {sort.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
           </div>
-        </div>
+          <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+            <TagFilter value={tagFilter} onChange={setTagFilter} match={tagMatch} onMatchChange={setTagMatch} />
+          </div>
 
-        {filteredNotes.length > 0 ? (
-          <ul className="divide-y divide-gray-200">
-            {filteredNotes.map((note) => (
-              <li key={note.id} className="hover:bg-gray-50">
-                <div className="px-4 py-4 sm:px-6">
-                  <div className="flex items-center justify-between">
-                    <Link to={`/notes/${note.id}`} className="block flex-1">
-                      <p className="text-sm font-medium text-blue-600 truncate">{note.title}</p>
-                      <div className="mt-2">
-                        <p className="text-sm text-gray-600 line-clamp-2">{note.content}</p>
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : notes.length > 0 ? (
+            <>
+              <ul className="divide-y divide-gray-200">
+                {notes.map((note) => (
+                  <li
+                    key={note.id}
+                    draggable={activeTab === 'mine'}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    className="hover:bg-gray-50"
+                  >
+                    <div className="px-4 py-4 sm:px-6">
+                      <div className="flex items-center justify-between">
+                        <Link to={`/notes/${note.id}`} className="block flex-1">
+                          <p className="text-sm font-medium text-blue-600 truncate">{note.title}</p>
+                          <div className="mt-2">
+                            <p className="text-sm text-gray-600 line-clamp-2">{getContentExcerpt(note.content, note.content_format)}</p>
+                          </div>
+                        </Link>
+                        <div className="ml-4 flex-shrink-0 flex">
+                          {(activeTab === 'mine' || note.permission === 'edit') && (
+                            <Link
+                              to={`/notes/${note.id}/edit`}
+                              className="mr-2 inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                            >
+                              <Edit className="h-4 w-4 mr-1" />
+                              Edit
+                            </Link>
+                          )}
+                          {activeTab === 'mine' && (
+                            <button
+                              onClick={() => handleDeleteNote(note.id)}
+                              className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-red-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                            >
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Delete
+                            </button>
+                          )}
+                        </div>
                       </div>
-                    </Link>
-                    <div className="ml-4 flex-shrink-0 flex">
-                      <Link
-                        to={`/notes/${note.id}/edit`}
-                        className="mr-2 inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                      >
-                        <Edit className="h-4 w-4 mr-1" />
-                        Edit
-                      </Link>
-                      <button
-                        onClick={() => handleDeleteNote(note.id)}
-                        className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-red-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
-                      >
-                        <Trash2 className="h-4 w-4 mr-1" />
-                        Delete
-                      </button>
-                    </div>
-                  </div>
-                  <div className="mt-2 sm:flex sm:justify-between">
-                    <div className="sm:flex">
-                      {note.category && (
-                        <p className="flex items-center text-xs text-gray-500">
-                          <BookOpen className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
-                          {note.category.name}
-                        </p>
+                      {note.tags && note.tags.length > 0 && (
+                        <div className="mt-2">
+                          <TagChips names={getTagNames(note.tags)} selected={tagFilter} onSelect={toggleTagFilter} />
+                        </div>
                       )}
+                      <div className="mt-2 sm:flex sm:justify-between">
+                        <div className="sm:flex sm:space-x-4">
+                          {activeTab === 'shared' && note.user && (
+                            <p className="flex items-center text-xs text-gray-500">
+                              <Users className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
+                              {note.user.first_name} {note.user.last_name} · {note.permission}
+                            </p>
+                          )}
+                          {note.category && (
+                            <p className="flex items-center text-xs text-gray-500">
+                              <BookOpen
+                                className="flex-shrink-0 mr-1.5 h-4 w-4"
+                                style={{ color: note.category.color || DEFAULT_CATEGORY_COLOR }}
+                              />
+                              {note.category.name}
+                            </p>
+                          )}
+                          {note.course && (
+                            <p className="flex items-center text-xs text-gray-500">
+                              <GraduationCap className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
+                              {getCourseLabel(note.course)}
+                            </p>
+                          )}
+                        </div>
+                        <div className="mt-2 flex items-center text-xs text-gray-500 sm:mt-0">
+                          <p>
+                            Updated {formatDistanceToNow(new Date(note.updated_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </div>
                     </div>
-                    <div className="mt-2 flex items-center text-xs text-gray-500 sm:mt-0">
-                      <p>
-                        Updated {formatDistanceToNow(new Date(note.updated_at), { addSuffix: true })}
-                      </p>
-                    </div>
-                  </div>
+                  </li>
+                ))}
+              </ul>
+              <ListFooter
+                sentinelRef={sentinelRef}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                loadMoreFailed={loadMoreFailed}
+                onRetry={loadMore}
+              />
+            </>
+          ) : (
+            <div className="text-center py-12">
+              <BookOpen className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No notes found</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {hasFilters
+                  ? "No notes match your search criteria."
+                  : activeTab === 'mine'
+                    ? "You haven't created any notes yet."
+                    : "No one has shared a note with you yet."}
+              </p>
+              {activeTab === 'mine' && !hasFilters && (
+                <div className="mt-6">
+                  <Link
+                    to="/notes/new"
+                    className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Note
+                  </Link>
                 </div>
-              </li>
-            ))}
-          </ul>
-        ) : (
-          <div className="text-center py-12">
-            <BookOpen className="mx-auto h-12 w-12 text-gray-400" />
-            <h3 className="mt-2 text-sm font-medium text-gray-900">No notes found</h3>
-            <p className="mt-1 text-sm text-gray-500">
-              {notes.length === 0
-                ? "You haven't created any notes yet."
-                : "No notes match your search criteria."}
-            </p>
-            {notes.length === 0 && (
-              <div className="mt-6">
-                <Link
-                  to="/notes/new"
-                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  New Note
-                </Link>
-              </div>
-            )}
-          </div>
-        )}
+              )}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { BookOpen, Clock, Lock } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import AttachmentViewer from '../../components/AttachmentViewer';
+import MarkdownContent from '../../components/MarkdownContent';
+import RichTextContent from '../../components/RichTextContent';
+import type { PublicNote } from '../../lib/supabase';
+
+const SharedNote: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [note, setNote] = useState<PublicNote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSharedNote = async () => {
+      try {
+        setLoading(true);
+
+        const { data, error } = await supabase.rpc('get_shared_note', {
+          share_token: token,
+        });
+
+        if (error) throw error;
+
+        if (!data) {
+          setError('This link is invalid, has expired or has been revoked.');
+          return;
+        }
+
+        setNote(data);
+      } catch (error) {
+        console.error('Error fetching shared note:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        setError(message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSharedNote();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm py-4 px-6 flex justify-between items-center">
+        <Link to="/" className="text-xl font-bold text-blue-600">
+          Academic content sharing web app
+        </Link>
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+          <Lock className="h-3 w-3 mr-1" />
+          Read-only
+        </span>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-6">
+        {error || !note ? (
+          <div className="bg-red-50 p-4 rounded-md">
+            <h3 className="text-sm font-medium text-red-800">Note unavailable</h3>
+            <div className="mt-2 text-sm text-red-700">
+              <p>{error || 'Note not found'}</p>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+              <h1 className="text-xl font-semibold text-gray-900">{note.title}</h1>
+              {note.author && (
+                <p className="mt-1 text-sm text-gray-500">Shared by {note.author}</p>
+              )}
+            </div>
+
+            <div className="px-6 py-4">
+              <div className="flex flex-wrap items-center text-sm text-gray-500 mb-4 gap-y-1">
+                {note.category && (
+                  <div className="flex items-center mr-4">
+                    <BookOpen className="h-4 w-4 mr-1 text-gray-400" />
+                    <span>{note.category}</span>
+                  </div>
+                )}
+                <div className="mr-4">
+                  Updated {formatDistanceToNow(new Date(note.updated_at), { addSuffix: true })}
+                </div>
+                {note.expires_at && (
+                  <div className="flex items-center">
+                    <Clock className="h-4 w-4 mr-1 text-gray-400" />
+                    <span>Link expires {format(new Date(note.expires_at), 'PPP')}</span>
+                  </div>
+                )}
+              </div>
+
+              {note.content_format === 'rich' && note.content_doc ? (
+                <RichTextContent content={note.content_doc} />
+              ) : (
+                <MarkdownContent content={note.content} format={note.content_format} />
+              )}
+
+              <AttachmentViewer attachments={note.attachments} />
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedNote;
@@ -0,0 +1,147 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createTransportFromEnv } from './transport.ts';
+import { DIGEST_LOOKAHEAD_DAYS, renderDigestEmail, renderNotificationEmail } from './templates.ts';
+import type {
+  DigestAssignment,
+  DigestNotification,
+  DigestRecipientRow,
+  NotificationEmailRow,
+} from './templates.ts';
+
+// Sends email for notifications. Meant to be called on a schedule with the service role key:
+// `{ "job": "notifications" }` every few minutes emails new announcements, due date reminders
+// and returned grades, and `{ "job": "digest" }` once a day sends the daily and weekly digests
+// that are due.
+
+type Job = 'notifications' | 'digest';
+
+type JobResult = {
+  sent: number;
+  failed: number;
+  skipped?: number;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+// Notifications emailed per run; the rest wait for the next one
+const BATCH_SIZE = 200;
+const DIGEST_PERIOD_DAYS = { daily: 1, weekly: 7 };
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const appUrl = (Deno.env.get('APP_URL') || 'http://localhost:5173').replace(/\/$/, '');
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey, {
+  auth: { persistSession: false },
+});
+const transport = createTransportFromEnv();
+
+const sendNotificationEmails = async (): Promise<JobResult> => {
+  // Reminders are otherwise only written when a student opens the app
+  const { error: reminderError } = await supabase.rpc('create_all_due_soon_notifications');
+  if (reminderError) throw reminderError;
+
+  const { data, error } = await supabase.rpc('claim_notification_emails', { batch_size: BATCH_SIZE });
+  if (error) throw error;
+
+  const result: JobResult = { sent: 0, failed: 0 };
+
+  for (const notification of (data || []) as NotificationEmailRow[]) {
+    try {
+      await transport.send({ to: notification.email, ...renderNotificationEmail(notification, appUrl) });
+      result.sent++;
+    } catch (error) {
+      console.error(`Error emailing notification ${notification.id}:`, error);
+      result.failed++;
+
+      // Tried again on the next run
+      const { error: releaseError } = await supabase.rpc('release_notification_email', {
+        notification_id: notification.id,
+      });
+      if (releaseError) console.error('Error releasing notification email:', releaseError);
+    }
+  }
+
+  return result;
+};
+
+const sendDigests = async (): Promise<JobResult> => {
+  const { data, error } = await supabase.rpc('claim_digest_recipients');
+  if (error) throw error;
+
+  const result: JobResult = { sent: 0, failed: 0, skipped: 0 };
+
+  for (const recipient of (data || []) as DigestRecipientRow[]) {
+    try {
+      const since =
+        recipient.since ?? new Date(Date.now() - DIGEST_PERIOD_DAYS[recipient.email_digest] * DAY).toISOString();
+      const until = new Date(Date.now() + DIGEST_LOOKAHEAD_DAYS * DAY).toISOString();
+
+      const [notificationsResult, assignmentsResult] = await Promise.all([
+        supabase
+          .from('notifications')
+          .select('type, title, body, link, created_at')
+          .eq('user_id', recipient.id)
+          .is('read_at', null)
+          .gt('created_at', since)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('upcoming_assignments', { member_id: recipient.id, until }),
+      ]);
+
+      if (notificationsResult.error) throw notificationsResult.error;
+      if (assignmentsResult.error) throw assignmentsResult.error;
+
+      const notifications = (notificationsResult.data || []) as DigestNotification[];
+      const assignments = (assignmentsResult.data || []) as DigestAssignment[];
+
+      // Nothing to tell them about
+      if (notifications.length === 0 && assignments.length === 0) {
+        result.skipped = (result.skipped ?? 0) + 1;
+        continue;
+      }
+
+      await transport.send({
+        to: recipient.email,
+        ...renderDigestEmail(recipient, notifications, assignments, appUrl),
+      });
+      result.sent++;
+    } catch (error) {
+      console.error(`Error sending digest to ${recipient.id}:`, error);
+      result.failed++;
+
+      // Due again on the next run
+      const { error: releaseError } = await supabase
+        .from('profiles')
+        .update({ last_digest_sent_at: recipient.since })
+        .eq('id', recipient.id);
+      if (releaseError) console.error('Error releasing digest:', releaseError);
+    }
+  }
+
+  return result;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  // Anyone can reach the function, but only the scheduler holds the service role key
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const { job = 'notifications' } = (await req.json().catch(() => ({}))) as { job?: Job };
+  if (job !== 'notifications' && job !== 'digest') {
+    return jsonResponse({ error: `Unknown job: ${job}` }, 400);
+  }
+
+  try {
+    const result = job === 'digest' ? await sendDigests() : await sendNotificationEmails();
+    return jsonResponse({ job, ...result });
+  } catch (error) {
+    console.error(`Error running ${job} job:`, error);
+    const message = error instanceof Error ? error.message : `Failed to run ${job} job`;
+    return jsonResponse({ error: message }, 500);
+  }
+});
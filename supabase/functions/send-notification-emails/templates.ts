@@ -0,0 +1,185 @@
+// Notification claimed for emailing, with its recipient
+export type NotificationEmailRow = {
+  id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  // App path of the record the notification is about
+  link: string | null;
+  created_at: string;
+  email: string;
+  first_name: string | null;
+};
+
+export type DigestRecipientRow = {
+  id: string;
+  email: string;
+  first_name: string | null;
+  email_digest: 'daily' | 'weekly';
+  since: string | null;
+};
+
+export type DigestNotification = Pick<NotificationEmailRow, 'type' | 'title' | 'body' | 'link' | 'created_at'>;
+
+export type DigestAssignment = {
+  id: string;
+  title: string;
+  due_date: string;
+  course_name: string;
+};
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+// How far ahead a digest lists assignments that are due
+export const DIGEST_LOOKAHEAD_DAYS = 7;
+// Notifications listed in a digest before the rest are summed up
+const MAX_DIGEST_NOTIFICATIONS = 20;
+
+const htmlEntities: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (char) => htmlEntities[char]);
+
+// Profiles have no time zone, so dates are given in UTC
+const formatDate = (value: string) =>
+  `${new Intl.DateTimeFormat('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }).format(new Date(value))} UTC`;
+
+const greeting = (firstName: string | null) => (firstName ? `Hi ${firstName},` : 'Hi,');
+
+const preferencesNote = (appUrl: string) =>
+  `You can choose which emails you get on your profile: ${appUrl}/profile`;
+
+const renderHtml = (appUrl: string, firstName: string | null, content: string) => `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <p style="margin:0 0 16px;">${escapeHtml(greeting(firstName))}</p>
+      ${content}
+      <p style="margin:24px 0 0;font-size:12px;color:#6b7280;">
+        You can choose which emails you get on <a href="${appUrl}/profile" style="color:#2563eb;">your profile</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+
+const renderLink = (appUrl: string, link: string | null, label: string) =>
+  link
+    ? `<p style="margin:16px 0 0;"><a href="${escapeHtml(appUrl + link)}" style="display:inline-block;padding:8px 16px;border-radius:6px;background:#2563eb;color:#ffffff;text-decoration:none;">${escapeHtml(label)}</a></p>`
+    : '';
+
+const subjects: Record<string, (notification: NotificationEmailRow) => string> = {
+  announcement: (notification) => `New announcement: ${notification.body || notification.title}`,
+  due_soon: (notification) => notification.title,
+  grade: (notification) => notification.title,
+};
+
+const linkLabels: Record<string, string> = {
+  announcement: 'Read the announcement',
+  due_soon: 'Open the assignment',
+  grade: 'See your grade',
+};
+
+export const renderNotificationEmail = (notification: NotificationEmailRow, appUrl: string): RenderedEmail => {
+  const subject = subjects[notification.type]?.(notification) ?? notification.title;
+  const linkLabel = linkLabels[notification.type] || 'Open';
+
+  const text = [
+    greeting(notification.first_name),
+    notification.title,
+    notification.body,
+    notification.link && `${linkLabel}: ${appUrl}${notification.link}`,
+    preferencesNote(appUrl),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const html = renderHtml(
+    appUrl,
+    notification.first_name,
+    `<p style="margin:0;font-weight:bold;">${escapeHtml(notification.title)}</p>
+      ${notification.body ? `<p style="margin:8px 0 0;color:#374151;">${escapeHtml(notification.body)}</p>` : ''}
+      ${renderLink(appUrl, notification.link, linkLabel)}`
+  );
+
+  return { subject, text, html };
+};
+
+export const renderDigestEmail = (
+  recipient: DigestRecipientRow,
+  notifications: DigestNotification[],
+  assignments: DigestAssignment[],
+  appUrl: string
+): RenderedEmail => {
+  const subject = `Your ${recipient.email_digest} digest`;
+  const listed = notifications.slice(0, MAX_DIGEST_NOTIFICATIONS);
+  const more = notifications.length - listed.length;
+
+  const intro = `Here is your ${recipient.email_digest} summary.`;
+  const textSections = [greeting(recipient.first_name), intro];
+  const htmlSections = [`<p style="margin:0;">${intro}</p>`];
+
+  if (assignments.length > 0) {
+    textSections.push(
+      [
+        `Due in the next ${DIGEST_LOOKAHEAD_DAYS} days`,
+        ...assignments.map(
+          (assignment) =>
+            `- ${assignment.title} (${assignment.course_name}), due ${formatDate(assignment.due_date)}: ${appUrl}/assignments/${assignment.id}`
+        ),
+      ].join('\n')
+    );
+    htmlSections.push(`<h2 style="margin:24px 0 8px;font-size:16px;">Due in the next ${DIGEST_LOOKAHEAD_DAYS} days</h2>
+      <ul style="margin:0;padding-left:20px;">
+        ${assignments
+          .map(
+            (assignment) =>
+              `<li style="margin:0 0 8px;"><a href="${escapeHtml(`${appUrl}/assignments/${assignment.id}`)}" style="color:#2563eb;">${escapeHtml(assignment.title)}</a> <span style="color:#6b7280;">${escapeHtml(assignment.course_name)} &middot; due ${escapeHtml(formatDate(assignment.due_date))}</span></li>`
+          )
+          .join('\n        ')}
+      </ul>`);
+  }
+
+  if (listed.length > 0) {
+    textSections.push(
+      [
+        'Unread notifications',
+        ...listed.map((notification) =>
+          [`- ${notification.title}`, notification.body && `: ${notification.body}`, notification.link && ` (${appUrl}${notification.link})`]
+            .filter(Boolean)
+            .join('')
+        ),
+        ...(more > 0 ? [`...and ${more} more: ${appUrl}/notifications`] : []),
+      ].join('\n')
+    );
+    htmlSections.push(`<h2 style="margin:24px 0 8px;font-size:16px;">Unread notifications</h2>
+      <ul style="margin:0;padding-left:20px;">
+        ${listed
+          .map((notification) => {
+            const title = notification.link
+              ? `<a href="${escapeHtml(appUrl + notification.link)}" style="color:#2563eb;">${escapeHtml(notification.title)}</a>`
+              : escapeHtml(notification.title);
+            const body = notification.body ? `<br><span style="color:#6b7280;">${escapeHtml(notification.body)}</span>` : '';
+            return `<li style="margin:0 0 8px;">${title}${body}</li>`;
+          })
+          .join('\n        ')}
+      </ul>
+      ${more > 0 ? `<p style="margin:8px 0 0;"><a href="${appUrl}/notifications" style="color:#2563eb;">And ${more} more</a></p>` : ''}`);
+  }
+
+  textSections.push(preferencesNote(appUrl));
+
+  return {
+    subject,
+    text: textSections.join('\n\n'),
+    html: renderHtml(appUrl, recipient.first_name, htmlSections.join('\n      ')),
+  };
+};
@@ -0,0 +1,61 @@
+import nodemailer from 'npm:nodemailer@6.9.16';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+// Anything that can deliver a message. The dispatcher only talks to this, so another
+// provider can be plugged in without touching it.
+export type MailTransport = {
+  send: (message: MailMessage) => Promise<void>;
+};
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  // Whether to connect over TLS from the start; otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+};
+
+export const createSmtpTransport = (config: SmtpConfig): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // Local mail sinks such as MailHog accept mail without signing in
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+  return {
+    send: async (message) => {
+      await transporter.sendMail({ from: config.from, ...message });
+    },
+  };
+};
+
+// Prints messages instead of sending them, for running the dispatcher without a mail server
+export const createLogTransport = (): MailTransport => ({
+  send: async (message) => {
+    console.log(`Email to ${message.to}: ${message.subject}\n\n${message.text}`);
+  },
+});
+
+export const createTransportFromEnv = (): MailTransport => {
+  const host = Deno.env.get('SMTP_HOST');
+  if (!host) return createLogTransport();
+
+  return createSmtpTransport({
+    host,
+    port: Number(Deno.env.get('SMTP_PORT') || 465),
+    secure: Deno.env.get('SMTP_SECURE') !== 'false',
+    user: Deno.env.get('SMTP_USER'),
+    password: Deno.env.get('SMTP_PASSWORD'),
+    from: Deno.env.get('MAIL_FROM') || 'no-reply@localhost',
+  });
+};
@@ -0,0 +1,140 @@
+/*
+  # Add Note Sharing
+
+  1. New Tables
+    - `note_shares` - Per-recipient access grants on a note (view, comment or edit)
+
+  2. Functions
+    - `protect_note_owner()` - Trigger that keeps a note with its owner and lets only the owner
+      file it under a category
+
+  3. Security
+    - Enable RLS on note_shares table
+    - Note owners can grant, change and revoke access to their notes; a changed grant must
+      still be on a note they own
+    - Recipients can view the grants made to them
+    - Notes are readable by recipients of any grant and editable by recipients of an edit grant
+    - Authenticated users can view profiles so classmates can be found and displayed
+*/
+
+-- Create note_shares table
+CREATE TABLE IF NOT EXISTS note_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID REFERENCES notes(id) ON DELETE CASCADE NOT NULL,
+  shared_with UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  shared_by UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  permission TEXT DEFAULT 'view' NOT NULL CHECK (permission IN ('view', 'comment', 'edit')),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  UNIQUE(note_id, shared_with),
+  CHECK (shared_with <> shared_by)
+);
+
+-- Enable Row Level Security
+ALTER TABLE note_shares ENABLE ROW LEVEL SECURITY;
+
+-- Owners and recipients can view shares
+CREATE POLICY "Users can view shares they granted or received"
+  ON note_shares
+  FOR SELECT
+  USING (auth.uid() = shared_by OR auth.uid() = shared_with);
+
+-- Only the note owner can share it
+CREATE POLICY "Note owners can share their notes"
+  ON note_shares
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = shared_by
+    AND EXISTS (
+      SELECT 1 FROM notes
+      WHERE notes.id = note_shares.note_id
+      AND notes.user_id = auth.uid()
+    )
+  );
+
+-- A share cannot be moved to a note the user does not own
+CREATE POLICY "Note owners can change share permissions"
+  ON note_shares
+  FOR UPDATE
+  USING (auth.uid() = shared_by)
+  WITH CHECK (
+    auth.uid() = shared_by
+    AND EXISTS (
+      SELECT 1 FROM notes
+      WHERE notes.id = note_shares.note_id
+      AND notes.user_id = auth.uid()
+    )
+  );
+
+-- Owners can revoke, recipients can leave a share
+CREATE POLICY "Users can delete shares they granted or received"
+  ON note_shares
+  FOR DELETE
+  USING (auth.uid() = shared_by OR auth.uid() = shared_with);
+
+-- Notes shared with the current user
+CREATE POLICY "Users can view notes shared with them"
+  ON notes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM note_shares
+      WHERE note_shares.note_id = notes.id
+      AND note_shares.shared_with = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update notes shared with edit access"
+  ON notes
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM note_shares
+      WHERE note_shares.note_id = notes.id
+      AND note_shares.shared_with = auth.uid()
+      AND note_shares.permission = 'edit'
+    )
+  );
+
+-- Edit access covers the note's content. Notes cannot change hands, and only the owner
+-- decides where a note is filed.
+CREATE OR REPLACE FUNCTION protect_note_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Notes cannot be moved to another owner';
+  END IF;
+
+  -- Updates made by the database itself, such as a deleted category being cleared through the
+  -- foreign key one trigger level down, are let through
+  IF pg_trigger_depth() = 1
+    AND auth.uid() IS NOT NULL
+    AND auth.uid() IS DISTINCT FROM OLD.user_id
+    AND NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+    RAISE EXCEPTION 'Only the owner can change a note''s category';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_note_owner ON notes;
+CREATE TRIGGER protect_note_owner
+  BEFORE UPDATE ON notes
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_note_owner();
+
+-- Classmates need to look each other up to share notes
+CREATE POLICY "Authenticated users can view all profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Create index for faster queries
+CREATE INDEX IF NOT EXISTS idx_note_shares_note_id ON note_shares(note_id);
+CREATE INDEX IF NOT EXISTS idx_note_shares_shared_with ON note_shares(shared_with);
@@ -0,0 +1,98 @@
+/*
+  # Add Public Note Links
+
+  1. New Tables
+    - `note_links` - Unguessable read-only share tokens for notes, with optional expiry
+
+  2. Functions
+    - `get_shared_note(share_token)` - Returns a note for a valid, unexpired, unrevoked token.
+      Runs as SECURITY DEFINER so anonymous visitors can read only the linked note.
+
+  3. Security
+    - Enable RLS on note_links table
+    - Only the note owner can create, view and revoke links
+*/
+
+-- Create note_links table
+CREATE TABLE IF NOT EXISTS note_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID REFERENCES notes(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  token TEXT UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE note_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Note owners can view their note links"
+  ON note_links
+  FOR SELECT
+  USING (auth.uid() = created_by);
+
+CREATE POLICY "Note owners can create note links"
+  ON note_links
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (
+      SELECT 1 FROM notes
+      WHERE notes.id = note_links.note_id
+      AND notes.user_id = auth.uid()
+    )
+  );
+
+-- A link cannot be moved to a note the user does not own
+CREATE POLICY "Note owners can revoke their note links"
+  ON note_links
+  FOR UPDATE
+  USING (auth.uid() = created_by)
+  WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (
+      SELECT 1 FROM notes
+      WHERE notes.id = note_links.note_id
+      AND notes.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Note owners can delete their note links"
+  ON note_links
+  FOR DELETE
+  USING (auth.uid() = created_by);
+
+-- Resolve a public token to its note without exposing the notes table
+CREATE OR REPLACE FUNCTION get_shared_note(share_token TEXT)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'id', notes.id,
+    'title', notes.title,
+    'content', notes.content,
+    'file_url', notes.file_url,
+    'file_name', notes.file_name,
+    'file_type', notes.file_type,
+    'file_size', notes.file_size,
+    'updated_at', notes.updated_at,
+    'expires_at', note_links.expires_at,
+    'category', (SELECT categories.name FROM categories WHERE categories.id = notes.category_id),
+    'author', (SELECT trim(concat(profiles.first_name, ' ', profiles.last_name)) FROM profiles WHERE profiles.id = notes.user_id)
+  )
+  FROM note_links
+  JOIN notes ON notes.id = note_links.note_id
+  WHERE note_links.token = share_token
+  AND note_links.revoked_at IS NULL
+  AND (note_links.expires_at IS NULL OR note_links.expires_at > now());
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_note(TEXT) TO anon, authenticated;
+
+-- Create index for faster queries
+CREATE INDEX IF NOT EXISTS idx_note_links_note_id ON note_links(note_id);
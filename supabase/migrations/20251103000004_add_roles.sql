@@ -0,0 +1,113 @@
+/*
+  # Add Instructor / Student Roles
+
+  1. Changes
+    - Add `role` column to profiles table ('student', 'instructor' or 'admin')
+
+  2. Functions
+    - `current_user_role()` - Role of the signed-in user, for use in policies.
+      SECURITY DEFINER so policies on profiles can call it without recursing.
+    - `protect_profile_role()` - Trigger that keeps non-admins from choosing or changing a role
+
+  3. Security
+    - Only instructors and admins can create, update and delete assignments
+    - Only instructors and admins can post announcements
+    - Instructors and admins can moderate (update or delete) any announcement and comment
+    - Admins can update any profile, including its role
+*/
+
+-- Add role column to profiles table
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS role TEXT DEFAULT 'student' NOT NULL CHECK (role IN ('student', 'instructor', 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_profiles_role ON profiles(role);
+
+-- Role of the current user
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION current_user_role() TO authenticated;
+
+-- Only admins may assign roles; everyone else signs up as a student
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_user_role() = 'admin' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'student';
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON profiles;
+CREATE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_role();
+
+-- Admins manage everyone's profile
+CREATE POLICY "Admins can update any profile"
+  ON profiles
+  FOR UPDATE
+  USING (current_user_role() = 'admin');
+
+-- Assignments are authored by instructors
+CREATE POLICY "Instructors can create assignments"
+  ON assignments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('instructor', 'admin'));
+
+CREATE POLICY "Instructors can update assignments"
+  ON assignments
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() IN ('instructor', 'admin'));
+
+CREATE POLICY "Instructors can delete assignments"
+  ON assignments
+  FOR DELETE
+  TO authenticated
+  USING (current_user_role() IN ('instructor', 'admin'));
+
+-- Announcements are posted by instructors
+DROP POLICY IF EXISTS "Users can create announcements" ON announcements;
+
+CREATE POLICY "Instructors can create announcements"
+  ON announcements
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND current_user_role() IN ('instructor', 'admin'));
+
+CREATE POLICY "Instructors can moderate announcements"
+  ON announcements
+  FOR UPDATE
+  USING (current_user_role() IN ('instructor', 'admin'));
+
+CREATE POLICY "Instructors can delete any announcement"
+  ON announcements
+  FOR DELETE
+  USING (current_user_role() IN ('instructor', 'admin'));
+
+-- Instructors moderate the comment threads
+CREATE POLICY "Instructors can delete any comment"
+  ON comments
+  FOR DELETE
+  USING (current_user_role() IN ('instructor', 'admin'));
@@ -0,0 +1,28 @@
+/*
+  # Add Assignment Authoring
+
+  1. Changes
+    - Add `created_by` column to assignments table
+    - Add `published` column to assignments table (existing assignments stay published)
+
+  2. Security
+    - Students only see published assignments
+    - Instructors and admins see drafts as well
+*/
+
+-- Add authoring columns to assignments table
+ALTER TABLE assignments
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS published BOOLEAN DEFAULT true NOT NULL;
+
+-- Hide unpublished assignments from students
+DROP POLICY IF EXISTS "Users can view all assignments" ON assignments;
+
+CREATE POLICY "Users can view published assignments"
+  ON assignments
+  FOR SELECT
+  TO authenticated
+  USING (published OR current_user_role() IN ('instructor', 'admin'));
+
+-- Create index for faster queries
+CREATE INDEX IF NOT EXISTS idx_assignments_due_date ON assignments(due_date);
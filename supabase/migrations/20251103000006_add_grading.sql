@@ -0,0 +1,116 @@
+/*
+  # Add Grading Workflow
+
+  1. Changes
+    - Add `max_points` column to assignments table
+    - Add `points`, `feedback`, `graded_by` and `graded_at` columns to submissions table
+    - Add `submitted_at` to submissions, so handing in and grading are timed separately.
+      Existing submissions take their last update as the time they were handed in.
+    - Extend submission status with 'graded' (saved by the instructor) and 'returned' (released to the student)
+
+  2. Functions
+    - `stamp_submission_time()` - Trigger that sets `submitted_at` when a submission is handed in
+    - `protect_submission_grade()` - Trigger that keeps students from grading their own work
+      or changing a submission once it has been graded
+
+  3. Security
+    - Instructors and admins can view and grade all submissions
+*/
+
+-- Add max points to assignments table
+ALTER TABLE assignments
+ADD COLUMN IF NOT EXISTS max_points NUMERIC(6, 2) DEFAULT 100 NOT NULL CHECK (max_points > 0);
+
+-- Add grade columns to submissions table
+ALTER TABLE submissions
+ADD COLUMN IF NOT EXISTS points NUMERIC(6, 2) CHECK (points >= 0),
+ADD COLUMN IF NOT EXISTS feedback TEXT,
+ADD COLUMN IF NOT EXISTS graded_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS graded_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ;
+
+UPDATE submissions
+SET submitted_at = updated_at
+WHERE status <> 'draft'
+AND submitted_at IS NULL;
+
+-- Extend submission statuses
+ALTER TABLE submissions DROP CONSTRAINT IF EXISTS submissions_status_check;
+ALTER TABLE submissions
+ADD CONSTRAINT submissions_status_check CHECK (status IN ('draft', 'submitted', 'graded', 'returned'));
+
+-- Handing in is the only thing that sets the submission time
+CREATE OR REPLACE FUNCTION stamp_submission_time()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'submitted' AND (TG_OP = 'INSERT' OR OLD.status = 'draft') THEN
+    NEW.submitted_at := now();
+  ELSIF TG_OP = 'UPDATE' THEN
+    NEW.submitted_at := OLD.submitted_at;
+  ELSE
+    NEW.submitted_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_submission_time ON submissions;
+CREATE TRIGGER stamp_submission_time
+  BEFORE INSERT OR UPDATE ON submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_submission_time();
+
+-- Only instructors may grade
+CREATE OR REPLACE FUNCTION protect_submission_grade()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_user_role() IN ('instructor', 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status IN ('graded', 'returned') THEN
+    RAISE EXCEPTION 'Graded submissions cannot be changed';
+  END IF;
+
+  IF NEW.status IN ('graded', 'returned')
+    OR NEW.points IS NOT NULL
+    OR NEW.feedback IS NOT NULL
+    OR NEW.graded_by IS NOT NULL
+    OR NEW.graded_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Only instructors can grade submissions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_submission_grade ON submissions;
+CREATE TRIGGER protect_submission_grade
+  BEFORE INSERT OR UPDATE ON submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_submission_grade();
+
+-- Instructors see and grade every submission
+CREATE POLICY "Instructors can view all submissions"
+  ON submissions
+  FOR SELECT
+  USING (current_user_role() IN ('instructor', 'admin'));
+
+CREATE POLICY "Instructors can grade submissions"
+  ON submissions
+  FOR UPDATE
+  USING (current_user_role() IN ('instructor', 'admin'));
+
+-- Create index for faster queries
+CREATE INDEX IF NOT EXISTS idx_submissions_assignment_id ON submissions(assignment_id);
+CREATE INDEX IF NOT EXISTS idx_submissions_status ON submissions(status);
+CREATE INDEX IF NOT EXISTS idx_submissions_submitted_at ON submissions(assignment_id, submitted_at);
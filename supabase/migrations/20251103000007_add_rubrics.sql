@@ -0,0 +1,49 @@
+/*
+  # Add Rubrics
+
+  1. Changes
+    - Add `rubric` column to assignments table
+      (array of criteria, each with an id, title, description and scored levels)
+    - Add `rubric_scores` column to submissions table
+      (object keyed by criterion id holding the chosen level, points and an optional comment)
+
+  2. Functions
+    - `protect_submission_grade()` - Now also keeps students from writing rubric scores
+*/
+
+-- Add rubric to assignments table
+ALTER TABLE assignments
+ADD COLUMN IF NOT EXISTS rubric JSONB;
+
+-- Add rubric scores to submissions table
+ALTER TABLE submissions
+ADD COLUMN IF NOT EXISTS rubric_scores JSONB;
+
+-- Only instructors may grade
+CREATE OR REPLACE FUNCTION protect_submission_grade()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_user_role() IN ('instructor', 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status IN ('graded', 'returned') THEN
+    RAISE EXCEPTION 'Graded submissions cannot be changed';
+  END IF;
+
+  IF NEW.status IN ('graded', 'returned')
+    OR NEW.points IS NOT NULL
+    OR NEW.feedback IS NOT NULL
+    OR NEW.rubric_scores IS NOT NULL
+    OR NEW.graded_by IS NOT NULL
+    OR NEW.graded_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Only instructors can grade submissions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,191 @@
+/*
+  # Multiple Attachments Per Record
+
+  1. New Tables
+    - `attachments` - Files attached to a note, announcement, assignment or submission.
+      Exactly one owner column is set per row.
+
+  2. Changes
+    - Copy the existing single-file columns into attachments
+    - Drop `file_url`, `file_name`, `file_type` and `file_size` from notes, announcements,
+      assignments and submissions
+    - `get_shared_note(share_token)` now returns the note's attachments as an array
+
+  3. Security
+    - Enable RLS on attachments table
+    - Attachments are visible to anyone who can see the owning record
+    - Attachments can be added by whoever can edit the owning record, for files they uploaded
+    - Uploaders, and whoever can edit the owning record, can remove attachments
+*/
+
+-- Create attachments table
+CREATE TABLE IF NOT EXISTS attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  note_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+  announcement_id UUID REFERENCES announcements(id) ON DELETE CASCADE,
+  assignment_id UUID REFERENCES assignments(id) ON DELETE CASCADE,
+  submission_id UUID REFERENCES submissions(id) ON DELETE CASCADE,
+  file_url TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_type TEXT,
+  file_size BIGINT,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  CHECK (num_nonnulls(note_id, announcement_id, assignment_id, submission_id) = 1)
+);
+
+-- Move existing single-file columns into attachments
+INSERT INTO attachments (user_id, note_id, file_url, file_name, file_type, file_size, created_at)
+SELECT user_id, id, file_url, COALESCE(file_name, 'attachment'), file_type, file_size, updated_at
+FROM notes
+WHERE file_url IS NOT NULL;
+
+INSERT INTO attachments (user_id, announcement_id, file_url, file_name, file_type, file_size, created_at)
+SELECT user_id, id, file_url, COALESCE(file_name, 'attachment'), file_type, file_size, updated_at
+FROM announcements
+WHERE file_url IS NOT NULL;
+
+INSERT INTO attachments (user_id, assignment_id, file_url, file_name, file_type, file_size, created_at)
+SELECT created_by, id, file_url, COALESCE(file_name, 'attachment'), file_type, file_size, updated_at
+FROM assignments
+WHERE file_url IS NOT NULL AND created_by IS NOT NULL;
+
+INSERT INTO attachments (user_id, submission_id, file_url, file_name, file_type, file_size, created_at)
+SELECT user_id, id, file_url, COALESCE(file_name, 'attachment'), file_type, file_size, updated_at
+FROM submissions
+WHERE file_url IS NOT NULL;
+
+-- The shared note function reads the old columns, so replace it before dropping them
+CREATE OR REPLACE FUNCTION get_shared_note(share_token TEXT)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'id', notes.id,
+    'title', notes.title,
+    'content', notes.content,
+    'updated_at', notes.updated_at,
+    'expires_at', note_links.expires_at,
+    'category', (SELECT categories.name FROM categories WHERE categories.id = notes.category_id),
+    'author', (SELECT trim(concat(profiles.first_name, ' ', profiles.last_name)) FROM profiles WHERE profiles.id = notes.user_id),
+    'attachments', COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', attachments.id,
+        'file_url', attachments.file_url,
+        'file_name', attachments.file_name,
+        'file_type', attachments.file_type,
+        'file_size', attachments.file_size,
+        'created_at', attachments.created_at
+      ) ORDER BY attachments.created_at)
+      FROM attachments
+      WHERE attachments.note_id = notes.id
+    ), '[]'::json)
+  )
+  FROM note_links
+  JOIN notes ON notes.id = note_links.note_id
+  WHERE note_links.token = share_token
+  AND note_links.revoked_at IS NULL
+  AND (note_links.expires_at IS NULL OR note_links.expires_at > now());
+$$;
+
+-- Drop the single-file columns
+ALTER TABLE notes
+DROP COLUMN IF EXISTS file_url,
+DROP COLUMN IF EXISTS file_name,
+DROP COLUMN IF EXISTS file_type,
+DROP COLUMN IF EXISTS file_size;
+
+ALTER TABLE announcements
+DROP COLUMN IF EXISTS file_url,
+DROP COLUMN IF EXISTS file_name,
+DROP COLUMN IF EXISTS file_type,
+DROP COLUMN IF EXISTS file_size;
+
+ALTER TABLE assignments
+DROP COLUMN IF EXISTS file_url,
+DROP COLUMN IF EXISTS file_name,
+DROP COLUMN IF EXISTS file_type,
+DROP COLUMN IF EXISTS file_size;
+
+ALTER TABLE submissions
+DROP COLUMN IF EXISTS file_url,
+DROP COLUMN IF EXISTS file_name,
+DROP COLUMN IF EXISTS file_type,
+DROP COLUMN IF EXISTS file_size;
+
+-- Enable Row Level Security
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the owning record (owner table RLS applies in the subqueries)
+CREATE POLICY "Users can view attachments of records they can see"
+  ON attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM notes WHERE notes.id = attachments.note_id)
+    OR EXISTS (SELECT 1 FROM announcements WHERE announcements.id = attachments.announcement_id)
+    OR EXISTS (SELECT 1 FROM assignments WHERE assignments.id = attachments.assignment_id)
+    OR EXISTS (SELECT 1 FROM submissions WHERE submissions.id = attachments.submission_id)
+  );
+
+CREATE POLICY "Users can attach files to records they can edit"
+  ON attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    -- Only files the user uploaded, which are stored under their own folder
+    AND (storage.foldername(file_path))[1] = auth.uid()::text
+    AND (
+      EXISTS (
+        SELECT 1 FROM notes
+        WHERE notes.id = attachments.note_id
+        AND (
+          notes.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM note_shares
+            WHERE note_shares.note_id = notes.id
+            AND note_shares.shared_with = auth.uid()
+            AND note_shares.permission = 'edit'
+          )
+        )
+      )
+      OR EXISTS (
+        SELECT 1 FROM announcements
+        WHERE announcements.id = attachments.announcement_id
+        AND (announcements.user_id = auth.uid() OR current_user_role() IN ('instructor', 'admin'))
+      )
+      OR (
+        attachments.assignment_id IS NOT NULL
+        AND current_user_role() IN ('instructor', 'admin')
+      )
+      OR EXISTS (
+        SELECT 1 FROM submissions
+        WHERE submissions.id = attachments.submission_id
+        AND submissions.user_id = auth.uid()
+        AND submissions.status = 'draft'
+      )
+    )
+  );
+
+CREATE POLICY "Users can remove attachments they uploaded or manage"
+  ON attachments
+  FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM notes WHERE notes.id = attachments.note_id AND notes.user_id = auth.uid())
+    OR (
+      (attachments.announcement_id IS NOT NULL OR attachments.assignment_id IS NOT NULL)
+      AND current_user_role() IN ('instructor', 'admin')
+    )
+  );
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_attachments_note_id ON attachments(note_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_announcement_id ON attachments(announcement_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_assignment_id ON attachments(assignment_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_submission_id ON attachments(submission_id);
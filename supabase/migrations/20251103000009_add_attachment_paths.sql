@@ -0,0 +1,20 @@
+/*
+  # Store Attachment Storage Paths
+
+  1. Changes
+    - Add `file_path` column to attachments table holding the object path inside the
+      `attachments` storage bucket, so files no longer have to be located by parsing their URL
+    - Backfill existing rows from their public URL
+*/
+
+-- Add storage path to attachments table
+ALTER TABLE attachments
+ADD COLUMN IF NOT EXISTS file_path TEXT;
+
+-- Public URLs end in /storage/v1/object/public/attachments/<path>
+UPDATE attachments
+SET file_path = COALESCE(substring(file_url FROM '/object/public/attachments/(.+)$'), file_url)
+WHERE file_path IS NULL;
+
+ALTER TABLE attachments
+ALTER COLUMN file_path SET NOT NULL;
@@ -0,0 +1,110 @@
+/*
+  # Private Attachments
+
+  1. Changes
+    - Make the `attachments` storage bucket private; files are served through short-lived signed URLs
+    - Drop `file_url` from attachments table; `file_path` is the only reference to the stored object
+    - `get_shared_note(share_token)` returns attachment paths instead of URLs
+
+  2. Functions
+    - `is_publicly_linked_attachment(object_name)` - Whether a stored file belongs to a note with an
+      active public link
+    - `can_read_attachment_object(object_name)` - Whether the current user may read a stored file,
+      either through an attachment row they can see or through an active public note link
+
+  3. Security
+    - Remove "Authenticated users can view all attachments" storage policy
+    - Stored files are readable only when the owning record is readable, so submission files
+      are limited to the submitter and instructors. Attachment rows can only point at files
+      their uploader stored, so knowing a path is not enough to read it.
+    - Files of notes with an active public link can be read anonymously
+*/
+
+-- Make the bucket private
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'attachments';
+
+-- Drop public URLs
+ALTER TABLE attachments
+DROP COLUMN IF EXISTS file_url;
+
+-- Return paths from the shared note function
+CREATE OR REPLACE FUNCTION get_shared_note(share_token TEXT)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'id', notes.id,
+    'title', notes.title,
+    'content', notes.content,
+    'updated_at', notes.updated_at,
+    'expires_at', note_links.expires_at,
+    'category', (SELECT categories.name FROM categories WHERE categories.id = notes.category_id),
+    'author', (SELECT trim(concat(profiles.first_name, ' ', profiles.last_name)) FROM profiles WHERE profiles.id = notes.user_id),
+    'attachments', COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', attachments.id,
+        'file_path', attachments.file_path,
+        'file_name', attachments.file_name,
+        'file_type', attachments.file_type,
+        'file_size', attachments.file_size,
+        'created_at', attachments.created_at
+      ) ORDER BY attachments.created_at)
+      FROM attachments
+      WHERE attachments.note_id = notes.id
+    ), '[]'::json)
+  )
+  FROM note_links
+  JOIN notes ON notes.id = note_links.note_id
+  WHERE note_links.token = share_token
+  AND note_links.revoked_at IS NULL
+  AND (note_links.expires_at IS NULL OR note_links.expires_at > now());
+$$;
+
+-- Files of notes with an active public link, which anonymous visitors cannot otherwise see
+CREATE OR REPLACE FUNCTION is_publicly_linked_attachment(object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM attachments
+    JOIN note_links ON note_links.note_id = attachments.note_id
+    WHERE attachments.file_path = object_name
+    AND note_links.revoked_at IS NULL
+    AND (note_links.expires_at IS NULL OR note_links.expires_at > now())
+  );
+$$;
+
+-- Runs as the caller so attachment (and owning record) policies decide visibility
+CREATE OR REPLACE FUNCTION can_read_attachment_object(object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM attachments
+    WHERE attachments.file_path = object_name
+  )
+  OR is_publicly_linked_attachment(object_name);
+$$;
+
+GRANT EXECUTE ON FUNCTION can_read_attachment_object(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_publicly_linked_attachment(TEXT) TO anon, authenticated;
+
+-- Replace the blanket read policy
+DROP POLICY IF EXISTS "Authenticated users can view all attachments" ON storage.objects;
+
+CREATE POLICY "Users can view attachments of records they can see"
+ON storage.objects
+FOR SELECT
+TO anon, authenticated
+USING (bucket_id = 'attachments' AND public.can_read_attachment_object(name));
@@ -0,0 +1,52 @@
+/*
+  # Add Content Format
+
+  1. Changes
+    - Add `content_format` column to notes and announcements tables ('plain' or 'markdown')
+    - Existing content stays 'plain' so it keeps rendering as before
+    - `get_shared_note(share_token)` returns the note's content format
+*/
+
+-- Add content format to notes and announcements tables
+ALTER TABLE notes
+ADD COLUMN IF NOT EXISTS content_format TEXT DEFAULT 'plain' NOT NULL CHECK (content_format IN ('plain', 'markdown'));
+
+ALTER TABLE announcements
+ADD COLUMN IF NOT EXISTS content_format TEXT DEFAULT 'plain' NOT NULL CHECK (content_format IN ('plain', 'markdown'));
+
+-- Return the content format from the shared note function
+CREATE OR REPLACE FUNCTION get_shared_note(share_token TEXT)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'id', notes.id,
+    'title', notes.title,
+    'content', notes.content,
+    'content_format', notes.content_format,
+    'updated_at', notes.updated_at,
+    'expires_at', note_links.expires_at,
+    'category', (SELECT categories.name FROM categories WHERE categories.id = notes.category_id),
+    'author', (SELECT trim(concat(profiles.first_name, ' ', profiles.last_name)) FROM profiles WHERE profiles.id = notes.user_id),
+    'attachments', COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', attachments.id,
+        'file_path', attachments.file_path,
+        'file_name', attachments.file_name,
+        'file_type', attachments.file_type,
+        'file_size', attachments.file_size,
+        'created_at', attachments.created_at
+      ) ORDER BY attachments.created_at)
+      FROM attachments
+      WHERE attachments.note_id = notes.id
+    ), '[]'::json)
+  )
+  FROM note_links
+  JOIN notes ON notes.id = note_links.note_id
+  WHERE note_links.token = share_token
+  AND note_links.revoked_at IS NULL
+  AND (note_links.expires_at IS NULL OR note_links.expires_at > now());
+$$;
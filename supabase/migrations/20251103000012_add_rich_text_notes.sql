@@ -0,0 +1,62 @@
+/*
+  # Add Rich Text Notes
+
+  1. Changes
+    - Allow 'rich' as a note content format
+    - Add `content_doc` column to notes table holding the block editor document (JSON);
+      `content` keeps a plain text copy for lists and search
+    - Add `inline` column to attachments table for images embedded in a note's document,
+      which are not listed with the regular attachments
+    - `get_shared_note(share_token)` returns the note's document
+*/
+
+-- Allow rich text notes
+ALTER TABLE notes DROP CONSTRAINT IF EXISTS notes_content_format_check;
+ALTER TABLE notes
+ADD CONSTRAINT notes_content_format_check CHECK (content_format IN ('plain', 'markdown', 'rich'));
+
+ALTER TABLE notes
+ADD COLUMN IF NOT EXISTS content_doc JSONB;
+
+-- Mark images embedded in a document
+ALTER TABLE attachments
+ADD COLUMN IF NOT EXISTS inline BOOLEAN DEFAULT false NOT NULL;
+
+-- Return the document from the shared note function
+CREATE OR REPLACE FUNCTION get_shared_note(share_token TEXT)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'id', notes.id,
+    'title', notes.title,
+    'content', notes.content,
+    'content_format', notes.content_format,
+    'content_doc', notes.content_doc,
+    'updated_at', notes.updated_at,
+    'expires_at', note_links.expires_at,
+    'category', (SELECT categories.name FROM categories WHERE categories.id = notes.category_id),
+    'author', (SELECT trim(concat(profiles.first_name, ' ', profiles.last_name)) FROM profiles WHERE profiles.id = notes.user_id),
+    'attachments', COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', attachments.id,
+        'file_path', attachments.file_path,
+        'file_name', attachments.file_name,
+        'file_type', attachments.file_type,
+        'file_size', attachments.file_size,
+        'inline', attachments.inline,
+        'created_at', attachments.created_at
+      ) ORDER BY attachments.created_at)
+      FROM attachments
+      WHERE attachments.note_id = notes.id
+    ), '[]'::json)
+  )
+  FROM note_links
+  JOIN notes ON notes.id = note_links.note_id
+  WHERE note_links.token = share_token
+  AND note_links.revoked_at IS NULL
+  AND (note_links.expires_at IS NULL OR note_links.expires_at > now());
+$$;
@@ -0,0 +1,82 @@
+/*
+  # Add Note Revisions
+
+  1. New Tables
+    - `note_revisions` - Snapshot of a note's title and content after every save, with its author
+
+  2. Functions
+    - `record_note_revision()` - Trigger that stores a revision whenever a note is created or
+      its title or content changes
+
+  3. Security
+    - Enable RLS on note_revisions table
+    - Revisions are readable by anyone who can read the note
+    - Revisions are only written by the trigger and cannot be changed or deleted
+*/
+
+-- Create note_revisions table
+CREATE TABLE IF NOT EXISTS note_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID REFERENCES notes(id) ON DELETE CASCADE NOT NULL,
+  author_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  content_format TEXT NOT NULL,
+  content_doc JSONB,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Snapshot every saved change to a note
+CREATE OR REPLACE FUNCTION record_note_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.content_format IS NOT DISTINCT FROM OLD.content_format
+    AND NEW.content_doc IS NOT DISTINCT FROM OLD.content_doc THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO note_revisions (note_id, author_id, title, content, content_format, content_doc)
+  VALUES (NEW.id, COALESCE(auth.uid(), NEW.user_id), NEW.title, NEW.content, NEW.content_format, NEW.content_doc);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_note_revision ON notes;
+CREATE TRIGGER record_note_revision
+  AFTER INSERT OR UPDATE ON notes
+  FOR EACH ROW
+  EXECUTE FUNCTION record_note_revision();
+
+-- Start the history of existing notes from their current content
+INSERT INTO note_revisions (note_id, author_id, title, content, content_format, content_doc, created_at)
+SELECT notes.id, notes.user_id, notes.title, notes.content, notes.content_format, notes.content_doc, notes.updated_at
+FROM notes
+WHERE NOT EXISTS (
+  SELECT 1 FROM note_revisions
+  WHERE note_revisions.note_id = notes.id
+);
+
+-- Note policies decide who can see the history
+CREATE POLICY "Users can view revisions of notes they can see"
+  ON note_revisions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM notes
+      WHERE notes.id = note_revisions.note_id
+    )
+  );
+
+-- Create index for faster queries
+CREATE INDEX IF NOT EXISTS idx_note_revisions_note_id ON note_revisions(note_id, created_at DESC);
@@ -0,0 +1,96 @@
+/*
+  # Add Collaborative Note Editing
+
+  1. Changes
+    - Add `content_state` column to notes table holding the merged collaborative document
+      (base64 encoded Yjs update) so editing sessions resume where they left off
+    - Add `content_state_version` column, counting how often the collaborative document was
+      discarded, so editors still working on an old one cannot write it back
+
+  2. Functions
+    - `can_edit_note(note_id)` - Whether the current user owns a note or has an edit grant on it
+    - `protect_content_state_version()` - Trigger that moves the version on whenever the
+      collaborative document is discarded, such as when a revision is restored
+
+  3. Security
+    - Private realtime channels named `note:<note id>:<content state version>` are limited to
+      users who can edit the note, so document updates and cursors are only exchanged between
+      the note's editors
+*/
+
+-- Store the collaborative document
+ALTER TABLE notes
+ADD COLUMN IF NOT EXISTS content_state TEXT,
+ADD COLUMN IF NOT EXISTS content_state_version INTEGER DEFAULT 0 NOT NULL;
+
+-- Only the database moves the version on, so no editor can claim a newer one
+CREATE OR REPLACE FUNCTION protect_content_state_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.content_state_version := OLD.content_state_version;
+
+  -- Sessions that have not saved yet start from content_doc, so replacing it counts as well
+  IF NEW.content_state IS NULL
+    AND (OLD.content_state IS NOT NULL OR NEW.content_doc IS DISTINCT FROM OLD.content_doc) THEN
+    NEW.content_state_version := OLD.content_state_version + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_content_state_version ON notes;
+CREATE TRIGGER protect_content_state_version
+  BEFORE UPDATE ON notes
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_content_state_version();
+
+-- Runs as the caller so note policies still apply
+CREATE OR REPLACE FUNCTION can_edit_note(note_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM notes
+    WHERE notes.id = can_edit_note.note_id
+    AND (
+      notes.user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM note_shares
+        WHERE note_shares.note_id = notes.id
+        AND note_shares.shared_with = auth.uid()
+        AND note_shares.permission = 'edit'
+      )
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_edit_note(UUID) TO authenticated;
+
+-- Note editors can listen on and send to the note's channel
+CREATE POLICY "Note editors can receive collaboration messages"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND split_part(realtime.topic(), ':', 1) = 'note'
+    AND public.can_edit_note(NULLIF(split_part(realtime.topic(), ':', 2), '')::uuid)
+  );
+
+CREATE POLICY "Note editors can send collaboration messages"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND split_part(realtime.topic(), ':', 1) = 'note'
+    AND public.can_edit_note(NULLIF(split_part(realtime.topic(), ':', 2), '')::uuid)
+  );
@@ -0,0 +1,125 @@
+/*
+  # Add Full-Text Search
+
+  1. Functions
+    - `search_document(title, body)` - Weighted search vector of a record (title ranks above body)
+    - `search_content(search_query, entity_types, category_filter, from_date, to_date, result_limit)` -
+      Ranked matches across notes, announcements, assignments and announcement comments, with
+      highlighted snippets. Matches are wrapped in U+E000 and U+E001 so the client can highlight
+      them without rendering HTML.
+
+  2. Indexes
+    - GIN indexes on the search vector of notes, announcements, assignments and comments
+
+  3. Security
+    - `search_content` runs as the caller, so results are limited by the existing row level
+      security policies of each table
+*/
+
+CREATE OR REPLACE FUNCTION search_document(title TEXT, body TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, coalesce(body, '')), 'B');
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_notes_search ON notes USING GIN (search_document(title, content));
+CREATE INDEX IF NOT EXISTS idx_announcements_search ON announcements USING GIN (search_document(title, content));
+CREATE INDEX IF NOT EXISTS idx_assignments_search ON assignments USING GIN (search_document(title, description));
+CREATE INDEX IF NOT EXISTS idx_comments_search ON comments USING GIN (search_document(NULL, content));
+
+CREATE OR REPLACE FUNCTION search_content(
+  search_query TEXT,
+  entity_types TEXT[] DEFAULT NULL,
+  category_filter UUID DEFAULT NULL,
+  from_date TIMESTAMPTZ DEFAULT NULL,
+  to_date TIMESTAMPTZ DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  entity_type TEXT,
+  id UUID,
+  parent_id UUID,
+  title TEXT,
+  snippet TEXT,
+  rank REAL,
+  category_id UUID,
+  category_name TEXT,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  hits AS (
+    SELECT 'note' AS entity_type, notes.id, NULL::UUID AS parent_id, notes.title, notes.content AS body,
+      ts_rank(search_document(notes.title, notes.content), query.q) AS rank,
+      notes.category_id, notes.updated_at
+    FROM notes, query
+    WHERE search_document(notes.title, notes.content) @@ query.q
+
+    UNION ALL
+
+    SELECT 'announcement', announcements.id, NULL::UUID, announcements.title, announcements.content,
+      ts_rank(search_document(announcements.title, announcements.content), query.q),
+      announcements.category_id, announcements.updated_at
+    FROM announcements, query
+    WHERE search_document(announcements.title, announcements.content) @@ query.q
+
+    UNION ALL
+
+    SELECT 'assignment', assignments.id, NULL::UUID, assignments.title, assignments.description,
+      ts_rank(search_document(assignments.title, assignments.description), query.q),
+      NULL::UUID, assignments.updated_at
+    FROM assignments, query
+    WHERE search_document(assignments.title, assignments.description) @@ query.q
+
+    UNION ALL
+
+    -- Comments are listed under the announcement they belong to
+    SELECT 'comment', comments.id, comments.announcement_id, announcements.title, comments.content,
+      ts_rank(search_document(NULL, comments.content), query.q),
+      announcements.category_id, comments.updated_at
+    FROM comments
+    JOIN announcements ON announcements.id = comments.announcement_id, query
+    WHERE search_document(NULL, comments.content) @@ query.q
+  ),
+  ranked AS (
+    SELECT hits.*, row_number() OVER (PARTITION BY hits.entity_type ORDER BY hits.rank DESC, hits.updated_at DESC) AS position
+    FROM hits
+    WHERE (entity_types IS NULL OR hits.entity_type = ANY(entity_types))
+    AND (category_filter IS NULL OR hits.category_id = category_filter)
+    AND (from_date IS NULL OR hits.updated_at >= from_date)
+    AND (to_date IS NULL OR hits.updated_at < to_date)
+  )
+  -- Highlight only the results that are returned
+  SELECT
+    ranked.entity_type,
+    ranked.id,
+    ranked.parent_id,
+    ranked.title,
+    ts_headline(
+      'english',
+      ranked.body,
+      query.q,
+      format('StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2', U&'\E000', U&'\E001')
+    ),
+    ranked.rank,
+    ranked.category_id,
+    categories.name,
+    ranked.updated_at
+  FROM ranked
+  CROSS JOIN query
+  LEFT JOIN categories ON categories.id = ranked.category_id
+  WHERE ranked.position <= result_limit
+  ORDER BY ranked.entity_type, ranked.rank DESC, ranked.updated_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_content(TEXT, TEXT[], UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO authenticated;
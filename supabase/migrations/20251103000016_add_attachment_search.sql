@@ -0,0 +1,184 @@
+/*
+  # Add Attachment Content Search
+
+  1. New Tables
+    - `attachment_contents` - Text extracted from an uploaded PDF, DOCX, TXT or Markdown file,
+      kept apart from `attachments` so listing attachments doesn't load it. Text is extracted in
+      the browser at upload time; files uploaded earlier are not indexed.
+
+  2. Functions
+    - `search_content(...)` also matches the text of attachments on notes, announcements and
+      assignments. Such matches are returned as hits on the owning record with `attachment_id`
+      and `attachment_name` set.
+
+  3. Indexes
+    - GIN index on the search vector of attachment contents
+
+  4. Security
+    - Enable RLS on attachment_contents table
+    - Attachment text is readable by anyone who can see the attachment
+    - Uploaders can add the text of their own attachments
+*/
+
+-- Create attachment_contents table
+CREATE TABLE IF NOT EXISTS attachment_contents (
+  attachment_id UUID PRIMARY KEY REFERENCES attachments(id) ON DELETE CASCADE,
+  content_text TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE attachment_contents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the text of attachments they can see"
+  ON attachment_contents
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM attachments
+      WHERE attachments.id = attachment_contents.attachment_id
+    )
+  );
+
+CREATE POLICY "Uploaders can index their attachments"
+  ON attachment_contents
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM attachments
+      WHERE attachments.id = attachment_contents.attachment_id
+      AND attachments.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_attachment_contents_search
+  ON attachment_contents USING GIN (search_document(NULL, content_text));
+
+-- The result columns change, so the function has to be recreated
+DROP FUNCTION IF EXISTS search_content(TEXT, TEXT[], UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER);
+
+CREATE FUNCTION search_content(
+  search_query TEXT,
+  entity_types TEXT[] DEFAULT NULL,
+  category_filter UUID DEFAULT NULL,
+  from_date TIMESTAMPTZ DEFAULT NULL,
+  to_date TIMESTAMPTZ DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  entity_type TEXT,
+  id UUID,
+  parent_id UUID,
+  title TEXT,
+  snippet TEXT,
+  rank REAL,
+  category_id UUID,
+  category_name TEXT,
+  updated_at TIMESTAMPTZ,
+  attachment_id UUID,
+  attachment_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  hits AS (
+    SELECT 'note' AS entity_type, notes.id, NULL::UUID AS parent_id, notes.title, notes.content AS body,
+      ts_rank(search_document(notes.title, notes.content), query.q) AS rank,
+      notes.category_id, notes.updated_at, NULL::UUID AS attachment_id, NULL::TEXT AS attachment_name
+    FROM notes, query
+    WHERE search_document(notes.title, notes.content) @@ query.q
+
+    UNION ALL
+
+    SELECT 'announcement', announcements.id, NULL::UUID, announcements.title, announcements.content,
+      ts_rank(search_document(announcements.title, announcements.content), query.q),
+      announcements.category_id, announcements.updated_at, NULL::UUID, NULL::TEXT
+    FROM announcements, query
+    WHERE search_document(announcements.title, announcements.content) @@ query.q
+
+    UNION ALL
+
+    SELECT 'assignment', assignments.id, NULL::UUID, assignments.title, assignments.description,
+      ts_rank(search_document(assignments.title, assignments.description), query.q),
+      NULL::UUID, assignments.updated_at, NULL::UUID, NULL::TEXT
+    FROM assignments, query
+    WHERE search_document(assignments.title, assignments.description) @@ query.q
+
+    UNION ALL
+
+    -- Comments are listed under the announcement they belong to
+    SELECT 'comment', comments.id, comments.announcement_id, announcements.title, comments.content,
+      ts_rank(search_document(NULL, comments.content), query.q),
+      announcements.category_id, comments.updated_at, NULL::UUID, NULL::TEXT
+    FROM comments
+    JOIN announcements ON announcements.id = comments.announcement_id, query
+    WHERE search_document(NULL, comments.content) @@ query.q
+
+    UNION ALL
+
+    -- Attachment text counts as a match on the record the file is attached to
+    SELECT
+      CASE
+        WHEN notes.id IS NOT NULL THEN 'note'
+        WHEN announcements.id IS NOT NULL THEN 'announcement'
+        ELSE 'assignment'
+      END,
+      COALESCE(notes.id, announcements.id, assignments.id),
+      NULL::UUID,
+      COALESCE(notes.title, announcements.title, assignments.title),
+      attachment_contents.content_text,
+      ts_rank(search_document(NULL, attachment_contents.content_text), query.q),
+      COALESCE(notes.category_id, announcements.category_id),
+      COALESCE(notes.updated_at, announcements.updated_at, assignments.updated_at),
+      attachments.id,
+      attachments.file_name
+    FROM attachment_contents
+    JOIN attachments ON attachments.id = attachment_contents.attachment_id
+    LEFT JOIN notes ON notes.id = attachments.note_id
+    LEFT JOIN announcements ON announcements.id = attachments.announcement_id
+    LEFT JOIN assignments ON assignments.id = attachments.assignment_id
+    CROSS JOIN query
+    WHERE search_document(NULL, attachment_contents.content_text) @@ query.q
+    AND COALESCE(notes.id, announcements.id, assignments.id) IS NOT NULL
+  ),
+  ranked AS (
+    SELECT hits.*, row_number() OVER (PARTITION BY hits.entity_type ORDER BY hits.rank DESC, hits.updated_at DESC) AS position
+    FROM hits
+    WHERE (entity_types IS NULL OR hits.entity_type = ANY(entity_types))
+    AND (category_filter IS NULL OR hits.category_id = category_filter)
+    AND (from_date IS NULL OR hits.updated_at >= from_date)
+    AND (to_date IS NULL OR hits.updated_at < to_date)
+  )
+  -- Highlight only the results that are returned
+  SELECT
+    ranked.entity_type,
+    ranked.id,
+    ranked.parent_id,
+    ranked.title,
+    ts_headline(
+      'english',
+      ranked.body,
+      query.q,
+      format('StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2', U&'\E000', U&'\E001')
+    ),
+    ranked.rank,
+    ranked.category_id,
+    categories.name,
+    ranked.updated_at,
+    ranked.attachment_id,
+    ranked.attachment_name
+  FROM ranked
+  CROSS JOIN query
+  LEFT JOIN categories ON categories.id = ranked.category_id
+  WHERE ranked.position <= result_limit
+  ORDER BY ranked.entity_type, ranked.rank DESC, ranked.updated_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_content(TEXT, TEXT[], UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO authenticated;
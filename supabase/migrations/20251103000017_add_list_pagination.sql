@@ -0,0 +1,44 @@
+/*
+  # Add List Pagination
+
+  1. Views
+    - `assignment_overview` - Assignments with the current user's submission and the status shown
+      in the assignments list (graded, submitted, overdue, draft or pending), so the list can be
+      filtered by status and paged on the server
+
+  2. Indexes
+    - Keyset indexes matching the sort orders of the notes, announcements and assignments lists
+    - Comments by announcement, for the comment counts shown in the announcements list
+
+  3. Security
+    - `assignment_overview` runs as the caller, so the existing policies on assignments and
+      submissions still apply
+*/
+
+CREATE OR REPLACE VIEW assignment_overview
+WITH (security_invoker = true)
+AS
+  SELECT
+    assignments.*,
+    submissions.id AS submission_id,
+    submissions.status AS submission_status,
+    submissions.points AS submission_points,
+    CASE
+      WHEN submissions.status = 'returned' THEN 'graded'
+      WHEN submissions.status IN ('submitted', 'graded') THEN 'submitted'
+      WHEN assignments.due_date < now() THEN 'overdue'
+      WHEN submissions.status = 'draft' THEN 'draft'
+      ELSE 'pending'
+    END AS status
+  FROM assignments
+  LEFT JOIN submissions
+    ON submissions.assignment_id = assignments.id
+    AND submissions.user_id = auth.uid();
+
+GRANT SELECT ON assignment_overview TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_notes_user_updated_at ON notes(user_id, updated_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_notes_user_created_at ON notes(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_announcements_created_at ON announcements(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_assignments_due_date_id ON assignments(due_date, id);
+CREATE INDEX IF NOT EXISTS idx_comments_announcement_id ON comments(announcement_id);
@@ -0,0 +1,115 @@
+/*
+  # Add User Note Categories
+
+  1. Changes
+    - Add `user_id` to `categories`. Categories without an owner are the shared ones every user
+      sees (the seeded note categories and all announcement categories); the others are a
+      user's own note folders.
+    - Add `parent_id` to `categories` so folders can be nested. Deleting a folder deletes the
+      folders inside it; their notes become uncategorized.
+    - Add `color` to `categories`
+
+  2. Functions
+    - `check_category_parent()` - Trigger keeping a folder's parent owned by the same user and
+      out of the folder's own subtree
+
+  3. Security
+    - Users see the shared categories and their own folders only
+    - Users can create, update and delete their own note folders
+*/
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS color TEXT;
+
+ALTER TABLE categories
+  DROP CONSTRAINT IF EXISTS categories_color_check,
+  ADD CONSTRAINT categories_color_check CHECK (color IS NULL OR color ~ '^#[0-9a-fA-F]{6}$');
+
+-- Only note categories can belong to a user
+ALTER TABLE categories
+  DROP CONSTRAINT IF EXISTS categories_owner_type_check,
+  ADD CONSTRAINT categories_owner_type_check CHECK (user_id IS NULL OR type = 'note');
+
+CREATE INDEX IF NOT EXISTS idx_categories_user_id ON categories(user_id);
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+-- Folder names are unique among their siblings
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_unique_name
+  ON categories(user_id, parent_id, lower(name)) NULLS NOT DISTINCT
+  WHERE user_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM categories
+    WHERE categories.id = NEW.parent_id
+    AND categories.user_id IS NOT DISTINCT FROM NEW.user_id
+    AND categories.type = NEW.type
+  ) THEN
+    RAISE EXCEPTION 'A folder can only be placed inside another of your folders';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT categories.id, categories.parent_id
+      FROM categories
+      WHERE categories.id = NEW.parent_id
+
+      UNION
+
+      SELECT categories.id, categories.parent_id
+      FROM categories
+      JOIN ancestors ON categories.id = ancestors.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE ancestors.id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A folder cannot be placed inside itself';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_category_parent ON categories;
+CREATE TRIGGER check_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION check_category_parent();
+
+-- Replace the open read policy: other users' folders are private
+DROP POLICY IF EXISTS "Users can view all categories" ON categories;
+
+CREATE POLICY "Users can view shared categories and their own"
+  ON categories
+  FOR SELECT
+  TO authenticated
+  USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own note categories"
+  ON categories
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND type = 'note');
+
+CREATE POLICY "Users can update their own note categories"
+  ON categories
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND type = 'note');
+
+CREATE POLICY "Users can delete their own note categories"
+  ON categories
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,180 @@
+/*
+  # Add Tags
+
+  1. New Tables
+    - `tags` - Free-form labels shared by all users. Names are stored trimmed and lowercase so
+      the same tag isn't created twice with different casing.
+    - `note_tags` - Tags on notes
+    - `announcement_tags` - Tags on announcements
+
+  2. Functions
+    - `tag_names(notes)` and `tag_names(announcements)` - Tag names of a record, exposed as a
+      computed column so lists can be filtered with `cs` (all tags) or `ov` (any tag)
+    - `get_tag_cloud(result_limit)` - Most used tags with the number of visible notes and
+      announcements carrying each
+
+  3. Security
+    - Enable RLS on all three tables
+    - Anyone signed in can see and create tags
+    - Note tags follow the note: visible to whoever can see the note, changed by its editors
+    - Announcement tags are visible to everyone and changed by the author or instructors
+*/
+
+-- Create tags table
+CREATE TABLE IF NOT EXISTS tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT UNIQUE NOT NULL CHECK (name = lower(btrim(name)) AND char_length(name) BETWEEN 1 AND 40),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Create note_tags table
+CREATE TABLE IF NOT EXISTS note_tags (
+  note_id UUID REFERENCES notes(id) ON DELETE CASCADE NOT NULL,
+  tag_id UUID REFERENCES tags(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (note_id, tag_id)
+);
+
+-- Create announcement_tags table
+CREATE TABLE IF NOT EXISTS announcement_tags (
+  announcement_id UUID REFERENCES announcements(id) ON DELETE CASCADE NOT NULL,
+  tag_id UUID REFERENCES tags(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (announcement_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_tags_tag_id ON note_tags(tag_id);
+CREATE INDEX IF NOT EXISTS idx_announcement_tags_tag_id ON announcement_tags(tag_id);
+
+-- Enable Row Level Security
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE note_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE announcement_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all tags"
+  ON tags
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can create tags"
+  ON tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can view the tags of notes they can see"
+  ON note_tags
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM notes
+      WHERE notes.id = note_tags.note_id
+    )
+  );
+
+CREATE POLICY "Note editors can tag notes"
+  ON note_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_note(note_id));
+
+CREATE POLICY "Note editors can untag notes"
+  ON note_tags
+  FOR DELETE
+  TO authenticated
+  USING (can_edit_note(note_id));
+
+CREATE POLICY "Users can view announcement tags"
+  ON announcement_tags
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authors and instructors can tag announcements"
+  ON announcement_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM announcements
+      WHERE announcements.id = announcement_tags.announcement_id
+      AND (announcements.user_id = auth.uid() OR current_user_role() IN ('instructor', 'admin'))
+    )
+  );
+
+CREATE POLICY "Authors and instructors can untag announcements"
+  ON announcement_tags
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM announcements
+      WHERE announcements.id = announcement_tags.announcement_id
+      AND (announcements.user_id = auth.uid() OR current_user_role() IN ('instructor', 'admin'))
+    )
+  );
+
+CREATE OR REPLACE FUNCTION tag_names(notes)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(tags.name), '{}')
+  FROM note_tags
+  JOIN tags ON tags.id = note_tags.tag_id
+  WHERE note_tags.note_id = $1.id;
+$$;
+
+CREATE OR REPLACE FUNCTION tag_names(announcements)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(tags.name), '{}')
+  FROM announcement_tags
+  JOIN tags ON tags.id = announcement_tags.tag_id
+  WHERE announcement_tags.announcement_id = $1.id;
+$$;
+
+-- Runs as the caller, so only notes the user can see are counted
+CREATE OR REPLACE FUNCTION get_tag_cloud(result_limit INTEGER DEFAULT 40)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  note_count BIGINT,
+  announcement_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT counts.id, counts.name, counts.note_count, counts.announcement_count
+  FROM (
+    SELECT
+      tags.id,
+      tags.name,
+      (
+        SELECT count(*) FROM note_tags
+        JOIN notes ON notes.id = note_tags.note_id
+        WHERE note_tags.tag_id = tags.id
+      ) AS note_count,
+      (
+        SELECT count(*) FROM announcement_tags
+        WHERE announcement_tags.tag_id = tags.id
+      ) AS announcement_count
+    FROM tags
+  ) AS counts
+  WHERE counts.note_count + counts.announcement_count > 0
+  ORDER BY counts.note_count + counts.announcement_count DESC, counts.name
+  LIMIT result_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_tag_cloud(INTEGER) TO authenticated;
@@ -0,0 +1,695 @@
+/*
+  # Add Courses
+
+  1. New Tables
+    - `courses` - Class sections that scope assignments, announcements and notes. Each has a
+      short join code students use to enroll themselves.
+    - `course_members` - Course rosters. Members are course instructors or students; course
+      instructors manage the roster and the course content.
+
+  2. Changes
+    - Add `course_id` to assignments and announcements (required) and to notes (optional)
+    - Existing assignments and announcements move to a "General" course every current user is
+      enrolled in, with instructors and admins enrolled as its instructors
+    - Recreate `assignment_overview` so it includes the new column
+
+  3. Functions
+    - `generate_join_code()` - Random 8 character code without look-alike characters
+    - `is_course_member(course_id, member_id)` - Whether a user is enrolled in a course.
+      SECURITY DEFINER so roster policies can call it without recursing. Only other functions
+      call it.
+    - `is_classmate(course_id, member_id)` - `is_course_member()` for courses the signed-in
+      user can see, so nobody can look up the enrollments of other courses
+    - `can_view_course(course_id)` / `can_manage_course(course_id)` - Whether the signed-in user
+      is enrolled in / teaches a course. Admins can view and manage every course.
+    - `join_course(join_code)` - Enrolls the signed-in user as a student of the course with
+      that code, which they cannot otherwise see
+    - `reset_course_join_code(course_id)` - Replaces a course's join code
+    - `add_course_creator()` - Trigger that enrolls whoever creates a course as its instructor
+    - `check_note_course()` - Trigger that only lets owners file notes, and only under their
+      own courses
+    - `protect_submission_grade()` - Lets the instructors of the assignment's course grade it,
+      instead of every instructor
+    - `get_tag_cloud(result_limit)` - Only counts announcements the user can see
+
+  4. Security
+    - Enable RLS on both tables. Members see their courses and classmates; instructors and
+      admins create courses; course instructors edit them and manage their rosters; members
+      can leave a course.
+    - Assignments, announcements, their comments, tags and attachments, and submissions are
+      only visible to members of the course. Creating, moderating and grading is limited to
+      the course's instructors instead of every instructor.
+    - Notes filed under a course can only be shared with members of that course, including
+      when a share is changed
+*/
+
+CREATE OR REPLACE FUNCTION generate_join_code()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', floor(random() * 32)::int + 1, 1), '')
+  FROM generate_series(1, 8);
+$$;
+
+-- Create courses table
+CREATE TABLE IF NOT EXISTS courses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  code TEXT,
+  description TEXT,
+  join_code TEXT UNIQUE NOT NULL DEFAULT generate_join_code(),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Create course_members table
+CREATE TABLE IF NOT EXISTS course_members (
+  course_id UUID REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  role TEXT DEFAULT 'student' NOT NULL CHECK (role IN ('instructor', 'student')),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (course_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_members_user_id ON course_members(user_id);
+
+CREATE OR REPLACE FUNCTION is_course_member(course_id UUID, member_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM course_members
+    WHERE course_members.course_id = $1
+    AND course_members.user_id = $2
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_view_course(course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT current_user_role() = 'admin' OR is_course_member($1, auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION can_manage_course(course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT current_user_role() = 'admin'
+  OR EXISTS (
+    SELECT 1 FROM course_members
+    WHERE course_members.course_id = $1
+    AND course_members.user_id = auth.uid()
+    AND course_members.role = 'instructor'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_classmate(course_id UUID, member_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT can_view_course($1) AND is_course_member($1, $2);
+$$;
+
+-- Answers for any user and course, so only other functions may call it
+REVOKE EXECUTE ON FUNCTION is_course_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_classmate(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_view_course(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_manage_course(UUID) TO authenticated;
+
+-- Codes are matched case-insensitively so they can be typed as read out in class
+CREATE OR REPLACE FUNCTION join_course(join_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  joined_course_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a course';
+  END IF;
+
+  SELECT courses.id INTO joined_course_id
+  FROM courses
+  WHERE courses.join_code = upper(btrim($1));
+
+  IF joined_course_id IS NULL THEN
+    RAISE EXCEPTION 'No course found with that join code';
+  END IF;
+
+  INSERT INTO course_members (course_id, user_id, role)
+  VALUES (joined_course_id, auth.uid(), 'student')
+  ON CONFLICT (course_id, user_id) DO NOTHING;
+
+  RETURN joined_course_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_course(TEXT) TO authenticated;
+
+-- Runs as the caller so the course update policy decides who may reset the code
+CREATE OR REPLACE FUNCTION reset_course_join_code(course_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_join_code TEXT;
+BEGIN
+  UPDATE courses
+  SET join_code = generate_join_code(), updated_at = now()
+  WHERE courses.id = $1
+  RETURNING courses.join_code INTO new_join_code;
+
+  IF new_join_code IS NULL THEN
+    RAISE EXCEPTION 'Only course instructors can reset the join code';
+  END IF;
+
+  RETURN new_join_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reset_course_join_code(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION add_course_creator()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO course_members (course_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'instructor')
+    ON CONFLICT (course_id, user_id) DO UPDATE SET role = 'instructor';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_course_creator ON courses;
+CREATE TRIGGER add_course_creator
+  AFTER INSERT ON courses
+  FOR EACH ROW
+  EXECUTE FUNCTION add_course_creator();
+
+-- Scope content to courses
+ALTER TABLE assignments
+ADD COLUMN IF NOT EXISTS course_id UUID REFERENCES courses(id) ON DELETE CASCADE;
+
+ALTER TABLE announcements
+ADD COLUMN IF NOT EXISTS course_id UUID REFERENCES courses(id) ON DELETE CASCADE;
+
+ALTER TABLE notes
+ADD COLUMN IF NOT EXISTS course_id UUID REFERENCES courses(id) ON DELETE SET NULL;
+
+-- Move existing content into a course everyone is enrolled in
+DO $$
+DECLARE
+  general_course_id UUID;
+BEGIN
+  IF EXISTS (SELECT 1 FROM assignments WHERE course_id IS NULL)
+    OR EXISTS (SELECT 1 FROM announcements WHERE course_id IS NULL) THEN
+    INSERT INTO courses (name, description)
+    VALUES ('General', 'Assignments and announcements posted before courses were added')
+    RETURNING id INTO general_course_id;
+
+    INSERT INTO course_members (course_id, user_id, role)
+    SELECT general_course_id, profiles.id, CASE WHEN profiles.role = 'student' THEN 'student' ELSE 'instructor' END
+    FROM profiles;
+
+    UPDATE assignments SET course_id = general_course_id WHERE course_id IS NULL;
+    UPDATE announcements SET course_id = general_course_id WHERE course_id IS NULL;
+  END IF;
+END $$;
+
+ALTER TABLE assignments ALTER COLUMN course_id SET NOT NULL;
+ALTER TABLE announcements ALTER COLUMN course_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_assignments_course_id ON assignments(course_id, due_date, id);
+CREATE INDEX IF NOT EXISTS idx_announcements_course_id ON announcements(course_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_notes_course_id ON notes(course_id);
+
+-- Notes can only be filed under a course their owner is enrolled in, and only by the owner
+CREATE OR REPLACE FUNCTION check_note_course()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Deleting a course clears it from its notes through the foreign key, one trigger level down
+  IF TG_OP = 'UPDATE'
+    AND pg_trigger_depth() = 1
+    AND auth.uid() IS NOT NULL
+    AND auth.uid() IS DISTINCT FROM OLD.user_id
+    AND NEW.course_id IS DISTINCT FROM OLD.course_id THEN
+    RAISE EXCEPTION 'Only the owner can change a note''s course';
+  END IF;
+
+  IF NEW.course_id IS NOT NULL AND NOT is_course_member(NEW.course_id, NEW.user_id) THEN
+    RAISE EXCEPTION 'Notes can only be added to courses you are enrolled in';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_note_course ON notes;
+CREATE TRIGGER check_note_course
+  BEFORE INSERT OR UPDATE OF course_id ON notes
+  FOR EACH ROW
+  EXECUTE FUNCTION check_note_course();
+
+-- The view's column list is fixed when it is created, so rebuild it to pick up course_id
+DROP VIEW IF EXISTS assignment_overview;
+
+CREATE VIEW assignment_overview
+WITH (security_invoker = true)
+AS
+  SELECT
+    assignments.*,
+    submissions.id AS submission_id,
+    submissions.status AS submission_status,
+    submissions.points AS submission_points,
+    CASE
+      WHEN submissions.status = 'returned' THEN 'graded'
+      WHEN submissions.status IN ('submitted', 'graded') THEN 'submitted'
+      WHEN assignments.due_date < now() THEN 'overdue'
+      WHEN submissions.status = 'draft' THEN 'draft'
+      ELSE 'pending'
+    END AS status
+  FROM assignments
+  LEFT JOIN submissions
+    ON submissions.assignment_id = assignments.id
+    AND submissions.user_id = auth.uid();
+
+GRANT SELECT ON assignment_overview TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_members ENABLE ROW LEVEL SECURITY;
+
+-- The creator is only enrolled after the insert, so they need to see the row they are
+-- inserting for it to be returned to them
+CREATE POLICY "Members can view their courses"
+  ON courses
+  FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid() OR can_view_course(id));
+
+CREATE POLICY "Instructors can create courses"
+  ON courses
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by AND current_user_role() IN ('instructor', 'admin'));
+
+CREATE POLICY "Course instructors can update their courses"
+  ON courses
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_course(id));
+
+CREATE POLICY "Course instructors can delete their courses"
+  ON courses
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_course(id));
+
+CREATE POLICY "Members can view their classmates"
+  ON course_members
+  FOR SELECT
+  TO authenticated
+  USING (can_view_course(course_id));
+
+CREATE POLICY "Course instructors can add members"
+  ON course_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_course(course_id));
+
+CREATE POLICY "Course instructors can change member roles"
+  ON course_members
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_course(course_id));
+
+CREATE POLICY "Instructors can remove members and members can leave"
+  ON course_members
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id OR can_manage_course(course_id));
+
+-- Assignments
+DROP POLICY IF EXISTS "Users can view published assignments" ON assignments;
+DROP POLICY IF EXISTS "Instructors can create assignments" ON assignments;
+DROP POLICY IF EXISTS "Instructors can update assignments" ON assignments;
+DROP POLICY IF EXISTS "Instructors can delete assignments" ON assignments;
+
+CREATE POLICY "Members can view published course assignments"
+  ON assignments
+  FOR SELECT
+  TO authenticated
+  USING (can_view_course(course_id) AND (published OR can_manage_course(course_id)));
+
+CREATE POLICY "Course instructors can create assignments"
+  ON assignments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_course(course_id));
+
+CREATE POLICY "Course instructors can update assignments"
+  ON assignments
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_course(course_id))
+  WITH CHECK (can_manage_course(course_id));
+
+CREATE POLICY "Course instructors can delete assignments"
+  ON assignments
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_course(course_id));
+
+-- Only the course's instructors may grade
+CREATE OR REPLACE FUNCTION protect_submission_grade()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM assignments
+    WHERE assignments.id = NEW.assignment_id
+    AND can_manage_course(assignments.course_id)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status IN ('graded', 'returned') THEN
+    RAISE EXCEPTION 'Graded submissions cannot be changed';
+  END IF;
+
+  IF NEW.status IN ('graded', 'returned')
+    OR NEW.points IS NOT NULL
+    OR NEW.feedback IS NOT NULL
+    OR NEW.rubric_scores IS NOT NULL
+    OR NEW.graded_by IS NOT NULL
+    OR NEW.graded_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Only instructors can grade submissions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Submissions
+DROP POLICY IF EXISTS "Users can create their own submissions" ON submissions;
+DROP POLICY IF EXISTS "Instructors can view all submissions" ON submissions;
+DROP POLICY IF EXISTS "Instructors can grade submissions" ON submissions;
+
+CREATE POLICY "Users can create their own submissions"
+  ON submissions
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = submissions.assignment_id
+    )
+  );
+
+CREATE POLICY "Course instructors can view submissions"
+  ON submissions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = submissions.assignment_id
+      AND can_manage_course(assignments.course_id)
+    )
+  );
+
+CREATE POLICY "Course instructors can grade submissions"
+  ON submissions
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = submissions.assignment_id
+      AND can_manage_course(assignments.course_id)
+    )
+  );
+
+-- Announcements
+DROP POLICY IF EXISTS "Users can view all announcements" ON announcements;
+DROP POLICY IF EXISTS "Users can update their own announcements" ON announcements;
+DROP POLICY IF EXISTS "Instructors can create announcements" ON announcements;
+DROP POLICY IF EXISTS "Instructors can moderate announcements" ON announcements;
+DROP POLICY IF EXISTS "Instructors can delete any announcement" ON announcements;
+
+CREATE POLICY "Members can view course announcements"
+  ON announcements
+  FOR SELECT
+  TO authenticated
+  USING (can_view_course(course_id));
+
+CREATE POLICY "Users can update their own announcements"
+  ON announcements
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND can_view_course(course_id));
+
+CREATE POLICY "Course instructors can create announcements"
+  ON announcements
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND can_manage_course(course_id));
+
+CREATE POLICY "Course instructors can moderate announcements"
+  ON announcements
+  FOR UPDATE
+  USING (can_manage_course(course_id))
+  WITH CHECK (can_manage_course(course_id));
+
+CREATE POLICY "Course instructors can delete any announcement"
+  ON announcements
+  FOR DELETE
+  USING (can_manage_course(course_id));
+
+-- Comments follow their announcement
+DROP POLICY IF EXISTS "Users can view all comments" ON comments;
+DROP POLICY IF EXISTS "Users can create comments" ON comments;
+DROP POLICY IF EXISTS "Instructors can delete any comment" ON comments;
+
+CREATE POLICY "Users can view comments on announcements they can see"
+  ON comments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM announcements
+      WHERE announcements.id = comments.announcement_id
+    )
+  );
+
+CREATE POLICY "Users can comment on announcements they can see"
+  ON comments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM announcements
+      WHERE announcements.id = comments.announcement_id
+    )
+  );
+
+CREATE POLICY "Course instructors can delete any comment"
+  ON comments
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM announcements
+      WHERE announcements.id = comments.announcement_id
+      AND can_manage_course(announcements.course_id)
+    )
+  );
+
+-- Announcement tags follow their announcement
+DROP POLICY IF EXISTS "Users can view announcement tags" ON announcement_tags;
+DROP POLICY IF EXISTS "Authors and instructors can tag announcements" ON announcement_tags;
+DROP POLICY IF EXISTS "Authors and instructors can untag announcements" ON announcement_tags;
+
+CREATE POLICY "Users can view the tags of announcements they can see"
+  ON announcement_tags
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM announcements
+      WHERE announcements.id = announcement_tags.announcement_id
+    )
+  );
+
+CREATE POLICY "Authors and course instructors can tag announcements"
+  ON announcement_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM announcements
+      WHERE announcements.id = announcement_tags.announcement_id
+      AND (announcements.user_id = auth.uid() OR can_manage_course(announcements.course_id))
+    )
+  );
+
+CREATE POLICY "Authors and course instructors can untag announcements"
+  ON announcement_tags
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM announcements
+      WHERE announcements.id = announcement_tags.announcement_id
+      AND (announcements.user_id = auth.uid() OR can_manage_course(announcements.course_id))
+    )
+  );
+
+-- Attachments on course content are managed by the course's instructors
+DROP POLICY IF EXISTS "Users can attach files to records they can edit" ON attachments;
+DROP POLICY IF EXISTS "Users can remove attachments they uploaded or manage" ON attachments;
+
+CREATE POLICY "Users can attach files to records they can edit"
+  ON attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    -- Only files the user uploaded, which are stored under their own folder
+    AND (storage.foldername(file_path))[1] = auth.uid()::text
+    AND (
+      (attachments.note_id IS NOT NULL AND can_edit_note(attachments.note_id))
+      OR EXISTS (
+        SELECT 1 FROM announcements
+        WHERE announcements.id = attachments.announcement_id
+        AND (announcements.user_id = auth.uid() OR can_manage_course(announcements.course_id))
+      )
+      OR EXISTS (
+        SELECT 1 FROM assignments
+        WHERE assignments.id = attachments.assignment_id
+        AND can_manage_course(assignments.course_id)
+      )
+      OR EXISTS (
+        SELECT 1 FROM submissions
+        WHERE submissions.id = attachments.submission_id
+        AND submissions.user_id = auth.uid()
+        AND submissions.status = 'draft'
+      )
+    )
+  );
+
+CREATE POLICY "Users can remove attachments they uploaded or manage"
+  ON attachments
+  FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM notes WHERE notes.id = attachments.note_id AND notes.user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM announcements
+      WHERE announcements.id = attachments.announcement_id
+      AND can_manage_course(announcements.course_id)
+    )
+    OR EXISTS (
+      SELECT 1 FROM assignments
+      WHERE assignments.id = attachments.assignment_id
+      AND can_manage_course(assignments.course_id)
+    )
+  );
+
+-- Course notes stay within the course
+DROP POLICY IF EXISTS "Note owners can share their notes" ON note_shares;
+DROP POLICY IF EXISTS "Note owners can change share permissions" ON note_shares;
+
+CREATE POLICY "Note owners can share their notes"
+  ON note_shares
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = shared_by
+    AND EXISTS (
+      SELECT 1 FROM notes
+      WHERE notes.id = note_shares.note_id
+      AND notes.user_id = auth.uid()
+      AND (notes.course_id IS NULL OR is_classmate(notes.course_id, note_shares.shared_with))
+    )
+  );
+
+CREATE POLICY "Note owners can change share permissions"
+  ON note_shares
+  FOR UPDATE
+  USING (auth.uid() = shared_by)
+  WITH CHECK (
+    auth.uid() = shared_by
+    AND EXISTS (
+      SELECT 1 FROM notes
+      WHERE notes.id = note_shares.note_id
+      AND notes.user_id = auth.uid()
+      AND (notes.course_id IS NULL OR is_classmate(notes.course_id, note_shares.shared_with))
+    )
+  );
+
+-- Runs as the caller, so only notes and announcements the user can see are counted
+CREATE OR REPLACE FUNCTION get_tag_cloud(result_limit INTEGER DEFAULT 40)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  note_count BIGINT,
+  announcement_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT counts.id, counts.name, counts.note_count, counts.announcement_count
+  FROM (
+    SELECT
+      tags.id,
+      tags.name,
+      (
+        SELECT count(*) FROM note_tags
+        JOIN notes ON notes.id = note_tags.note_id
+        WHERE note_tags.tag_id = tags.id
+      ) AS note_count,
+      (
+        SELECT count(*) FROM announcement_tags
+        JOIN announcements ON announcements.id = announcement_tags.announcement_id
+        WHERE announcement_tags.tag_id = tags.id
+      ) AS announcement_count
+    FROM tags
+  ) AS counts
+  WHERE counts.note_count + counts.announcement_count > 0
+  ORDER BY counts.note_count + counts.announcement_count DESC, counts.name
+  LIMIT result_limit;
+$$;
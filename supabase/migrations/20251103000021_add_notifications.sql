@@ -0,0 +1,369 @@
+/*
+  # Add Notifications
+
+  1. New Tables
+    - `notifications` - In-app notifications, written by triggers when something happens that
+      a user should hear about. `read_at` is set once the user has seen it.
+    - `notification_preferences` - Notification types a user has turned off. Types without a
+      row are on.
+
+  2. Functions
+    - `notification_enabled(recipient, notification_type)` - Whether a user wants a type
+    - `notify(...)` / `notify_course_members(...)` - Write a notification for one user or for
+      every member of a course, skipping whoever caused it and users who turned the type off.
+      Only callable from the triggers below.
+    - Triggers on announcements (new announcement), comments (new comment on an announcement
+      the user posted or commented on), assignments (assignment published), submissions
+      (grade returned) and feedback (status changed)
+    - `create_due_soon_notifications()` - Reminds the signed-in user once about each published
+      assignment due in the next 24 hours they have not handed in yet. Called by the app when
+      it loads, as there is no scheduler to run it.
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can only read, mark as read and delete their own notifications
+    - Users manage their own preferences
+    - Notifications are published to Realtime so unread counts update live
+*/
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('announcement', 'comment', 'assignment', 'grade', 'feedback', 'due_soon')),
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created_at ON notifications(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+-- One due date reminder per assignment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_due_soon ON notifications(user_id, link) WHERE type = 'due_soon';
+
+-- Create notification_preferences table
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('announcement', 'comment', 'assignment', 'grade', 'feedback', 'due_soon')),
+  enabled BOOLEAN DEFAULT true NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, type)
+);
+
+-- Enable Row Level Security
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications as read"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+  ON notifications
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own notification preferences"
+  ON notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+  ON notification_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON notification_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION notification_enabled(recipient UUID, notification_type TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE notification_preferences.user_id = recipient
+    AND notification_preferences.type = notification_type
+    AND NOT notification_preferences.enabled
+  );
+$$;
+
+-- Name shown in notification titles
+CREATE OR REPLACE FUNCTION profile_display_name(profile_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(NULLIF(btrim(concat_ws(' ', first_name, last_name)), ''), email, 'Someone')
+  FROM profiles
+  WHERE profiles.id = profile_id;
+$$;
+
+CREATE OR REPLACE FUNCTION notify(
+  recipient UUID,
+  notification_type TEXT,
+  notification_title TEXT,
+  notification_body TEXT,
+  notification_link TEXT,
+  actor UUID
+)
+RETURNS VOID
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, type, title, body, link, actor_id)
+  SELECT recipient, notification_type, notification_title, notification_body, notification_link, actor
+  WHERE recipient IS DISTINCT FROM actor
+  AND notification_enabled(recipient, notification_type);
+$$;
+
+CREATE OR REPLACE FUNCTION notify_course_members(
+  course UUID,
+  notification_type TEXT,
+  notification_title TEXT,
+  notification_body TEXT,
+  notification_link TEXT,
+  actor UUID
+)
+RETURNS VOID
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, type, title, body, link, actor_id)
+  SELECT course_members.user_id, notification_type, notification_title, notification_body, notification_link, actor
+  FROM course_members
+  WHERE course_members.course_id = course
+  AND course_members.user_id IS DISTINCT FROM actor
+  AND notification_enabled(course_members.user_id, notification_type);
+$$;
+
+-- Notifications are only written by the triggers, never directly by users
+REVOKE EXECUTE ON FUNCTION notify(UUID, TEXT, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_course_members(UUID, TEXT, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify_new_announcement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify_course_members(
+    NEW.course_id,
+    'announcement',
+    format('%s posted an announcement', profile_display_name(NEW.user_id)),
+    NEW.title,
+    '/announcements/' || NEW.id,
+    NEW.user_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_new_announcement ON announcements;
+CREATE TRIGGER notify_new_announcement
+  AFTER INSERT ON announcements
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_announcement();
+
+-- Comments have no threads, so the announcement's author and everyone who commented
+-- before are told about each new comment
+CREATE OR REPLACE FUNCTION notify_new_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  announcement_title TEXT;
+  recipient UUID;
+BEGIN
+  SELECT announcements.title INTO announcement_title
+  FROM announcements
+  WHERE announcements.id = NEW.announcement_id;
+
+  FOR recipient IN
+    SELECT announcements.user_id FROM announcements WHERE announcements.id = NEW.announcement_id
+    UNION
+    SELECT comments.user_id FROM comments
+    WHERE comments.announcement_id = NEW.announcement_id
+    AND comments.id <> NEW.id
+  LOOP
+    PERFORM notify(
+      recipient,
+      'comment',
+      format('%s commented on "%s"', profile_display_name(NEW.user_id), announcement_title),
+      left(NEW.content, 200),
+      '/announcements/' || NEW.announcement_id,
+      NEW.user_id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_new_comment ON comments;
+CREATE TRIGGER notify_new_comment
+  AFTER INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_comment();
+
+-- Students hear about assignments once they are published, whether on creation or later
+CREATE OR REPLACE FUNCTION notify_new_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.published AND (TG_OP = 'INSERT' OR NOT OLD.published) THEN
+    PERFORM notify_course_members(
+      NEW.course_id,
+      'assignment',
+      'New assignment',
+      NEW.title,
+      '/assignments/' || NEW.id,
+      NEW.created_by
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_new_assignment ON assignments;
+CREATE TRIGGER notify_new_assignment
+  AFTER INSERT OR UPDATE OF published ON assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_assignment();
+
+-- Grades are only visible to the student once returned
+CREATE OR REPLACE FUNCTION notify_submission_graded()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment_title TEXT;
+  assignment_max_points NUMERIC;
+BEGIN
+  IF NEW.status = 'returned' AND OLD.status IS DISTINCT FROM 'returned' THEN
+    SELECT assignments.title, assignments.max_points INTO assignment_title, assignment_max_points
+    FROM assignments
+    WHERE assignments.id = NEW.assignment_id;
+
+    PERFORM notify(
+      NEW.user_id,
+      'grade',
+      format('Your submission for "%s" was graded', assignment_title),
+      CASE
+        WHEN NEW.points IS NOT NULL THEN format('%s / %s points', trim_scale(NEW.points), trim_scale(assignment_max_points))
+      END,
+      '/assignments/' || NEW.assignment_id,
+      COALESCE(NEW.graded_by, auth.uid())
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_submission_graded ON submissions;
+CREATE TRIGGER notify_submission_graded
+  AFTER UPDATE OF status ON submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_submission_graded();
+
+CREATE OR REPLACE FUNCTION notify_feedback_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM notify(
+      NEW.user_id,
+      'feedback',
+      format('Your feedback was marked %s', NEW.status),
+      NEW.subject,
+      '/feedback',
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_feedback_status ON feedback;
+CREATE TRIGGER notify_feedback_status
+  AFTER UPDATE OF status ON feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_feedback_status();
+
+CREATE OR REPLACE FUNCTION create_due_soon_notifications()
+RETURNS VOID
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, type, title, body, link)
+  SELECT
+    auth.uid(),
+    'due_soon',
+    format('"%s" is due soon', assignments.title),
+    'Due within the next 24 hours',
+    '/assignments/' || assignments.id
+  FROM assignments
+  JOIN course_members
+    ON course_members.course_id = assignments.course_id
+    AND course_members.user_id = auth.uid()
+    AND course_members.role = 'student'
+  WHERE assignments.published
+  AND assignments.due_date BETWEEN now() AND now() + interval '24 hours'
+  AND NOT EXISTS (
+    SELECT 1 FROM submissions
+    WHERE submissions.assignment_id = assignments.id
+    AND submissions.user_id = auth.uid()
+    AND submissions.status <> 'draft'
+  )
+  AND notification_enabled(auth.uid(), 'due_soon')
+  ON CONFLICT (user_id, link) WHERE type = 'due_soon' DO NOTHING;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_due_soon_notifications() TO authenticated;
+
+-- Stream new and updated notifications to the signed-in user
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
@@ -0,0 +1,55 @@
+/*
+  # Add Live Announcements and Comments
+
+  1. Changes
+    - Publish `announcements` and `comments` to Realtime so new announcements, and comments
+      added, edited or deleted by others, reach open pages without a reload. Realtime applies
+      the tables' select policies, so users only receive rows from their own courses.
+
+  2. Functions
+    - `can_view_announcement(announcement_id)` - Whether the current user can see an announcement
+
+  3. Security
+    - Private realtime channels named `announcement:<announcement id>` are limited to users who
+      can see the announcement, so typing indicators stay within its course
+*/
+
+-- Runs as the caller so announcement policies still apply
+CREATE OR REPLACE FUNCTION can_view_announcement(announcement_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM announcements
+    WHERE announcements.id = can_view_announcement.announcement_id
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_view_announcement(UUID) TO authenticated;
+
+-- Readers of an announcement can listen on and send to its channel
+CREATE POLICY "Announcement readers can receive comment activity"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND split_part(realtime.topic(), ':', 1) = 'announcement'
+    AND public.can_view_announcement(NULLIF(split_part(realtime.topic(), ':', 2), '')::uuid)
+  );
+
+CREATE POLICY "Announcement readers can send comment activity"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND split_part(realtime.topic(), ':', 1) = 'announcement'
+    AND public.can_view_announcement(NULLIF(split_part(realtime.topic(), ':', 2), '')::uuid)
+  );
+
+-- Stream announcement and comment changes to open pages
+ALTER PUBLICATION supabase_realtime ADD TABLE announcements, comments;
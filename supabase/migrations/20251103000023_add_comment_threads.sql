@@ -0,0 +1,251 @@
+/*
+  # Add Comment Threads, Edits, Reactions and Mentions
+
+  1. Changes
+    - Add `parent_id` to comments so comments can reply to each other. Deleting a comment
+      deletes its replies.
+    - Add `edited_at` to comments, set whenever the content of a comment changes
+    - Mentions are written into comment content as `@[Name](user id)`
+    - Allow a `mention` notification type
+
+  2. New Tables
+    - `comment_reactions` - Emoji reactions to comments, one of each emoji per user
+
+  3. Functions
+    - `check_comment_thread()` trigger - Keeps replies on their parent's announcement, stamps
+      edits and stops comments from moving to another announcement or thread
+    - `comment_mentions(content)` - Ids of the users mentioned in a comment
+    - `strip_mentions(content)` - Comment text with mentions shown as `@Name`, for notifications
+    - `notify_new_comment()` now tells the author of the comment being replied to about a
+      reply, rather than the whole announcement. Mentioned users are told by
+      `notify_comment_mentions()` instead, including users mentioned in an edit.
+
+  4. Security
+    - Enable RLS on `comment_reactions`
+    - Users can see reactions on comments they can see, and add or remove their own
+    - Reactions are published to Realtime so counts update live
+*/
+
+ALTER TABLE comments
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+
+CREATE OR REPLACE FUNCTION check_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.announcement_id IS DISTINCT FROM OLD.announcement_id
+      OR NEW.parent_id IS DISTINCT FROM OLD.parent_id THEN
+      RAISE EXCEPTION 'Comments cannot be moved';
+    END IF;
+
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+      NEW.edited_at := now();
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  NEW.edited_at := NULL;
+
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM comments
+    WHERE comments.id = NEW.parent_id
+    AND comments.announcement_id = NEW.announcement_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must be on the same announcement as their comment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_comment_thread ON comments;
+CREATE TRIGGER check_comment_thread
+  BEFORE INSERT OR UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_comment_thread();
+
+-- Create comment_reactions table
+CREATE TABLE IF NOT EXISTS comment_reactions (
+  comment_id UUID REFERENCES comments(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  emoji TEXT NOT NULL CHECK (emoji IN ('👍', '❤️', '😂', '🎉', '😮', '🙏')),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (comment_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_reactions_user_id ON comment_reactions(user_id);
+
+ALTER TABLE comment_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reactions on comments they can see"
+  ON comment_reactions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM comments
+      WHERE comments.id = comment_reactions.comment_id
+    )
+  );
+
+CREATE POLICY "Users can react to comments they can see"
+  ON comment_reactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM comments
+      WHERE comments.id = comment_reactions.comment_id
+    )
+  );
+
+CREATE POLICY "Users can remove their own reactions"
+  ON comment_reactions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Mentions notify the mentioned user
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('announcement', 'comment', 'mention', 'assignment', 'grade', 'feedback', 'due_soon'));
+
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_type_check;
+ALTER TABLE notification_preferences ADD CONSTRAINT notification_preferences_type_check
+  CHECK (type IN ('announcement', 'comment', 'mention', 'assignment', 'grade', 'feedback', 'due_soon'));
+
+CREATE OR REPLACE FUNCTION comment_mentions(content TEXT)
+RETURNS SETOF UUID
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT match[1]::uuid
+  FROM regexp_matches(
+    content,
+    '@\[[^\]]+\]\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)',
+    'g'
+  ) AS match;
+$$;
+
+CREATE OR REPLACE FUNCTION strip_mentions(content TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT regexp_replace(content, '@\[([^\]]+)\]\([0-9a-f-]{36}\)', '@\1', 'g');
+$$;
+
+-- A reply goes to the author of the comment it answers; a new comment goes to the
+-- announcement's author and everyone who commented before. Mentioned users hear about
+-- the comment as a mention instead.
+CREATE OR REPLACE FUNCTION notify_new_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  announcement_title TEXT;
+  recipient UUID;
+BEGIN
+  SELECT announcements.title INTO announcement_title
+  FROM announcements
+  WHERE announcements.id = NEW.announcement_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    FOR recipient IN
+      SELECT comments.user_id FROM comments
+      WHERE comments.id = NEW.parent_id
+      AND comments.user_id NOT IN (SELECT comment_mentions(NEW.content))
+    LOOP
+      PERFORM notify(
+        recipient,
+        'comment',
+        format('%s replied to your comment on "%s"', profile_display_name(NEW.user_id), announcement_title),
+        left(strip_mentions(NEW.content), 200),
+        '/announcements/' || NEW.announcement_id,
+        NEW.user_id
+      );
+    END LOOP;
+  ELSE
+    FOR recipient IN
+      SELECT announcements.user_id FROM announcements WHERE announcements.id = NEW.announcement_id
+      UNION
+      SELECT comments.user_id FROM comments
+      WHERE comments.announcement_id = NEW.announcement_id
+      AND comments.parent_id IS NULL
+      AND comments.id <> NEW.id
+      EXCEPT
+      SELECT comment_mentions(NEW.content)
+    LOOP
+      PERFORM notify(
+        recipient,
+        'comment',
+        format('%s commented on "%s"', profile_display_name(NEW.user_id), announcement_title),
+        left(strip_mentions(NEW.content), 200),
+        '/announcements/' || NEW.announcement_id,
+        NEW.user_id
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Only course members are told, so mentions can't reach users who can't see the comment
+CREATE OR REPLACE FUNCTION notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  announcement_title TEXT;
+  announcement_course UUID;
+  recipient UUID;
+BEGIN
+  SELECT announcements.title, announcements.course_id INTO announcement_title, announcement_course
+  FROM announcements
+  WHERE announcements.id = NEW.announcement_id;
+
+  FOR recipient IN
+    SELECT comment_mentions(NEW.content)
+    EXCEPT
+    SELECT comment_mentions(CASE WHEN TG_OP = 'UPDATE' THEN OLD.content ELSE '' END)
+  LOOP
+    IF is_course_member(announcement_course, recipient) THEN
+      PERFORM notify(
+        recipient,
+        'mention',
+        format('%s mentioned you on "%s"', profile_display_name(NEW.user_id), announcement_title),
+        left(strip_mentions(NEW.content), 200),
+        '/announcements/' || NEW.announcement_id,
+        NEW.user_id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_comment_mentions ON comments;
+CREATE TRIGGER notify_comment_mentions
+  AFTER INSERT OR UPDATE OF content ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_comment_mentions();
+
+-- Stream reactions to open pages
+ALTER PUBLICATION supabase_realtime ADD TABLE comment_reactions;
@@ -0,0 +1,293 @@
+/*
+  # Add Comments and Annotations on Notes
+
+  1. Changes
+    - Comments belong to either an announcement or a note: `announcement_id` becomes optional
+      and `note_id` is added, with exactly one of them set
+    - Add `anchor_text`, `anchor_start` and `anchor_end` to comments. A top-level note comment
+      with an anchor is an annotation on that range of the note's text; the offsets count
+      characters of the note as displayed, and the quoted text finds the range again after
+      the note is edited.
+
+  2. Functions
+    - `has_note_access(note_id, member_id)` - Whether a user owns a note or it is shared with them
+    - `check_comment_thread()` now keeps replies on their parent's note as well
+    - `notify_new_comment()` tells note owners about comments and annotations on their notes
+    - `notify_comment_mentions()` only tells users who can see the note they were mentioned on
+
+  3. Security
+    - Users can read comments on notes they can see. Note owners and recipients with comment
+      or edit access can comment on and annotate them.
+    - Note owners can delete any comment on their notes
+*/
+
+ALTER TABLE comments
+ALTER COLUMN announcement_id DROP NOT NULL;
+
+ALTER TABLE comments
+ADD COLUMN IF NOT EXISTS note_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS anchor_text TEXT,
+ADD COLUMN IF NOT EXISTS anchor_start INTEGER,
+ADD COLUMN IF NOT EXISTS anchor_end INTEGER;
+
+ALTER TABLE comments DROP CONSTRAINT IF EXISTS comments_target_check;
+ALTER TABLE comments ADD CONSTRAINT comments_target_check
+  CHECK (num_nonnulls(announcement_id, note_id) = 1);
+
+-- Only top-level note comments are anchored, and all three anchor columns go together
+ALTER TABLE comments DROP CONSTRAINT IF EXISTS comments_anchor_check;
+ALTER TABLE comments ADD CONSTRAINT comments_anchor_check
+  CHECK (
+    (anchor_text IS NULL AND anchor_start IS NULL AND anchor_end IS NULL)
+    OR (
+      note_id IS NOT NULL
+      AND parent_id IS NULL
+      AND length(anchor_text) > 0
+      AND anchor_start >= 0
+      AND anchor_end > anchor_start
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_comments_note_id ON comments(note_id);
+
+CREATE OR REPLACE FUNCTION has_note_access(note_id UUID, member_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM notes
+    WHERE notes.id = has_note_access.note_id
+    AND notes.user_id = member_id
+  ) OR EXISTS (
+    SELECT 1 FROM note_shares
+    WHERE note_shares.note_id = has_note_access.note_id
+    AND note_shares.shared_with = member_id
+  );
+$$;
+
+-- Only used by the notification triggers
+REVOKE EXECUTE ON FUNCTION has_note_access(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION check_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.announcement_id IS DISTINCT FROM OLD.announcement_id
+      OR NEW.note_id IS DISTINCT FROM OLD.note_id
+      OR NEW.parent_id IS DISTINCT FROM OLD.parent_id THEN
+      RAISE EXCEPTION 'Comments cannot be moved';
+    END IF;
+
+    IF NEW.anchor_text IS DISTINCT FROM OLD.anchor_text
+      OR NEW.anchor_start IS DISTINCT FROM OLD.anchor_start
+      OR NEW.anchor_end IS DISTINCT FROM OLD.anchor_end THEN
+      RAISE EXCEPTION 'Annotations cannot be moved';
+    END IF;
+
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+      NEW.edited_at := now();
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  NEW.edited_at := NULL;
+
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM comments
+    WHERE comments.id = NEW.parent_id
+    AND comments.announcement_id IS NOT DISTINCT FROM NEW.announcement_id
+    AND comments.note_id IS NOT DISTINCT FROM NEW.note_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must be on the same announcement or note as their comment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE POLICY "Users can view comments on notes they can see"
+  ON comments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM notes
+      WHERE notes.id = comments.note_id
+    )
+  );
+
+-- Recipients need a share with comment or edit access; view access is read only
+CREATE POLICY "Users can comment on notes they own or may comment on"
+  ON comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      EXISTS (
+        SELECT 1 FROM notes
+        WHERE notes.id = comments.note_id
+        AND notes.user_id = auth.uid()
+      ) OR EXISTS (
+        SELECT 1 FROM note_shares
+        WHERE note_shares.note_id = comments.note_id
+        AND note_shares.shared_with = auth.uid()
+        AND note_shares.permission IN ('comment', 'edit')
+      )
+    )
+  );
+
+CREATE POLICY "Note owners can delete any comment on their notes"
+  ON comments
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM notes
+      WHERE notes.id = comments.note_id
+      AND notes.user_id = auth.uid()
+    )
+  );
+
+-- A reply goes to the author of the comment it answers. A new comment on an announcement
+-- goes to its author and everyone who commented before; a new comment or annotation on a
+-- note goes to the note's owner. Mentioned users hear about the comment as a mention instead.
+CREATE OR REPLACE FUNCTION notify_new_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_title TEXT;
+  target_link TEXT;
+  recipient UUID;
+BEGIN
+  IF NEW.note_id IS NOT NULL THEN
+    SELECT notes.title INTO target_title
+    FROM notes
+    WHERE notes.id = NEW.note_id;
+    target_link := '/notes/' || NEW.note_id;
+  ELSE
+    SELECT announcements.title INTO target_title
+    FROM announcements
+    WHERE announcements.id = NEW.announcement_id;
+    target_link := '/announcements/' || NEW.announcement_id;
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    FOR recipient IN
+      SELECT comments.user_id FROM comments
+      WHERE comments.id = NEW.parent_id
+      AND comments.user_id NOT IN (SELECT comment_mentions(NEW.content))
+    LOOP
+      PERFORM notify(
+        recipient,
+        'comment',
+        format('%s replied to your comment on "%s"', profile_display_name(NEW.user_id), target_title),
+        left(strip_mentions(NEW.content), 200),
+        target_link,
+        NEW.user_id
+      );
+    END LOOP;
+  ELSIF NEW.note_id IS NOT NULL THEN
+    FOR recipient IN
+      SELECT notes.user_id FROM notes WHERE notes.id = NEW.note_id
+      EXCEPT
+      SELECT comment_mentions(NEW.content)
+    LOOP
+      PERFORM notify(
+        recipient,
+        'comment',
+        format(
+          CASE WHEN NEW.anchor_text IS NOT NULL THEN '%s annotated your note "%s"' ELSE '%s commented on your note "%s"' END,
+          profile_display_name(NEW.user_id),
+          target_title
+        ),
+        left(strip_mentions(NEW.content), 200),
+        target_link,
+        NEW.user_id
+      );
+    END LOOP;
+  ELSE
+    FOR recipient IN
+      SELECT announcements.user_id FROM announcements WHERE announcements.id = NEW.announcement_id
+      UNION
+      SELECT comments.user_id FROM comments
+      WHERE comments.announcement_id = NEW.announcement_id
+      AND comments.parent_id IS NULL
+      AND comments.id <> NEW.id
+      EXCEPT
+      SELECT comment_mentions(NEW.content)
+    LOOP
+      PERFORM notify(
+        recipient,
+        'comment',
+        format('%s commented on "%s"', profile_display_name(NEW.user_id), target_title),
+        left(strip_mentions(NEW.content), 200),
+        target_link,
+        NEW.user_id
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Only users who can see the announcement or note are told
+CREATE OR REPLACE FUNCTION notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_title TEXT;
+  target_link TEXT;
+  announcement_course UUID;
+  recipient UUID;
+BEGIN
+  IF NEW.note_id IS NOT NULL THEN
+    SELECT notes.title INTO target_title
+    FROM notes
+    WHERE notes.id = NEW.note_id;
+    target_link := '/notes/' || NEW.note_id;
+  ELSE
+    SELECT announcements.title, announcements.course_id INTO target_title, announcement_course
+    FROM announcements
+    WHERE announcements.id = NEW.announcement_id;
+    target_link := '/announcements/' || NEW.announcement_id;
+  END IF;
+
+  FOR recipient IN
+    SELECT comment_mentions(NEW.content)
+    EXCEPT
+    SELECT comment_mentions(CASE WHEN TG_OP = 'UPDATE' THEN OLD.content ELSE '' END)
+  LOOP
+    IF CASE
+      WHEN NEW.note_id IS NOT NULL THEN has_note_access(NEW.note_id, recipient)
+      ELSE is_course_member(announcement_course, recipient)
+    END THEN
+      PERFORM notify(
+        recipient,
+        'mention',
+        format('%s mentioned you on "%s"', profile_display_name(NEW.user_id), target_title),
+        left(strip_mentions(NEW.content), 200),
+        target_link,
+        NEW.user_id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,193 @@
+/*
+  # Add Email Notifications
+
+  1. Changes
+    - Add `email_notifications` to profiles. Users who turn it off get no emails about single
+      notifications.
+    - Add `email_digest` ('never', 'daily' or 'weekly') and `last_digest_sent_at` to profiles
+    - Add `emailed_at` to notifications, set once the notification was handed to the mail
+      transport. New announcements, due date reminders and returned grades are emailed; per-type
+      preferences still apply, as notifications of types a user turned off are never written.
+
+  2. Functions
+    - `create_all_due_soon_notifications()` - Due date reminders for every student, as
+      `create_due_soon_notifications()` only covers the signed-in user when the app loads
+    - `claim_notification_emails(batch_size)` - Marks a batch of recent notifications that
+      should be emailed as sent and returns them with their recipient, so parallel runs of the
+      dispatcher never send the same one twice
+    - `release_notification_email(notification_id)` - Puts a notification back after sending failed
+    - `claim_digest_recipients()` - Users whose daily or weekly digest is due, stamped as sent
+    - `upcoming_assignments(member_id, until)` - Published assignments a student has not handed
+      in yet that are due before `until`
+
+  3. Security
+    - All functions are only callable with the service role, by the notification dispatcher
+*/
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS email_notifications BOOLEAN DEFAULT true NOT NULL,
+ADD COLUMN IF NOT EXISTS email_digest TEXT DEFAULT 'weekly' NOT NULL CHECK (email_digest IN ('never', 'daily', 'weekly')),
+ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMPTZ;
+
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMPTZ;
+
+-- Notifications still waiting to be emailed
+CREATE INDEX IF NOT EXISTS idx_notifications_unsent ON notifications(created_at) WHERE emailed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION create_all_due_soon_notifications()
+RETURNS VOID
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, type, title, body, link)
+  SELECT
+    course_members.user_id,
+    'due_soon',
+    format('"%s" is due soon', assignments.title),
+    'Due within the next 24 hours',
+    '/assignments/' || assignments.id
+  FROM assignments
+  JOIN course_members
+    ON course_members.course_id = assignments.course_id
+    AND course_members.role = 'student'
+  WHERE assignments.published
+  AND assignments.due_date BETWEEN now() AND now() + interval '24 hours'
+  AND NOT EXISTS (
+    SELECT 1 FROM submissions
+    WHERE submissions.assignment_id = assignments.id
+    AND submissions.user_id = course_members.user_id
+    AND submissions.status <> 'draft'
+  )
+  AND notification_enabled(course_members.user_id, 'due_soon')
+  ON CONFLICT (user_id, link) WHERE type = 'due_soon' DO NOTHING;
+$$;
+
+-- Notifications older than a day are left to the digest rather than emailed late
+CREATE OR REPLACE FUNCTION claim_notification_emails(batch_size INTEGER DEFAULT 100)
+RETURNS TABLE (
+  id UUID,
+  type TEXT,
+  title TEXT,
+  body TEXT,
+  link TEXT,
+  created_at TIMESTAMPTZ,
+  email TEXT,
+  first_name TEXT
+)
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH claimed AS (
+    UPDATE notifications
+    SET emailed_at = now()
+    WHERE notifications.id IN (
+      SELECT notifications.id FROM notifications
+      JOIN profiles ON profiles.id = notifications.user_id
+      WHERE notifications.emailed_at IS NULL
+      AND notifications.type IN ('announcement', 'due_soon', 'grade')
+      AND notifications.created_at > now() - interval '1 day'
+      AND profiles.email_notifications
+      ORDER BY notifications.created_at
+      LIMIT batch_size
+      FOR UPDATE OF notifications SKIP LOCKED
+    )
+    RETURNING notifications.*
+  )
+  SELECT claimed.id, claimed.type, claimed.title, claimed.body, claimed.link, claimed.created_at, profiles.email, profiles.first_name
+  FROM claimed
+  JOIN profiles ON profiles.id = claimed.user_id
+  ORDER BY claimed.created_at;
+$$;
+
+CREATE OR REPLACE FUNCTION release_notification_email(notification_id UUID)
+RETURNS VOID
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE notifications
+  SET emailed_at = NULL
+  WHERE notifications.id = notification_id;
+$$;
+
+-- Digests are due a little early so a scheduled run is not skipped for being a few minutes
+-- short of a full day or week since the last one
+CREATE OR REPLACE FUNCTION claim_digest_recipients()
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  first_name TEXT,
+  email_digest TEXT,
+  -- When the last digest went out, or null for the first one
+  since TIMESTAMPTZ
+)
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT profiles.id, profiles.last_digest_sent_at FROM profiles
+    WHERE (
+      profiles.email_digest = 'daily'
+      AND (profiles.last_digest_sent_at IS NULL OR profiles.last_digest_sent_at < now() - interval '23 hours')
+    ) OR (
+      profiles.email_digest = 'weekly'
+      AND (profiles.last_digest_sent_at IS NULL OR profiles.last_digest_sent_at < now() - interval '6 days 23 hours')
+    )
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE profiles
+  SET last_digest_sent_at = now()
+  FROM due
+  WHERE profiles.id = due.id
+  RETURNING profiles.id, profiles.email, profiles.first_name, profiles.email_digest, due.last_digest_sent_at;
+$$;
+
+CREATE OR REPLACE FUNCTION upcoming_assignments(member_id UUID, until TIMESTAMPTZ)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  due_date TIMESTAMPTZ,
+  course_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT assignments.id, assignments.title, assignments.due_date, courses.name
+  FROM assignments
+  JOIN courses ON courses.id = assignments.course_id
+  JOIN course_members
+    ON course_members.course_id = assignments.course_id
+    AND course_members.user_id = member_id
+    AND course_members.role = 'student'
+  WHERE assignments.published
+  AND assignments.due_date BETWEEN now() AND until
+  AND NOT EXISTS (
+    SELECT 1 FROM submissions
+    WHERE submissions.assignment_id = assignments.id
+    AND submissions.user_id = member_id
+    AND submissions.status <> 'draft'
+  )
+  ORDER BY assignments.due_date;
+$$;
+
+-- Only the notification dispatcher, running with the service role, sends email
+REVOKE EXECUTE ON FUNCTION create_all_due_soon_notifications() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_notification_emails(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_notification_email(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_digest_recipients() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION upcoming_assignments(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_all_due_soon_notifications() TO service_role;
+GRANT EXECUTE ON FUNCTION claim_notification_emails(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION release_notification_email(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_digest_recipients() TO service_role;
+GRANT EXECUTE ON FUNCTION upcoming_assignments(UUID, TIMESTAMPTZ) TO service_role;
@@ -0,0 +1,258 @@
+/*
+  # Move Grades Out of Submissions
+
+  1. Changes
+    - Add `submission_grades` table holding the points, feedback, rubric scores, grader and
+      grading time of a submission. Students can read their own submissions at any time, so a
+      grade saved as 'graded' but not yet returned has to live where they cannot read it.
+    - Copy existing grades over and drop `points`, `feedback`, `rubric_scores`, `graded_by`
+      and `graded_at` from submissions
+    - Recreate `assignment_overview` so `submission_points` comes from the grade
+
+  2. Functions
+    - `save_submission_grade(...)` - Saves a grade and sets the submission's status to
+      'graded' or 'returned' in one go
+    - `protect_submission_grade()` - Only has the status left to guard
+    - `notify_submission_graded()` - Reads the points from the grade
+
+  3. Security
+    - Course instructors can view, add and change the grades of their course's submissions
+    - Students can only view the grade of their own submission once it has been returned
+*/
+
+CREATE TABLE IF NOT EXISTS submission_grades (
+  submission_id UUID PRIMARY KEY REFERENCES submissions(id) ON DELETE CASCADE,
+  points NUMERIC(6, 2) CHECK (points >= 0),
+  feedback TEXT,
+  rubric_scores JSONB,
+  graded_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  graded_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'submissions'
+    AND column_name = 'points'
+  ) THEN
+    INSERT INTO submission_grades (submission_id, points, feedback, rubric_scores, graded_by, graded_at)
+    SELECT id, points, feedback, rubric_scores, graded_by, COALESCE(graded_at, updated_at)
+    FROM submissions
+    WHERE num_nonnulls(points, feedback, rubric_scores, graded_by, graded_at) > 0
+    ON CONFLICT (submission_id) DO NOTHING;
+  END IF;
+END $$;
+
+-- The view reads submissions.points, so it has to go before the column does
+DROP VIEW IF EXISTS assignment_overview;
+
+ALTER TABLE submissions
+DROP COLUMN IF EXISTS points,
+DROP COLUMN IF EXISTS feedback,
+DROP COLUMN IF EXISTS rubric_scores,
+DROP COLUMN IF EXISTS graded_by,
+DROP COLUMN IF EXISTS graded_at;
+
+-- Runs as the caller, so students only get points for returned submissions
+CREATE VIEW assignment_overview
+WITH (security_invoker = true)
+AS
+  SELECT
+    assignments.*,
+    submissions.id AS submission_id,
+    submissions.status AS submission_status,
+    submission_grades.points AS submission_points,
+    CASE
+      WHEN submissions.status = 'returned' THEN 'graded'
+      WHEN submissions.status IN ('submitted', 'graded') THEN 'submitted'
+      WHEN assignments.due_date < now() THEN 'overdue'
+      WHEN submissions.status = 'draft' THEN 'draft'
+      ELSE 'pending'
+    END AS status
+  FROM assignments
+  LEFT JOIN submissions
+    ON submissions.assignment_id = assignments.id
+    AND submissions.user_id = auth.uid()
+  LEFT JOIN submission_grades
+    ON submission_grades.submission_id = submissions.id;
+
+GRANT SELECT ON assignment_overview TO authenticated;
+
+-- Only instructors may grade
+CREATE OR REPLACE FUNCTION protect_submission_grade()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM assignments
+    WHERE assignments.id = NEW.assignment_id
+    AND can_manage_course(assignments.course_id)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status IN ('graded', 'returned') THEN
+    RAISE EXCEPTION 'Graded submissions cannot be changed';
+  END IF;
+
+  IF NEW.status IN ('graded', 'returned') THEN
+    RAISE EXCEPTION 'Only instructors can grade submissions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_submission_graded()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment_title TEXT;
+  assignment_max_points NUMERIC;
+  grade submission_grades%ROWTYPE;
+BEGIN
+  IF NEW.status = 'returned' AND OLD.status IS DISTINCT FROM 'returned' THEN
+    SELECT assignments.title, assignments.max_points INTO assignment_title, assignment_max_points
+    FROM assignments
+    WHERE assignments.id = NEW.assignment_id;
+
+    SELECT * INTO grade
+    FROM submission_grades
+    WHERE submission_grades.submission_id = NEW.id;
+
+    PERFORM notify(
+      NEW.user_id,
+      'grade',
+      format('Your submission for "%s" was graded', assignment_title),
+      CASE
+        WHEN grade.points IS NOT NULL THEN format('%s / %s points', trim_scale(grade.points), trim_scale(assignment_max_points))
+      END,
+      '/assignments/' || NEW.assignment_id,
+      COALESCE(grade.graded_by, auth.uid())
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs as the caller, so the policies below decide who may grade
+CREATE OR REPLACE FUNCTION save_submission_grade(
+  submission_id UUID,
+  points NUMERIC,
+  feedback TEXT,
+  rubric_scores JSONB,
+  grade_status TEXT
+)
+RETURNS submission_grades
+LANGUAGE plpgsql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  saved submission_grades;
+BEGIN
+  IF grade_status NOT IN ('graded', 'returned') THEN
+    RAISE EXCEPTION 'A grade can only be saved as graded or returned';
+  END IF;
+
+  -- The grade goes in first so it is there when returning the submission notifies the student
+  INSERT INTO submission_grades (submission_id, points, feedback, rubric_scores, graded_by, graded_at)
+  VALUES (
+    save_submission_grade.submission_id,
+    save_submission_grade.points,
+    save_submission_grade.feedback,
+    save_submission_grade.rubric_scores,
+    auth.uid(),
+    now()
+  )
+  ON CONFLICT ON CONSTRAINT submission_grades_pkey DO UPDATE
+  SET points = EXCLUDED.points,
+    feedback = EXCLUDED.feedback,
+    rubric_scores = EXCLUDED.rubric_scores,
+    graded_by = EXCLUDED.graded_by,
+    graded_at = EXCLUDED.graded_at
+  RETURNING * INTO saved;
+
+  UPDATE submissions
+  SET status = grade_status
+  WHERE submissions.id = save_submission_grade.submission_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  RETURN saved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_submission_grade(UUID, NUMERIC, TEXT, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_submission_grade(UUID, NUMERIC, TEXT, JSONB, TEXT) TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE submission_grades ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Course instructors can view grades" ON submission_grades;
+DROP POLICY IF EXISTS "Users can view their returned grades" ON submission_grades;
+DROP POLICY IF EXISTS "Course instructors can add grades" ON submission_grades;
+DROP POLICY IF EXISTS "Course instructors can change grades" ON submission_grades;
+
+CREATE POLICY "Course instructors can view grades"
+  ON submission_grades
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      JOIN assignments ON assignments.id = submissions.assignment_id
+      WHERE submissions.id = submission_grades.submission_id
+      AND can_manage_course(assignments.course_id)
+    )
+  );
+
+-- A grade saved as 'graded' stays with the instructors until it is returned
+CREATE POLICY "Users can view their returned grades"
+  ON submission_grades
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      WHERE submissions.id = submission_grades.submission_id
+      AND submissions.user_id = auth.uid()
+      AND submissions.status = 'returned'
+    )
+  );
+
+CREATE POLICY "Course instructors can add grades"
+  ON submission_grades
+  FOR INSERT
+  WITH CHECK (
+    graded_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM submissions
+      JOIN assignments ON assignments.id = submissions.assignment_id
+      WHERE submissions.id = submission_grades.submission_id
+      AND can_manage_course(assignments.course_id)
+    )
+  );
+
+CREATE POLICY "Course instructors can change grades"
+  ON submission_grades
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      JOIN assignments ON assignments.id = submissions.assignment_id
+      WHERE submissions.id = submission_grades.submission_id
+      AND can_manage_course(assignments.course_id)
+    )
+  )
+  WITH CHECK (graded_by = auth.uid());